@@ -0,0 +1,403 @@
+import { InputFile } from "grammy";
+import { API_METHOD_SCHEMAS, type ApiParamType } from "./ApiSchema.js";
+
+/**
+ * A file uploaded with a Bot API request, either as a multipart part or as a
+ * grammY `InputFile` passed through the transformer.
+ */
+export class UploadedFile {
+  constructor(
+    /** Raw file bytes */
+    readonly content: Buffer,
+    /** Filename sent with the upload */
+    readonly fileName?: string,
+    /** MIME type sent with the upload (undefined for application/octet-stream) */
+    readonly mimeType?: string,
+  ) {}
+
+  /**
+   * Size of the upload in bytes.
+   */
+  get size(): number {
+    return this.content.length;
+  }
+
+  /**
+   * Keep API call logs readable when they are serialized.
+   */
+  toJSON(): string {
+    return `[File: ${this.fileName ?? "unnamed"}]`;
+  }
+}
+
+/**
+ * A single part of a multipart/form-data body.
+ */
+export interface MultipartPart {
+  name: string;
+  fileName?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+/**
+ * Decode a single form field value by the type its parameter expects.
+ *
+ * Urlencoded and multipart fields are always strings. Like the Bot API, numbers and
+ * booleans are only read from fields that expect them, and JSON from fields that expect
+ * arrays or objects, so text such as "42" or "true" stays text. Fields of unknown
+ * parameters are only decoded when they hold a JSON object or array.
+ *
+ * @param value Raw field value
+ * @param type Bot API type of the parameter, if known
+ */
+export function decodeFormValue(value: string, type?: ApiParamType): unknown {
+  switch (type) {
+    case "integer":
+    case "chat_id":
+      return /^-?\d+$/.test(value) ? Number(value) : value;
+    case "float":
+      return value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "array":
+    case "object":
+      return parseJson(value);
+    case undefined:
+      return /^\s*[[{]/.test(value) ? parseJson(value) : value;
+    default:
+      return value;
+  }
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Bot API type of a method parameter, or undefined if the method or parameter is unknown.
+ */
+function paramType(method: string | undefined, name: string): ApiParamType | undefined {
+  if (method === undefined || !Object.hasOwn(API_METHOD_SCHEMAS, method)) return undefined;
+  const schema = API_METHOD_SCHEMAS[method];
+  return Object.hasOwn(schema, name) ? (schema[name].replace("?", "") as ApiParamType) : undefined;
+}
+
+/**
+ * Parse a raw Bot API request body into a payload object.
+ *
+ * Supports the three encodings the Bot API accepts:
+ * - application/json
+ * - application/x-www-form-urlencoded
+ * - multipart/form-data (uploaded files become `UploadedFile` instances)
+ *
+ * @param body Raw request body
+ * @param contentType Value of the Content-Type header (if any)
+ * @param method Bot API method the body is for, to decode form fields by their type
+ */
+export async function parseApiPayload(
+  body: Buffer | string,
+  contentType: string | undefined,
+  method?: string,
+): Promise<Record<string, unknown>> {
+  const type = contentType?.toLowerCase() ?? "";
+  const text = typeof body === "string" ? body : body.toString("utf8");
+
+  if (type.startsWith("multipart/form-data")) {
+    const boundary = contentType?.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    if (!boundary) {
+      throw new Error("Missing multipart boundary");
+    }
+    const buffer = typeof body === "string" ? Buffer.from(body) : body;
+    return partsToPayload(parseMultipart(buffer, (boundary[1] ?? boundary[2]).trim()), method);
+  }
+
+  if (text.trim() === "") {
+    return {};
+  }
+
+  if (type.startsWith("application/json")) {
+    const parsed = JSON.parse(text) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  }
+
+  return parseUrlEncoded(text, method);
+}
+
+/**
+ * Parse the body of a fetch() call made by a Bot API client.
+ * Handles string, URLSearchParams, FormData, binary and streamed bodies
+ * (grammY streams multipart uploads).
+ *
+ * @param method Bot API method the call is for, to decode form fields by their type
+ */
+export async function parseRequestInit(
+  init?: RequestInit,
+  method?: string,
+): Promise<Record<string, unknown>> {
+  const body = init?.body;
+  if (body === undefined || body === null) {
+    return {};
+  }
+
+  const contentType = new Headers(init?.headers).get("content-type") ?? undefined;
+
+  if (typeof body === "string") {
+    if (contentType) {
+      return parseApiPayload(body, contentType, method);
+    }
+    // No content type: JSON first, then urlencoded
+    try {
+      const parsed = JSON.parse(body) as unknown;
+      if (parsed && typeof parsed === "object") {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Fall through to urlencoded
+    }
+    return parseUrlEncoded(body, method);
+  }
+
+  if (body instanceof URLSearchParams) {
+    return parseUrlEncoded(body, method);
+  }
+
+  if (body instanceof FormData) {
+    return parseFormData(body, method);
+  }
+
+  return parseApiPayload(await readBody(body), contentType, method);
+}
+
+/**
+ * Parse a URL-encoded string (request body or query string) into a payload object.
+ *
+ * @param method Bot API method the parameters are for, to decode them by their type
+ */
+export function parseUrlEncoded(
+  input: string | URLSearchParams,
+  method?: string,
+): Record<string, unknown> {
+  const params = typeof input === "string" ? new URLSearchParams(input) : input;
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of params) {
+    payload[key] = decodeFormValue(value, paramType(method, key));
+  }
+  return payload;
+}
+
+/**
+ * Convert FormData into a payload object.
+ *
+ * @param method Bot API method the form is for, to decode fields by their type
+ */
+export async function parseFormData(
+  form: FormData,
+  method?: string,
+): Promise<Record<string, unknown>> {
+  const parts: MultipartPart[] = [];
+  for (const [name, value] of form.entries()) {
+    if (typeof value === "string") {
+      parts.push({ name, data: Buffer.from(value) });
+    } else {
+      parts.push({
+        name,
+        fileName: value.name,
+        contentType: value.type || undefined,
+        data: Buffer.from(await value.arrayBuffer()),
+      });
+    }
+  }
+  return partsToPayload(parts, method);
+}
+
+/**
+ * Split a multipart/form-data body into its parts.
+ *
+ * Lenient about header formatting (grammY sends unquoted filenames and
+ * no space after the header colon).
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const nextDelimiter = Buffer.from(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let pos = body.indexOf(delimiter);
+  while (pos !== -1) {
+    pos += delimiter.length;
+    // Closing delimiter: --boundary--
+    if (body[pos] === 0x2d && body[pos + 1] === 0x2d) break;
+    if (body[pos] === 0x0d && body[pos + 1] === 0x0a) pos += 2;
+
+    const end = body.indexOf(nextDelimiter, pos);
+    if (end === -1) break;
+
+    const part = body.subarray(pos, end);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headerText = headerEnd === -1 ? "" : part.subarray(0, headerEnd).toString("utf8");
+    const data = headerEnd === -1 ? part : part.subarray(headerEnd + 4);
+
+    const headers = new Map<string, string>();
+    for (const line of headerText.split("\r\n")) {
+      const colon = line.indexOf(":");
+      if (colon === -1) continue;
+      headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+    }
+
+    const params = parseHeaderParams(headers.get("content-disposition") ?? "");
+    if (params.name !== undefined) {
+      parts.push({
+        name: params.name,
+        fileName: params.filename,
+        contentType: headers.get("content-type"),
+        data: Buffer.from(data),
+      });
+    }
+
+    pos = end + 2;
+  }
+
+  return parts;
+}
+
+/**
+ * Replace grammY `InputFile` instances in a payload with `UploadedFile`s
+ * holding their bytes. Used for calls that never get serialized (transformer).
+ */
+export async function resolveInputFiles(value: unknown): Promise<unknown> {
+  if (value instanceof InputFile) {
+    const raw = await value.toRaw();
+    return new UploadedFile(await readBody(raw), value.filename);
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => resolveInputFiles(item)));
+  }
+  if (value && typeof value === "object" && !(value instanceof UploadedFile)) {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = await resolveInputFiles(item);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+/**
+ * Check whether a payload contains grammY `InputFile` instances.
+ */
+export function containsInputFile(value: unknown): boolean {
+  if (value instanceof InputFile) return true;
+  if (Array.isArray(value)) return value.some((item) => containsInputFile(item));
+  if (value && typeof value === "object") {
+    return Object.values(value).some((item) => containsInputFile(item));
+  }
+  return false;
+}
+
+/**
+ * Build a payload from multipart parts, resolving `attach://<name>` references.
+ */
+function partsToPayload(parts: MultipartPart[], method?: string): Record<string, unknown> {
+  const files = new Map<string, UploadedFile>();
+  const payload: Record<string, unknown> = {};
+
+  for (const part of parts) {
+    if (part.fileName !== undefined) {
+      const mimeType =
+        part.contentType && part.contentType !== "application/octet-stream"
+          ? part.contentType
+          : undefined;
+      const file = new UploadedFile(part.data, part.fileName, mimeType);
+      files.set(part.name, file);
+      payload[part.name] = file;
+    } else {
+      payload[part.name] = decodeFormValue(
+        part.data.toString("utf8"),
+        paramType(method, part.name),
+      );
+    }
+  }
+
+  const attached = new Set<string>();
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === "string" && value.startsWith("attach://")) {
+      const name = value.slice("attach://".length);
+      const file = files.get(name);
+      if (file) {
+        attached.add(name);
+        return file;
+      }
+      return value;
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value && typeof value === "object" && !(value instanceof UploadedFile)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolve(v)]));
+    }
+    return value;
+  };
+
+  for (const [key, value] of Object.entries(payload)) {
+    payload[key] = resolve(value);
+  }
+  // Parts that were only referenced via attach:// are not fields of their own
+  for (const name of attached) {
+    delete payload[name];
+  }
+
+  return payload;
+}
+
+/**
+ * Parse `key=value` parameters of a header such as Content-Disposition.
+ */
+function parseHeaderParams(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /;\s*([\w*-]+)=("((?:[^"\\]|\\.)*)"|[^;]*)/g;
+  for (const match of header.matchAll(pattern)) {
+    params[match[1].toLowerCase()] =
+      match[3] !== undefined ? match[3].replace(/\\(.)/g, "$1") : match[2].trim();
+  }
+  return params;
+}
+
+/**
+ * Read a request body or file source into a Buffer.
+ */
+async function readBody(body: unknown): Promise<Buffer> {
+  if (typeof body === "string") return Buffer.from(body);
+  if (body instanceof Uint8Array) return Buffer.from(body);
+  if (body instanceof ArrayBuffer) return Buffer.from(body);
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  }
+  if (body instanceof Blob) return Buffer.from(await body.arrayBuffer());
+
+  const chunks: Buffer[] = [];
+  if (body instanceof ReadableStream) {
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(Buffer.from(value as Uint8Array));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  if (
+    body &&
+    typeof body === "object" &&
+    (Symbol.asyncIterator in body || Symbol.iterator in body)
+  ) {
+    const iterable = body as AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>;
+    for await (const chunk of iterable) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  throw new Error("Unsupported request body");
+}
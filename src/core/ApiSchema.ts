@@ -0,0 +1,922 @@
+import { InputFile } from "grammy";
+import { UploadedFile } from "./ApiPayload.js";
+
+/**
+ * Type of a Bot API parameter.
+ *
+ * - `chat_id`: Integer or String (a chat ID or `@username`)
+ * - `file`: InputFile or String (a file ID, URL or `attach://` reference)
+ * - `array` / `object`: JSON-serialized values; their fields are not checked
+ */
+export type ApiParamType =
+  | "string"
+  | "integer"
+  | "float"
+  | "boolean"
+  | "chat_id"
+  | "file"
+  | "array"
+  | "object";
+
+/**
+ * Parameter type, suffixed with `?` for optional parameters.
+ */
+export type ApiParamSpec = ApiParamType | `${ApiParamType}?`;
+
+/**
+ * Parameters of a Bot API method by name.
+ */
+export type ApiMethodSchema = Record<string, ApiParamSpec>;
+
+/**
+ * Cross-parameter rule of a Bot API method.
+ *
+ * - `exclusive`: the parameters can't be used together
+ * - `message`: the method targets either `inline_message_id` or `chat_id` + `message_id`
+ */
+type ApiParamRule =
+  | { type: "exclusive"; params: [string, string]; description: string }
+  | { type: "message" };
+
+const SEND_TARGET: ApiMethodSchema = {
+  business_connection_id: "string?",
+  chat_id: "chat_id",
+  message_thread_id: "integer?",
+  direct_messages_topic_id: "integer?",
+};
+
+const EDIT_TARGET: ApiMethodSchema = {
+  business_connection_id: "string?",
+  chat_id: "chat_id?",
+  message_id: "integer?",
+  inline_message_id: "string?",
+};
+
+const CAPTION: ApiMethodSchema = {
+  caption: "string?",
+  parse_mode: "string?",
+  caption_entities: "array?",
+};
+
+const SEND_OPTIONS: ApiMethodSchema = {
+  disable_notification: "boolean?",
+  protect_content: "boolean?",
+  allow_paid_broadcast: "boolean?",
+  suggested_post_parameters: "object?",
+  message_effect_id: "string?",
+  reply_parameters: "object?",
+  reply_markup: "object?",
+  reply_to_message_id: "integer?",
+};
+
+/**
+ * Parameters of every Bot API method, following the @grammyjs/types definitions.
+ */
+export const API_METHOD_SCHEMAS: Record<string, ApiMethodSchema> = {
+  addStickerToSet: { user_id: "integer", name: "string", sticker: "object" },
+  answerCallbackQuery: {
+    callback_query_id: "string",
+    text: "string?",
+    show_alert: "boolean?",
+    url: "string?",
+    cache_time: "integer?",
+  },
+  answerInlineQuery: {
+    inline_query_id: "string",
+    results: "array",
+    cache_time: "integer?",
+    is_personal: "boolean?",
+    next_offset: "string?",
+    button: "object?",
+  },
+  answerPreCheckoutQuery: {
+    pre_checkout_query_id: "string",
+    ok: "boolean",
+    error_message: "string?",
+  },
+  answerShippingQuery: {
+    shipping_query_id: "string",
+    ok: "boolean",
+    shipping_options: "array?",
+    error_message: "string?",
+  },
+  answerWebAppQuery: { web_app_query_id: "string", result: "object" },
+  approveChatJoinRequest: { chat_id: "chat_id", user_id: "integer" },
+  approveSuggestedPost: { chat_id: "integer", message_id: "integer", send_date: "integer?" },
+  banChatMember: {
+    chat_id: "chat_id",
+    user_id: "integer",
+    until_date: "integer?",
+    revoke_messages: "boolean?",
+  },
+  banChatSenderChat: { chat_id: "chat_id", sender_chat_id: "integer" },
+  close: {},
+  closeForumTopic: { chat_id: "chat_id", message_thread_id: "integer" },
+  closeGeneralForumTopic: { chat_id: "chat_id" },
+  convertGiftToStars: { business_connection_id: "string", owned_gift_id: "string" },
+  copyMessage: {
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    direct_messages_topic_id: "integer?",
+    from_chat_id: "chat_id",
+    message_id: "integer",
+    video_start_timestamp: "integer?",
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  copyMessages: {
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    direct_messages_topic_id: "integer?",
+    from_chat_id: "chat_id",
+    message_ids: "array",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    remove_caption: "boolean?",
+  },
+  createChatInviteLink: {
+    chat_id: "chat_id",
+    name: "string?",
+    expire_date: "integer?",
+    member_limit: "integer?",
+    creates_join_request: "boolean?",
+  },
+  createChatSubscriptionInviteLink: {
+    chat_id: "chat_id",
+    name: "string?",
+    subscription_period: "integer",
+    subscription_price: "integer",
+  },
+  createForumTopic: {
+    chat_id: "chat_id",
+    name: "string",
+    icon_color: "integer?",
+    icon_custom_emoji_id: "string?",
+  },
+  createInvoiceLink: {
+    business_connection_id: "string?",
+    title: "string",
+    description: "string",
+    payload: "string",
+    provider_token: "string?",
+    currency: "string",
+    prices: "array",
+    subscription_period: "integer?",
+    max_tip_amount: "integer?",
+    suggested_tip_amounts: "array?",
+    provider_data: "string?",
+    photo_url: "string?",
+    photo_size: "integer?",
+    photo_width: "integer?",
+    photo_height: "integer?",
+    need_name: "boolean?",
+    need_phone_number: "boolean?",
+    need_email: "boolean?",
+    need_shipping_address: "boolean?",
+    send_phone_number_to_provider: "boolean?",
+    send_email_to_provider: "boolean?",
+    is_flexible: "boolean?",
+  },
+  createNewStickerSet: {
+    user_id: "integer",
+    name: "string",
+    title: "string",
+    stickers: "array",
+    sticker_type: "string?",
+    needs_repainting: "boolean?",
+  },
+  declineChatJoinRequest: { chat_id: "chat_id", user_id: "integer" },
+  declineSuggestedPost: { chat_id: "integer", message_id: "integer", comment: "string?" },
+  deleteBusinessMessages: { business_connection_id: "string", message_ids: "array" },
+  deleteChatPhoto: { chat_id: "chat_id" },
+  deleteChatStickerSet: { chat_id: "chat_id" },
+  deleteForumTopic: { chat_id: "chat_id", message_thread_id: "integer" },
+  deleteMessage: { chat_id: "chat_id", message_id: "integer" },
+  deleteMessages: { chat_id: "chat_id", message_ids: "array" },
+  deleteMyCommands: { scope: "object?", language_code: "string?" },
+  deleteStickerFromSet: { sticker: "string" },
+  deleteStickerSet: { name: "string" },
+  deleteStory: { business_connection_id: "string", story_id: "integer" },
+  deleteWebhook: { drop_pending_updates: "boolean?" },
+  editChatInviteLink: {
+    chat_id: "chat_id",
+    invite_link: "string",
+    name: "string?",
+    expire_date: "integer?",
+    member_limit: "integer?",
+    creates_join_request: "boolean?",
+  },
+  editChatSubscriptionInviteLink: { chat_id: "chat_id", invite_link: "string", name: "string?" },
+  editForumTopic: {
+    chat_id: "chat_id",
+    message_thread_id: "integer",
+    name: "string?",
+    icon_custom_emoji_id: "string?",
+  },
+  editGeneralForumTopic: { chat_id: "chat_id", name: "string" },
+  editMessageCaption: {
+    ...EDIT_TARGET,
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    reply_markup: "object?",
+  },
+  editMessageChecklist: {
+    business_connection_id: "string",
+    chat_id: "integer",
+    message_id: "integer",
+    checklist: "object",
+    reply_markup: "object?",
+  },
+  editMessageLiveLocation: {
+    ...EDIT_TARGET,
+    latitude: "float",
+    longitude: "float",
+    live_period: "integer?",
+    horizontal_accuracy: "float?",
+    heading: "integer?",
+    proximity_alert_radius: "integer?",
+    reply_markup: "object?",
+  },
+  editMessageMedia: { ...EDIT_TARGET, media: "object", reply_markup: "object?" },
+  editMessageReplyMarkup: { ...EDIT_TARGET, reply_markup: "object?" },
+  editMessageText: {
+    ...EDIT_TARGET,
+    text: "string",
+    parse_mode: "string?",
+    entities: "array?",
+    link_preview_options: "object?",
+    reply_markup: "object?",
+  },
+  editStory: {
+    business_connection_id: "string",
+    story_id: "integer",
+    content: "object",
+    ...CAPTION,
+    areas: "array?",
+  },
+  editUserStarSubscription: {
+    user_id: "integer",
+    telegram_payment_charge_id: "string",
+    is_canceled: "boolean",
+  },
+  exportChatInviteLink: { chat_id: "chat_id" },
+  forwardMessage: {
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    direct_messages_topic_id: "integer?",
+    from_chat_id: "chat_id",
+    video_start_timestamp: "integer?",
+    message_effect_id: "string?",
+    suggested_post_parameters: "object?",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    message_id: "integer",
+  },
+  forwardMessages: {
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    direct_messages_topic_id: "integer?",
+    from_chat_id: "chat_id",
+    message_ids: "array",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+  },
+  getAvailableGifts: {},
+  getBusinessAccountGifts: {
+    business_connection_id: "string",
+    exclude_unsaved: "boolean?",
+    exclude_saved: "boolean?",
+    exclude_unlimited: "boolean?",
+    exclude_limited_upgradable: "boolean?",
+    exclude_limited_non_upgradable: "boolean?",
+    exclude_from_blockchain: "boolean?",
+    exclude_unique: "boolean?",
+    sort_by_price: "boolean?",
+    offset: "string?",
+    limit: "integer?",
+  },
+  getBusinessAccountStarBalance: { business_connection_id: "string" },
+  getBusinessConnection: { business_connection_id: "string" },
+  getChat: { chat_id: "chat_id" },
+  getChatAdministrators: { chat_id: "chat_id" },
+  getChatGifts: {
+    chat_id: "chat_id",
+    exclude_unsaved: "boolean?",
+    exclude_saved: "boolean?",
+    exclude_unlimited: "boolean?",
+    exclude_limited_upgradable: "boolean?",
+    exclude_limited_non_upgradable: "boolean?",
+    exclude_from_blockchain: "boolean?",
+    exclude_unique: "boolean?",
+    sort_by_price: "boolean?",
+    offset: "string?",
+    limit: "integer?",
+  },
+  getChatMember: { chat_id: "chat_id", user_id: "integer" },
+  getChatMemberCount: { chat_id: "chat_id" },
+  getChatMenuButton: { chat_id: "integer?" },
+  getCustomEmojiStickers: { custom_emoji_ids: "array" },
+  getFile: { file_id: "string" },
+  getForumTopicIconStickers: {},
+  getGameHighScores: {
+    user_id: "integer",
+    chat_id: "integer?",
+    message_id: "integer?",
+    inline_message_id: "string?",
+  },
+  getMe: {},
+  getMyCommands: { scope: "object?", language_code: "string?" },
+  getMyDefaultAdministratorRights: { for_channels: "boolean?" },
+  getMyDescription: { language_code: "string?" },
+  getMyName: { language_code: "string?" },
+  getMyShortDescription: { language_code: "string?" },
+  getMyStarBalance: {},
+  getStarTransactions: { offset: "integer?", limit: "integer?" },
+  getStickerSet: { name: "string" },
+  getUpdates: {
+    offset: "integer?",
+    limit: "integer?",
+    timeout: "integer?",
+    allowed_updates: "array?",
+  },
+  getUserChatBoosts: { chat_id: "chat_id", user_id: "integer" },
+  getUserGifts: {
+    user_id: "integer",
+    exclude_unlimited: "boolean?",
+    exclude_limited_upgradable: "boolean?",
+    exclude_limited_non_upgradable: "boolean?",
+    exclude_from_blockchain: "boolean?",
+    exclude_unique: "boolean?",
+    sort_by_price: "boolean?",
+    offset: "string?",
+    limit: "integer?",
+  },
+  getUserProfilePhotos: { user_id: "integer", offset: "integer?", limit: "integer?" },
+  getWebhookInfo: {},
+  giftPremiumSubscription: {
+    user_id: "integer",
+    month_count: "integer",
+    star_count: "integer",
+    text: "string?",
+    text_parse_mode: "string?",
+    text_entities: "array?",
+  },
+  hideGeneralForumTopic: { chat_id: "chat_id" },
+  leaveChat: { chat_id: "chat_id" },
+  logOut: {},
+  pinChatMessage: {
+    business_connection_id: "string?",
+    chat_id: "chat_id",
+    message_id: "integer",
+    disable_notification: "boolean?",
+  },
+  postStory: {
+    business_connection_id: "string",
+    content: "object",
+    active_period: "integer",
+    ...CAPTION,
+    areas: "array?",
+    post_to_chat_page: "boolean?",
+    protect_content: "boolean?",
+  },
+  promoteChatMember: {
+    chat_id: "chat_id",
+    user_id: "integer",
+    is_anonymous: "boolean?",
+    can_manage_chat: "boolean?",
+    can_delete_messages: "boolean?",
+    can_manage_video_chats: "boolean?",
+    can_restrict_members: "boolean?",
+    can_promote_members: "boolean?",
+    can_change_info: "boolean?",
+    can_invite_users: "boolean?",
+    can_post_stories: "boolean?",
+    can_edit_stories: "boolean?",
+    can_delete_stories: "boolean?",
+    can_post_messages: "boolean?",
+    can_edit_messages: "boolean?",
+    can_pin_messages: "boolean?",
+    can_manage_topics: "boolean?",
+    can_manage_direct_messages: "boolean?",
+  },
+  readBusinessMessage: {
+    business_connection_id: "string",
+    chat_id: "integer",
+    message_id: "integer",
+  },
+  refundStarPayment: { user_id: "integer", telegram_payment_charge_id: "string" },
+  removeBusinessAccountProfilePhoto: { business_connection_id: "string", is_public: "boolean?" },
+  removeChatVerification: { chat_id: "chat_id" },
+  removeUserVerification: { user_id: "integer" },
+  reopenForumTopic: { chat_id: "chat_id", message_thread_id: "integer" },
+  reopenGeneralForumTopic: { chat_id: "chat_id" },
+  replaceStickerInSet: {
+    user_id: "integer",
+    name: "string",
+    old_sticker: "string",
+    sticker: "object",
+  },
+  repostStory: {
+    business_connection_id: "string",
+    from_chat_id: "integer",
+    from_story_id: "integer",
+    active_period: "integer",
+    post_to_chat_page: "boolean?",
+    protect_content: "boolean?",
+  },
+  restrictChatMember: {
+    chat_id: "chat_id",
+    user_id: "integer",
+    permissions: "object",
+    use_independent_chat_permissions: "boolean?",
+    until_date: "integer?",
+  },
+  revokeChatInviteLink: { chat_id: "chat_id", invite_link: "string" },
+  savePreparedInlineMessage: {
+    user_id: "integer",
+    result: "object",
+    allow_user_chats: "boolean?",
+    allow_bot_chats: "boolean?",
+    allow_group_chats: "boolean?",
+    allow_channel_chats: "boolean?",
+  },
+  sendAnimation: {
+    ...SEND_TARGET,
+    animation: "file",
+    duration: "integer?",
+    width: "integer?",
+    height: "integer?",
+    thumbnail: "file?",
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    has_spoiler: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  sendAudio: {
+    ...SEND_TARGET,
+    audio: "file",
+    ...CAPTION,
+    duration: "integer?",
+    performer: "string?",
+    title: "string?",
+    thumbnail: "file?",
+    ...SEND_OPTIONS,
+  },
+  sendChatAction: {
+    business_connection_id: "string?",
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    action: "string",
+  },
+  sendChecklist: {
+    business_connection_id: "string",
+    chat_id: "integer",
+    checklist: "object",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    message_effect_id: "string?",
+    reply_parameters: "object?",
+    reply_markup: "object?",
+  },
+  sendContact: {
+    ...SEND_TARGET,
+    phone_number: "string",
+    first_name: "string",
+    last_name: "string?",
+    vcard: "string?",
+    ...SEND_OPTIONS,
+  },
+  sendDice: { ...SEND_TARGET, emoji: "string?", ...SEND_OPTIONS },
+  sendDocument: {
+    ...SEND_TARGET,
+    document: "file",
+    thumbnail: "file?",
+    ...CAPTION,
+    disable_content_type_detection: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  sendGame: {
+    business_connection_id: "string?",
+    chat_id: "integer",
+    message_thread_id: "integer?",
+    game_short_name: "string",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    allow_paid_broadcast: "boolean?",
+    message_effect_id: "string?",
+    reply_parameters: "object?",
+    reply_markup: "object?",
+    reply_to_message_id: "integer?",
+  },
+  sendGift: {
+    user_id: "integer?",
+    chat_id: "chat_id?",
+    gift_id: "string",
+    pay_for_upgrade: "boolean?",
+    text: "string?",
+    text_parse_mode: "string?",
+    text_entities: "array?",
+  },
+  sendInvoice: {
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    direct_messages_topic_id: "integer?",
+    title: "string",
+    description: "string",
+    payload: "string",
+    provider_token: "string?",
+    currency: "string",
+    prices: "array",
+    max_tip_amount: "integer?",
+    suggested_tip_amounts: "array?",
+    start_parameter: "string?",
+    provider_data: "string?",
+    photo_url: "string?",
+    photo_size: "integer?",
+    photo_width: "integer?",
+    photo_height: "integer?",
+    need_name: "boolean?",
+    need_phone_number: "boolean?",
+    need_email: "boolean?",
+    need_shipping_address: "boolean?",
+    send_phone_number_to_provider: "boolean?",
+    send_email_to_provider: "boolean?",
+    is_flexible: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  sendLocation: {
+    ...SEND_TARGET,
+    latitude: "float",
+    longitude: "float",
+    horizontal_accuracy: "float?",
+    live_period: "integer?",
+    heading: "integer?",
+    proximity_alert_radius: "integer?",
+    ...SEND_OPTIONS,
+  },
+  sendMediaGroup: {
+    ...SEND_TARGET,
+    media: "array",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    allow_paid_broadcast: "boolean?",
+    message_effect_id: "string?",
+    reply_parameters: "object?",
+    reply_to_message_id: "integer?",
+  },
+  sendMessage: {
+    ...SEND_TARGET,
+    text: "string",
+    parse_mode: "string?",
+    entities: "array?",
+    link_preview_options: "object?",
+    ...SEND_OPTIONS,
+  },
+  sendMessageDraft: {
+    chat_id: "integer",
+    message_thread_id: "integer?",
+    draft_id: "integer",
+    text: "string",
+    parse_mode: "string?",
+    entities: "array?",
+  },
+  sendPaidMedia: {
+    ...SEND_TARGET,
+    star_count: "integer",
+    media: "array",
+    payload: "string?",
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    allow_paid_broadcast: "boolean?",
+    suggested_post_parameters: "object?",
+    reply_parameters: "object?",
+    reply_markup: "object?",
+  },
+  sendPhoto: {
+    ...SEND_TARGET,
+    photo: "file",
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    has_spoiler: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  sendPoll: {
+    business_connection_id: "string?",
+    chat_id: "chat_id",
+    message_thread_id: "integer?",
+    question: "string",
+    question_parse_mode: "string?",
+    question_entities: "array?",
+    options: "array",
+    is_anonymous: "boolean?",
+    type: "string?",
+    allows_multiple_answers: "boolean?",
+    correct_option_id: "integer?",
+    explanation: "string?",
+    explanation_parse_mode: "string?",
+    explanation_entities: "array?",
+    open_period: "integer?",
+    close_date: "integer?",
+    is_closed: "boolean?",
+    disable_notification: "boolean?",
+    protect_content: "boolean?",
+    allow_paid_broadcast: "boolean?",
+    message_effect_id: "string?",
+    reply_parameters: "object?",
+    reply_markup: "object?",
+    reply_to_message_id: "integer?",
+  },
+  sendSticker: { ...SEND_TARGET, sticker: "file", emoji: "string?", ...SEND_OPTIONS },
+  sendVenue: {
+    ...SEND_TARGET,
+    latitude: "float",
+    longitude: "float",
+    title: "string",
+    address: "string",
+    foursquare_id: "string?",
+    foursquare_type: "string?",
+    google_place_id: "string?",
+    google_place_type: "string?",
+    ...SEND_OPTIONS,
+  },
+  sendVideo: {
+    ...SEND_TARGET,
+    video: "file",
+    duration: "integer?",
+    width: "integer?",
+    height: "integer?",
+    thumbnail: "file?",
+    cover: "file?",
+    start_timestamp: "integer?",
+    ...CAPTION,
+    show_caption_above_media: "boolean?",
+    has_spoiler: "boolean?",
+    supports_streaming: "boolean?",
+    ...SEND_OPTIONS,
+  },
+  sendVideoNote: {
+    ...SEND_TARGET,
+    video_note: "file",
+    duration: "integer?",
+    length: "integer?",
+    thumbnail: "file?",
+    ...SEND_OPTIONS,
+  },
+  sendVoice: { ...SEND_TARGET, voice: "file", ...CAPTION, duration: "integer?", ...SEND_OPTIONS },
+  setBusinessAccountBio: { business_connection_id: "string", bio: "string?" },
+  setBusinessAccountGiftSettings: {
+    business_connection_id: "string",
+    show_gift_button: "boolean",
+    accepted_gift_types: "object",
+  },
+  setBusinessAccountName: {
+    business_connection_id: "string",
+    first_name: "string",
+    last_name: "string?",
+  },
+  setBusinessAccountProfilePhoto: {
+    business_connection_id: "string",
+    photo: "object",
+    is_public: "boolean?",
+  },
+  setBusinessAccountUsername: { business_connection_id: "string", username: "string?" },
+  setChatAdministratorCustomTitle: {
+    chat_id: "chat_id",
+    user_id: "integer",
+    custom_title: "string",
+  },
+  setChatDescription: { chat_id: "chat_id", description: "string?" },
+  setChatMenuButton: { chat_id: "integer?", menu_button: "object?" },
+  setChatPermissions: {
+    chat_id: "chat_id",
+    permissions: "object",
+    use_independent_chat_permissions: "boolean?",
+  },
+  setChatPhoto: { chat_id: "chat_id", photo: "file" },
+  setChatStickerSet: { chat_id: "chat_id", sticker_set_name: "string" },
+  setChatTitle: { chat_id: "chat_id", title: "string" },
+  setCustomEmojiStickerSetThumbnail: { name: "string", custom_emoji_id: "string?" },
+  setGameScore: {
+    user_id: "integer",
+    score: "integer",
+    force: "boolean?",
+    disable_edit_message: "boolean?",
+    chat_id: "integer?",
+    message_id: "integer?",
+    inline_message_id: "string?",
+  },
+  setMessageReaction: {
+    chat_id: "chat_id",
+    message_id: "integer",
+    reaction: "array?",
+    is_big: "boolean?",
+  },
+  setMyCommands: { commands: "array", scope: "object?", language_code: "string?" },
+  setMyDefaultAdministratorRights: { rights: "object?", for_channels: "boolean?" },
+  setMyDescription: { description: "string?", language_code: "string?" },
+  setMyName: { name: "string?", language_code: "string?" },
+  setMyShortDescription: { short_description: "string?", language_code: "string?" },
+  setPassportDataErrors: { user_id: "integer", errors: "array" },
+  setStickerEmojiList: { sticker: "string", emoji_list: "array" },
+  setStickerKeywords: { sticker: "string", keywords: "array?" },
+  setStickerMaskPosition: { sticker: "string", mask_position: "object?" },
+  setStickerPositionInSet: { sticker: "string", position: "integer" },
+  setStickerSetThumbnail: {
+    name: "string",
+    user_id: "integer",
+    thumbnail: "file?",
+    format: "string",
+  },
+  setStickerSetTitle: { name: "string", title: "string" },
+  setUserEmojiStatus: {
+    user_id: "integer",
+    emoji_status_custom_emoji_id: "string?",
+    emoji_status_expiration_date: "integer?",
+  },
+  setWebhook: {
+    url: "string",
+    certificate: "file?",
+    ip_address: "string?",
+    max_connections: "integer?",
+    allowed_updates: "array?",
+    drop_pending_updates: "boolean?",
+    secret_token: "string?",
+  },
+  stopMessageLiveLocation: { ...EDIT_TARGET, reply_markup: "object?" },
+  stopPoll: {
+    business_connection_id: "string?",
+    chat_id: "chat_id",
+    message_id: "integer",
+    reply_markup: "object?",
+  },
+  transferBusinessAccountStars: { business_connection_id: "string", star_count: "integer" },
+  transferGift: {
+    business_connection_id: "string",
+    owned_gift_id: "string",
+    new_owner_chat_id: "integer",
+    star_count: "integer",
+  },
+  unbanChatMember: { chat_id: "chat_id", user_id: "integer", only_if_banned: "boolean?" },
+  unbanChatSenderChat: { chat_id: "chat_id", sender_chat_id: "integer" },
+  unhideGeneralForumTopic: { chat_id: "chat_id" },
+  unpinAllChatMessages: { chat_id: "chat_id" },
+  unpinAllForumTopicMessages: { chat_id: "chat_id", message_thread_id: "integer" },
+  unpinAllGeneralForumTopicMessages: { chat_id: "chat_id" },
+  unpinChatMessage: {
+    business_connection_id: "string?",
+    chat_id: "chat_id",
+    message_id: "integer?",
+  },
+  upgradeGift: {
+    business_connection_id: "string",
+    owned_gift_id: "string",
+    keep_original_details: "boolean?",
+    star_count: "integer?",
+  },
+  uploadStickerFile: { user_id: "integer", sticker_format: "string", sticker: "file" },
+  verifyChat: { chat_id: "chat_id", custom_description: "string?" },
+  verifyUser: { user_id: "integer", custom_description: "string?" },
+};
+
+const EDIT_METHODS = [
+  "editMessageText",
+  "editMessageCaption",
+  "editMessageMedia",
+  "editMessageLiveLocation",
+  "stopMessageLiveLocation",
+  "editMessageReplyMarkup",
+  "setGameScore",
+  "getGameHighScores",
+];
+
+const API_PARAM_RULES: Record<string, ApiParamRule[]> = {
+  ...Object.fromEntries(EDIT_METHODS.map((method) => [method, [{ type: "message" }]])),
+  sendPoll: [
+    {
+      type: "exclusive",
+      params: ["open_period", "close_date"],
+      description: "Bad Request: can't use open_period and close_date together",
+    },
+  ],
+  createChatInviteLink: [
+    {
+      type: "exclusive",
+      params: ["member_limit", "creates_join_request"],
+      description: "Bad Request: member_limit can't be specified for links requiring approval",
+    },
+  ],
+  editChatInviteLink: [
+    {
+      type: "exclusive",
+      params: ["member_limit", "creates_join_request"],
+      description: "Bad Request: member_limit can't be specified for links requiring approval",
+    },
+  ],
+};
+
+const TYPE_NAMES: Record<ApiParamType, string> = {
+  string: "String",
+  integer: "Integer",
+  float: "Float",
+  boolean: "Boolean",
+  chat_id: "Integer or String",
+  file: "InputFile or String",
+  array: "Array",
+  object: "Object",
+};
+
+/**
+ * Descriptions Telegram uses for some missing parameters.
+ */
+const MISSING_DESCRIPTIONS: Record<string, string> = {
+  chat_id: "Bad Request: chat_id is empty",
+  text: "Bad Request: message text is empty",
+};
+
+/**
+ * Check if a method is part of the Bot API.
+ */
+export function isApiMethod(method: string): boolean {
+  return Object.hasOwn(API_METHOD_SCHEMAS, method);
+}
+
+/**
+ * Check a payload against the Bot API definition of a method.
+ *
+ * Parameters with an `undefined` value count as omitted, like grammY drops them
+ * when serializing. Numbers sent as strings are accepted, like Telegram does.
+ *
+ * @returns Telegram-style error description, or undefined if the payload is valid
+ */
+export function validateApiPayload(
+  method: string,
+  payload: Record<string, unknown>,
+): string | undefined {
+  const schema = API_METHOD_SCHEMAS[method];
+  if (!schema) return "Not Found";
+
+  const has = (name: string) => payload[name] !== undefined && payload[name] !== false;
+
+  for (const [name, value] of Object.entries(payload)) {
+    if (value === undefined) continue;
+    const spec = schema[name];
+    if (!spec) {
+      return `Bad Request: unknown parameter "${name}"`;
+    }
+    const type = spec.replace("?", "") as ApiParamType;
+    if (!matchesType(value, type)) {
+      return `Bad Request: field "${name}" must be of type ${TYPE_NAMES[type]}`;
+    }
+  }
+
+  const rules = API_PARAM_RULES[method] ?? [];
+  const targetsMessage = rules.some((rule) => rule.type === "message");
+  for (const [name, spec] of Object.entries(schema)) {
+    if (spec.endsWith("?") || payload[name] !== undefined) continue;
+    return MISSING_DESCRIPTIONS[name] ?? `Bad Request: parameter "${name}" is required`;
+  }
+
+  if (targetsMessage && !has("inline_message_id")) {
+    if (!has("chat_id")) return MISSING_DESCRIPTIONS.chat_id;
+    if (!has("message_id")) return "Bad Request: message identifier is not specified";
+  }
+  for (const rule of rules) {
+    if (rule.type === "exclusive" && rule.params.every(has)) {
+      return rule.description;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a parameter value against its Bot API type.
+ */
+function matchesType(value: unknown, type: ApiParamType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return Number.isInteger(value) || (typeof value === "string" && /^-?\d+$/.test(value));
+    case "float":
+      return (
+        (typeof value === "number" && Number.isFinite(value)) ||
+        (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)))
+      );
+    case "boolean":
+      return typeof value === "boolean";
+    case "chat_id":
+      return Number.isInteger(value) || (typeof value === "string" && value !== "");
+    case "file":
+      return (
+        typeof value === "string" || value instanceof InputFile || value instanceof UploadedFile
+      );
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,260 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { HttpError } from "grammy";
+import { parseApiPayload, parseUrlEncoded } from "./ApiPayload.js";
+import { createFileDownloadResponse } from "./MockFetch.js";
+import type { TelegramServer } from "./TelegramServer.js";
+import type { ApiCallRecord } from "./TestClient.js";
+
+/**
+ * Options for the local Bot API HTTP server.
+ */
+export interface BotApiServerOptions {
+  /** Only accept requests for this bot token (default: accept any token) */
+  token?: string;
+  /** Port to listen on (default: 0 = pick a free port) */
+  port?: number;
+  /** Interface to bind to (default: "127.0.0.1") */
+  hostname?: string;
+}
+
+/**
+ * Serves a TelegramServer over real HTTP, speaking the Bot API wire protocol.
+ *
+ * This lets bots that don't use grammY, or that run in a separate process,
+ * talk to the simulator by pointing their API root at the server URL:
+ *
+ * - `POST|GET /bot<token>/<method>` with JSON, urlencoded or multipart bodies
+ * - `GET /file/bot<token>/<file_path>` for file downloads
+ *
+ * @example
+ * ```typescript
+ * const apiServer = testBot.createApiServer();
+ * const url = await apiServer.listen();
+ *
+ * // In another process: https://api.telegram.org -> url
+ * await fetch(`${url}/bot${token}/sendMessage`, {
+ *   method: "POST",
+ *   headers: { "Content-Type": "application/json" },
+ *   body: JSON.stringify({ chat_id: chat.id, text: "Hello" }),
+ * });
+ *
+ * await apiServer.close();
+ * ```
+ */
+export class BotApiServer {
+  private server: TelegramServer;
+  private options: BotApiServerOptions;
+  private apiCalls: ApiCallRecord[];
+  private httpServer: Server | null = null;
+  private baseUrl: string | null = null;
+
+  constructor(
+    server: TelegramServer,
+    options: BotApiServerOptions = {},
+    apiCalls: ApiCallRecord[] = [],
+  ) {
+    this.server = server;
+    this.options = options;
+    this.apiCalls = apiCalls;
+  }
+
+  /**
+   * Start listening. Resolves with the base URL (e.g. `http://127.0.0.1:34567`).
+   */
+  async listen(): Promise<string> {
+    if (this.httpServer && this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    const hostname = this.options.hostname ?? "127.0.0.1";
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: Error) => {
+        this.sendJson(res, 500, {
+          ok: false,
+          error_code: 500,
+          description: `Internal Server Error: ${error.message}`,
+        });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port ?? 0, hostname, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    this.httpServer = httpServer;
+    this.baseUrl = `http://${hostname}:${address.port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop the server and drop any open connections (e.g. pending long polls).
+   */
+  async close(): Promise<void> {
+    const httpServer = this.httpServer;
+    if (!httpServer) return;
+
+    this.httpServer = null;
+    this.baseUrl = null;
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Base URL of the running server.
+   */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error("BotApiServer is not listening. Call listen() first.");
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Whether the server is currently listening.
+   */
+  get isListening(): boolean {
+    return this.httpServer !== null;
+  }
+
+  /**
+   * Get all API calls received over HTTP.
+   */
+  getApiCalls(): ApiCallRecord[] {
+    return [...this.apiCalls];
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    // File downloads: /file/bot<token>/<file_path>
+    const fileMatch = url.pathname.match(/^\/file\/bot([^/]+)\/(.+)$/);
+    if (fileMatch) {
+      if (!this.isTokenAccepted(fileMatch[1])) {
+        this.sendJson(res, 401, { ok: false, error_code: 401, description: "Unauthorized" });
+        return;
+      }
+      await this.handleFileDownload(decodeURIComponent(fileMatch[2]), res);
+      return;
+    }
+
+    // API calls: /bot<token>/<method>
+    const methodMatch = url.pathname.match(/^\/bot([^/]+)\/(\w+)$/);
+    if (!methodMatch) {
+      this.sendJson(res, 404, { ok: false, error_code: 404, description: "Not Found" });
+      return;
+    }
+
+    if (!this.isTokenAccepted(methodMatch[1])) {
+      this.sendJson(res, 401, { ok: false, error_code: 401, description: "Unauthorized" });
+      return;
+    }
+
+    const method = methodMatch[2];
+
+    let payload: Record<string, unknown>;
+    try {
+      const body = await this.readBody(req);
+      payload = {
+        ...parseUrlEncoded(url.searchParams, method),
+        ...(await parseApiPayload(body, req.headers["content-type"], method)),
+      };
+    } catch {
+      this.sendJson(res, 400, {
+        ok: false,
+        error_code: 400,
+        description: "Bad Request: can't parse request body",
+      });
+      return;
+    }
+
+    const record: ApiCallRecord = {
+      method,
+      payload,
+      response: undefined,
+      timestamp: Date.now(),
+    };
+
+    try {
+      const result = await this.server.handleApiCall(method, payload);
+      record.response = result;
+      this.apiCalls.push(record);
+
+      this.sendJson(res, 200, { ok: true, result });
+    } catch (error) {
+      const err = error as Error & {
+        code?: number;
+        description?: string;
+        parameters?: Record<string, unknown>;
+      };
+      record.error = err;
+      this.apiCalls.push(record);
+
+      // Injected network failures drop the connection without a response
+      if (error instanceof HttpError) {
+        res.destroy();
+        return;
+      }
+
+      const code = err.code ?? 400;
+      this.sendJson(res, code, {
+        ok: false,
+        error_code: code,
+        description: err.description ?? err.message,
+        ...(err.parameters ? { parameters: err.parameters } : {}),
+      });
+    }
+  }
+
+  /**
+   * Serve a file download with the same response the mocked fetch gives.
+   */
+  private async handleFileDownload(filePath: string, res: ServerResponse): Promise<void> {
+    const response = createFileDownloadResponse(this.server, filePath);
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+
+  private isTokenAccepted(token: string): boolean {
+    return this.options.token === undefined || this.options.token === token;
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const json = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      "Content-Type": "application/json",
+      "Content-Length": String(Buffer.byteLength(json)),
+    });
+    res.end(json);
+  }
+}
+
+/**
+ * Create a new BotApiServer for a TelegramServer.
+ */
+export function createBotApiServer(
+  server: TelegramServer,
+  options: BotApiServerOptions = {},
+): BotApiServer {
+  return new BotApiServer(server, options);
+}
@@ -7,6 +7,7 @@ import type {
   Message,
   MessageEntity,
   Poll,
+  Update,
 } from "grammy/types";
 import type { ApiCallRecord } from "./TestClient.js";
 
@@ -84,9 +85,20 @@ export class BotResponse {
   /** Error from API call (if any) */
   error?: TelegramError;
 
+  /** Why the update never reached the bot (e.g. "privacy_mode"), undefined if it was delivered */
+  suppressedReason?: string;
+
+  /** Whether the update never reached the bot */
+  get suppressed(): boolean {
+    return this.suppressedReason !== undefined;
+  }
+
   /** All API calls made during this response */
   readonly apiCalls: ApiCallRecord[] = [];
 
+  /** Updates Telegram generated because of the bot's actions (chat_member, my_chat_member, ...) */
+  readonly generatedUpdates: Update[] = [];
+
   /**
    * Get the text of the last message sent, or undefined if no text messages.
    */
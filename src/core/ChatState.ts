@@ -53,6 +53,8 @@ export interface ChatStateData {
   slowModeDelay: number;
   /** All messages in this chat */
   messages: Message[];
+  /** IDs of messages deleted from this chat */
+  deletedMessageIds: number[];
   /** Pinned message IDs */
   pinnedMessageIds: Set<number>;
   /** Primary invite link */
@@ -77,6 +79,14 @@ export interface ChatStateData {
   hasPhoto: boolean;
   /** Whether members can send messages (for locked chats) */
   isLocked: boolean;
+  /** Whether channel posts are signed with the author's name */
+  signMessages: boolean;
+  /** Linked discussion group (for channels) or channel (for discussion groups) */
+  linkedChatId?: number;
+  /** Channel post ID -> ID of its automatic forward in the discussion group (for channels) */
+  discussionMessageIds: Map<number, number>;
+  /** Supergroup this group was upgraded to (for migrated basic groups) */
+  migratedToChatId?: number;
   /** Available reactions for this chat */
   availableReactions?: {
     type: "all" | "some";
@@ -94,6 +104,30 @@ export class ChatState {
   private inviteLinkCounter = 1;
   private topicIdCounter = 1;
 
+  /** Simulated current time (kept in sync by the server) */
+  private currentTime: number = Date.now();
+
+  /**
+   * Get the current simulated time.
+   */
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Set the current simulated time.
+   */
+  setCurrentTime(time: number): void {
+    this.currentTime = time;
+  }
+
+  /**
+   * Get current Unix timestamp.
+   */
+  private timestamp(): number {
+    return Math.floor(this.currentTime / 1000);
+  }
+
   /**
    * Get or create chat state.
    */
@@ -120,6 +154,13 @@ export class ChatState {
     return this.chats.has(chatId);
   }
 
+  /**
+   * Get the state of every known chat.
+   */
+  getAll(): ChatStateData[] {
+    return [...this.chats.values()];
+  }
+
   /**
    * Create default chat state.
    */
@@ -129,11 +170,14 @@ export class ChatState {
       permissions: this.getDefaultPermissions(chat.type),
       slowModeDelay: 0,
       messages: [],
+      deletedMessageIds: [],
       pinnedMessageIds: new Set(),
       inviteLinks: new Map(),
       forumTopics: new Map(),
       isForum: false,
       isLocked: false,
+      signMessages: false,
+      discussionMessageIds: new Map(),
       hasPhoto: false,
       boosts: new Map(),
     };
@@ -294,10 +338,18 @@ export class ChatState {
     if (index === -1) return false;
 
     state.messages.splice(index, 1);
+    state.deletedMessageIds.push(messageId);
     state.pinnedMessageIds.delete(messageId);
     return true;
   }
 
+  /**
+   * Get the IDs of messages deleted from a chat.
+   */
+  getDeletedMessageIds(chatId: number): number[] {
+    return [...(this.chats.get(chatId)?.deletedMessageIds ?? [])];
+  }
+
   /**
    * Get all messages in a chat.
    */
@@ -483,6 +535,49 @@ export class ChatState {
     return state ? Array.from(state.inviteLinks.values()) : [];
   }
 
+  /**
+   * Convert a stored invite link to the ChatInviteLink object Telegram returns.
+   * `pending_join_request_count` is only reported for links that create join requests.
+   */
+  toChatInviteLink(link: StoredInviteLink): ChatInviteLink {
+    const chatInviteLink: ChatInviteLink = {
+      invite_link: link.invite_link,
+      creator: link.creator,
+      creates_join_request: link.creates_join_request,
+      is_primary: link.is_primary,
+      is_revoked: link.is_revoked,
+    };
+    if (link.name !== undefined) chatInviteLink.name = link.name;
+    if (link.expire_date !== undefined) chatInviteLink.expire_date = link.expire_date;
+    if (link.member_limit !== undefined) chatInviteLink.member_limit = link.member_limit;
+    if (link.creates_join_request) {
+      chatInviteLink.pending_join_request_count = link.pending_join_request_count ?? 0;
+    }
+    if (link.subscription_period !== undefined) {
+      chatInviteLink.subscription_period = link.subscription_period;
+    }
+    if (link.subscription_price !== undefined) {
+      chatInviteLink.subscription_price = link.subscription_price;
+    }
+    return chatInviteLink;
+  }
+
+  /**
+   * Check if an invite link has passed its expire_date.
+   */
+  isInviteLinkExpired(chatId: number, inviteLink: string): boolean {
+    const link = this.getInviteLink(chatId, inviteLink);
+    return !!link?.expire_date && link.expire_date <= this.timestamp();
+  }
+
+  /**
+   * Check if an invite link has reached its member_limit.
+   */
+  isInviteLinkExhausted(chatId: number, inviteLink: string): boolean {
+    const link = this.getInviteLink(chatId, inviteLink);
+    return !!link?.member_limit && link.usage_count >= link.member_limit;
+  }
+
   /**
    * Check if an invite link is valid (not revoked, not expired, not at limit).
    */
@@ -490,23 +585,28 @@ export class ChatState {
     const link = this.getInviteLink(chatId, inviteLink);
     if (!link || link.is_revoked) return false;
 
-    if (link.expire_date && link.expire_date < Math.floor(Date.now() / 1000)) {
-      return false;
-    }
-
-    if (link.member_limit && link.usage_count >= link.member_limit) {
-      return false;
-    }
-
-    return true;
+    return (
+      !this.isInviteLinkExpired(chatId, inviteLink) &&
+      !this.isInviteLinkExhausted(chatId, inviteLink)
+    );
   }
 
   /**
    * Use an invite link (increment usage count).
    */
   useInviteLink(chatId: number, inviteLink: string, userId: number): boolean {
+    if (!this.isInviteLinkValid(chatId, inviteLink)) return false;
+
+    return this.recordInviteLinkJoin(chatId, inviteLink, userId);
+  }
+
+  /**
+   * Count a user as joined via an invite link, without validity checks
+   * (e.g. when a join request is approved after the link expired).
+   */
+  recordInviteLinkJoin(chatId: number, inviteLink: string, userId: number): boolean {
     const link = this.getInviteLink(chatId, inviteLink);
-    if (!link || !this.isInviteLinkValid(chatId, inviteLink)) return false;
+    if (!link) return false;
 
     link.usage_count++;
     link.joinedUserIds.add(userId);
@@ -812,6 +912,117 @@ export class ChatState {
     return this.chats.get(chatId)?.isLocked ?? false;
   }
 
+  // === Channel Signatures ===
+
+  /**
+   * Enable or disable author signatures for channel posts.
+   */
+  setSignMessages(chatId: number, enabled: boolean): boolean {
+    const state = this.chats.get(chatId);
+    if (!state || state.chat.type !== "channel") return false;
+
+    state.signMessages = enabled;
+    return true;
+  }
+
+  /**
+   * Check if channel posts are signed.
+   */
+  isSigningMessages(chatId: number): boolean {
+    return this.chats.get(chatId)?.signMessages ?? false;
+  }
+
+  // === Discussion Groups ===
+
+  /**
+   * Link a channel to its discussion group (both chats get `linked_chat_id`).
+   * Any previous link of either chat is removed.
+   */
+  linkDiscussionGroup(channelId: number, groupId: number): boolean {
+    const channel = this.chats.get(channelId);
+    const group = this.chats.get(groupId);
+    if (channel?.chat.type !== "channel" || group?.chat.type !== "supergroup") return false;
+
+    this.unlinkDiscussionGroup(channelId);
+    this.unlinkDiscussionGroup(groupId);
+    channel.linkedChatId = groupId;
+    group.linkedChatId = channelId;
+    return true;
+  }
+
+  /**
+   * Remove the link between a channel and its discussion group.
+   * Accepts either side of the link.
+   */
+  unlinkDiscussionGroup(chatId: number): boolean {
+    const state = this.chats.get(chatId);
+    if (state?.linkedChatId === undefined) return false;
+
+    const linked = this.chats.get(state.linkedChatId);
+    if (linked) linked.linkedChatId = undefined;
+    state.linkedChatId = undefined;
+    return true;
+  }
+
+  /**
+   * Get the linked discussion group of a channel (or the channel of a discussion group).
+   */
+  getLinkedChatId(chatId: number): number | undefined {
+    return this.chats.get(chatId)?.linkedChatId;
+  }
+
+  /**
+   * Remember the automatic forward of a channel post in the discussion group.
+   */
+  setDiscussionMessageId(channelId: number, postId: number, messageId: number): void {
+    this.chats.get(channelId)?.discussionMessageIds.set(postId, messageId);
+  }
+
+  /**
+   * Get the automatic forward of a channel post in the discussion group.
+   * Comments on the post are replies in this message's thread.
+   */
+  getDiscussionMessageId(channelId: number, postId: number): number | undefined {
+    return this.chats.get(channelId)?.discussionMessageIds.get(postId);
+  }
+
+  // === Group Migration ===
+
+  /**
+   * Move a basic group's state into a new supergroup.
+   * Messages keep their IDs but now belong to the supergroup; the old group keeps
+   * only a pointer to its successor.
+   */
+  migrateChat(chatId: number, supergroup: Chat.SupergroupChat): ChatStateData | undefined {
+    const state = this.chats.get(chatId);
+    if (!state || state.chat.type !== "group" || state.migratedToChatId !== undefined) {
+      return undefined;
+    }
+
+    const migrated = this.getOrCreate(supergroup);
+    migrated.permissions = { ...state.permissions };
+    migrated.description = state.description;
+    migrated.photoFileId = state.photoFileId;
+    migrated.hasPhoto = state.hasPhoto;
+    migrated.availableReactions = state.availableReactions;
+    migrated.messages = state.messages.map((message) => ({ ...message, chat: supergroup }));
+    migrated.pinnedMessageIds = new Set(state.pinnedMessageIds);
+
+    state.messages = [];
+    state.pinnedMessageIds.clear();
+    state.inviteLinks.clear();
+    state.primaryInviteLink = undefined;
+    state.migratedToChatId = supergroup.id;
+    return migrated;
+  }
+
+  /**
+   * Get the supergroup a basic group was upgraded to.
+   */
+  getMigratedToChatId(chatId: number): number | undefined {
+    return this.chats.get(chatId)?.migratedToChatId;
+  }
+
   // === Boost Management ===
 
   /** Boost ID counter */
@@ -828,7 +1039,7 @@ export class ChatState {
     const state = this.chats.get(chatId);
     if (!state) return undefined;
 
-    const now = Math.floor(Date.now() / 1000);
+    const now = this.timestamp();
     const boost: StoredChatBoost = {
       boost_id: `boost_${this.boostIdCounter++}`,
       add_date: now,
@@ -886,6 +1097,7 @@ export class ChatState {
     this.inviteLinkCounter = 1;
     this.topicIdCounter = 1;
     this.boostIdCounter = 1;
+    this.currentTime = Date.now();
   }
 
   /**
@@ -0,0 +1,195 @@
+import type { ResponseParameters } from "grammy/types";
+
+/**
+ * A failure injected into an API call.
+ *
+ * - `error`: Telegram answers with an error, e.g. `502 Bad Gateway`
+ * - `rate_limit`: `429 Too Many Requests: retry after N` with `parameters.retry_after`
+ * - `network`: the request never reaches Telegram; grammY raises an `HttpError`
+ * - `delay`: the call succeeds after the given seconds of simulated time
+ */
+export type Fault =
+  | { type: "error"; code: number; description: string; parameters?: ResponseParameters }
+  | { type: "rate_limit"; retryAfter: number }
+  | { type: "network"; message?: string }
+  | { type: "delay"; seconds: number };
+
+/**
+ * Declarative rule describing which API calls fail and how.
+ */
+export interface FaultRule {
+  /** Method or methods the rule applies to (default: every method) */
+  method?: string | string[];
+  /** Only calls addressed to this chat_id */
+  chatId?: number | string;
+  /** Number of times the rule fires before it is used up (default: unlimited) */
+  times?: number;
+  /** Chance that a matching call is affected, from 0 to 1 (default: 1) */
+  probability?: number;
+  /** What happens to the affected calls */
+  fault: Fault;
+}
+
+/**
+ * A fault that was applied to an API call.
+ */
+export interface FiredFault {
+  /** ID of the rule that fired (as returned by addRule) */
+  ruleId: number;
+  method: string;
+  chatId?: number | string;
+  fault: Fault;
+}
+
+/**
+ * Registered rule with its remaining budget.
+ */
+interface StoredFaultRule {
+  id: number;
+  rule: FaultRule;
+  remaining: number;
+}
+
+/**
+ * Manages fault rules for API calls and logs the faults that fired.
+ */
+export class FaultInjector {
+  private rules: StoredFaultRule[] = [];
+  private log: FiredFault[] = [];
+  private ruleIdCounter = 1;
+  private random: () => number = Math.random;
+
+  /**
+   * Register a fault rule. Rules are checked in the order they were added.
+   * @returns Rule ID for removeRule()
+   * @throws If `times` is not a positive integer
+   */
+  addRule(rule: FaultRule): number {
+    if (rule.times !== undefined && !(Number.isInteger(rule.times) && rule.times > 0)) {
+      throw new Error(`Fault rule "times" must be a positive integer, got ${rule.times}`);
+    }
+    const id = this.ruleIdCounter++;
+    this.rules.push({ id, rule, remaining: rule.times ?? Number.POSITIVE_INFINITY });
+    return id;
+  }
+
+  /**
+   * Remove a fault rule.
+   */
+  removeRule(id: number): boolean {
+    const index = this.rules.findIndex((stored) => stored.id === id);
+    if (index === -1) return false;
+    this.rules.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Remove all fault rules (the log is kept).
+   */
+  clearRules(): void {
+    this.rules = [];
+  }
+
+  /**
+   * Get the active rules (rules whose `times` are used up are dropped).
+   */
+  getRules(): FaultRule[] {
+    return this.rules.map((stored) => stored.rule);
+  }
+
+  /**
+   * Apply rules only while `fn` runs.
+   */
+  async withRules<T>(rules: FaultRule[], fn: () => T | Promise<T>): Promise<T> {
+    const ids = rules.map((rule) => this.addRule(rule));
+    try {
+      return await fn();
+    } finally {
+      for (const id of ids) {
+        this.removeRule(id);
+      }
+    }
+  }
+
+  /**
+   * Replace the random source used for `probability` (e.g. with a seeded generator).
+   */
+  setRandom(random: () => number): void {
+    this.random = random;
+  }
+
+  /**
+   * Find the faults to apply to an API call and log them.
+   *
+   * Every matching delay fires; the first matching failure fires and ends the
+   * search, since the call can only fail once.
+   */
+  fire(method: string, payload: Record<string, unknown>): Fault[] {
+    const fired: Fault[] = [];
+    const chatId = payload.chat_id as number | string | undefined;
+
+    for (const stored of [...this.rules]) {
+      if (!this.matches(stored.rule, method, chatId)) continue;
+      if (stored.rule.probability !== undefined && this.random() >= stored.rule.probability) {
+        continue;
+      }
+
+      stored.remaining--;
+      if (stored.remaining <= 0) {
+        this.removeRule(stored.id);
+      }
+
+      const fault = stored.rule.fault;
+      this.log.push({ ruleId: stored.id, method, chatId, fault });
+      fired.push(fault);
+      if (fault.type !== "delay") break;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Check if a rule applies to a call.
+   */
+  private matches(rule: FaultRule, method: string, chatId: number | string | undefined): boolean {
+    if (rule.method !== undefined) {
+      const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+      if (!methods.includes(method)) return false;
+    }
+    if (rule.chatId !== undefined && String(rule.chatId) !== String(chatId)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get the faults that fired, oldest first.
+   */
+  getLog(): FiredFault[] {
+    return [...this.log];
+  }
+
+  /**
+   * Clear the log of fired faults.
+   */
+  clearLog(): void {
+    this.log = [];
+  }
+
+  /**
+   * Reset all rules and the log.
+   */
+  reset(): void {
+    this.rules = [];
+    this.log = [];
+    this.ruleIdCounter = 1;
+    this.random = Math.random;
+  }
+}
+
+/**
+ * Create a new FaultInjector instance.
+ */
+export function createFaultInjector(): FaultInjector {
+  return new FaultInjector();
+}
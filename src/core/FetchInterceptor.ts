@@ -1,3 +1,7 @@
+import { HttpError } from "grammy";
+import type { ResponseParameters } from "grammy/types";
+import { parseRequestInit } from "./ApiPayload.js";
+import { createFileDownloadResponse } from "./MockFetch.js";
 import type { TelegramServer } from "./TelegramServer.js";
 import type { ApiCallRecord } from "./TestClient.js";
 
@@ -47,6 +51,12 @@ export class FetchInterceptor {
   }
 
   private async handleTelegramRequest(url: string, init?: RequestInit): Promise<Response> {
+    // File downloads: https://api.telegram.org/file/bot<token>/<file_path>
+    const fileMatch = url.match(/\/file\/bot[^/]+\/([^?#]+)/);
+    if (fileMatch) {
+      return createFileDownloadResponse(this.server, decodeURIComponent(fileMatch[1]));
+    }
+
     // Extract method name from URL
     // URL format: https://api.telegram.org/bot<token>/<method>
     const methodMatch = url.match(/\/bot[^/]+\/(\w+)/);
@@ -59,37 +69,12 @@ export class FetchInterceptor {
 
     const method = methodMatch[1];
 
-    // Parse payload from body
+    // Parse payload from body (JSON, urlencoded or multipart uploads)
     let payload: Record<string, unknown> = {};
-    if (init?.body) {
-      if (typeof init.body === "string") {
-        try {
-          payload = JSON.parse(init.body);
-        } catch {
-          // Try URL-encoded form data
-          const params = new URLSearchParams(init.body);
-          for (const [key, value] of params) {
-            try {
-              payload[key] = JSON.parse(value);
-            } catch {
-              payload[key] = value;
-            }
-          }
-        }
-      } else if (init.body instanceof FormData) {
-        for (const [key, value] of init.body.entries()) {
-          if (typeof value === "string") {
-            try {
-              payload[key] = JSON.parse(value);
-            } catch {
-              payload[key] = value;
-            }
-          } else {
-            // File upload - just store a placeholder
-            payload[key] = `[File: ${value.name}]`;
-          }
-        }
-      }
+    try {
+      payload = await parseRequestInit(init, method);
+    } catch {
+      // Unparseable body - treat as empty payload
     }
 
     const record: ApiCallRecord = {
@@ -115,7 +100,11 @@ export class FetchInterceptor {
         headers: { "Content-Type": "application/json" },
       });
     } catch (error) {
-      const err = error as Error & { code?: number; description?: string };
+      const err = error as Error & {
+        code?: number;
+        description?: string;
+        parameters?: ResponseParameters;
+      };
       record.error = err;
       this.apiCalls.push(record);
 
@@ -125,11 +114,17 @@ export class FetchInterceptor {
         currentResponse._addApiCall(record);
       }
 
+      // Injected network failures: the fetch itself rejects, like a dropped connection
+      if (error instanceof HttpError) {
+        throw error.error;
+      }
+
       return new Response(
         JSON.stringify({
           ok: false,
           error_code: err.code ?? 400,
           description: err.description ?? err.message,
+          ...(err.parameters ? { parameters: err.parameters } : {}),
         }),
         { status: 200, headers: { "Content-Type": "application/json" } },
       );
@@ -13,6 +13,11 @@ export type FileType =
   | "sticker"
   | "animation";
 
+/**
+ * Largest file bots can download via getFile (20 MB).
+ */
+export const MAX_DOWNLOAD_FILE_SIZE = 20 * 1024 * 1024;
+
 /**
  * Stored file data.
  */
@@ -101,6 +106,12 @@ export class FileState {
     const fileId = options.fileId ?? this.generateFileId(type);
     const fileUniqueId = options.fileUniqueId ?? this.generateFileUniqueId();
 
+    // Derive dimensions from image content when not given explicitly
+    const imageSize =
+      options.content && (options.width === undefined || options.height === undefined)
+        ? readImageSize(options.content)
+        : undefined;
+
     const stored: StoredFile = {
       fileId,
       fileUniqueId,
@@ -111,8 +122,8 @@ export class FileState {
       content: options.content,
       uploadedAt: Math.floor(Date.now() / 1000),
       filePath: `${type}s/${fileId}`,
-      width: options.width,
-      height: options.height,
+      width: options.width ?? imageSize?.width,
+      height: options.height ?? imageSize?.height,
       duration: options.duration,
       thumbnail: options.thumbnail,
       metadata: options.metadata,
@@ -406,6 +417,16 @@ export class FileState {
     return fileId ? this.files.get(fileId) : undefined;
   }
 
+  /**
+   * Get a file by its file_path (as returned by getFile).
+   */
+  getFileByPath(filePath: string): StoredFile | undefined {
+    for (const file of this.files.values()) {
+      if (file.filePath === filePath) return file;
+    }
+    return undefined;
+  }
+
   /**
    * Get file info in Telegram API format.
    */
@@ -421,6 +442,14 @@ export class FileState {
     };
   }
 
+  /**
+   * Check whether a file is small enough to be downloaded by bots.
+   */
+  isDownloadable(fileId: string): boolean {
+    const stored = this.files.get(fileId);
+    return (stored?.fileSize ?? 0) <= MAX_DOWNLOAD_FILE_SIZE;
+  }
+
   /**
    * Get file content.
    */
@@ -501,6 +530,109 @@ export class FileState {
   }
 }
 
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  json: "application/json",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  xml: "application/xml",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  tgs: "application/x-tgsticker",
+};
+
+/**
+ * Guess a MIME type from a filename extension.
+ */
+export function guessMimeType(fileName: string | undefined): string | undefined {
+  const ext = fileName?.split(".").pop()?.toLowerCase();
+  return ext && fileName?.includes(".") ? MIME_TYPES[ext] : undefined;
+}
+
+/**
+ * Read the pixel dimensions of a PNG, JPEG, GIF, WebP or BMP image.
+ * Returns undefined if the content is not a recognized image.
+ */
+export function readImageSize(
+  content: Buffer | Uint8Array,
+): { width: number; height: number } | undefined {
+  const buf = Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+
+  // PNG: signature + IHDR chunk
+  if (
+    buf.length >= 24 &&
+    buf.readUInt32BE(0) === 0x89504e47 &&
+    buf.toString("ascii", 12, 16) === "IHDR"
+  ) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen descriptor
+  if (buf.length >= 10 && buf.toString("ascii", 0, 3) === "GIF") {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+
+  // BMP: BITMAPINFOHEADER
+  if (buf.length >= 26 && buf.toString("ascii", 0, 2) === "BM") {
+    return { width: buf.readInt32LE(18), height: Math.abs(buf.readInt32LE(22)) };
+  }
+
+  // WebP: RIFF container with VP8 / VP8L / VP8X chunk
+  if (
+    buf.length >= 30 &&
+    buf.toString("ascii", 0, 4) === "RIFF" &&
+    buf.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buf.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = buf.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  // JPEG: scan segments for a start-of-frame marker
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return undefined;
+      const marker = buf[offset + 1];
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Create a new FileState instance.
  */
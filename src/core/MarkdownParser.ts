@@ -7,6 +7,10 @@ export type ParseMode = "Markdown" | "MarkdownV2" | "HTML";
 
 /**
  * Result of parsing formatted text.
+ *
+ * Entity offsets and lengths are in UTF-16 code units, like Telegram's: an emoji
+ * outside the Basic Multilingual Plane counts as 2 and a ZWJ sequence as the sum of
+ * its parts.
  */
 export interface ParsedText {
   /** The plain text with formatting removed */
@@ -15,6 +19,22 @@ export interface ParsedText {
   entities: MessageEntity[];
 }
 
+/**
+ * Error thrown for formatted text Telegram refuses to parse.
+ *
+ * The message is what Telegram reports after "Bad Request: can't parse entities: ".
+ */
+export class ParseEntitiesError extends Error {
+  /** UTF-8 byte offset in the input where parsing failed */
+  readonly byteOffset: number | undefined;
+
+  constructor(message: string, byteOffset?: number) {
+    super(message);
+    this.name = "ParseEntitiesError";
+    this.byteOffset = byteOffset;
+  }
+}
+
 /**
  * Parse Markdown/MarkdownV2/HTML text into plain text with entities.
  *
@@ -27,9 +47,16 @@ export interface ParsedText {
  * - Code: `text` (Markdown/MarkdownV2), <code>text</code> (HTML)
  * - Pre: ```text``` or ```language\ntext``` (Markdown/MarkdownV2), <pre>text</pre> (HTML)
  * - Links: [text](url) (Markdown/MarkdownV2), <a href="url">text</a> (HTML)
- * - Text mentions: [text](tg://user?id=123) (Markdown/MarkdownV2)
- * - Custom emoji: ![emoji](tg://emoji?id=123) (MarkdownV2)
+ * - Text mentions: [text](tg://user?id=123) (Markdown/MarkdownV2), <a href="tg://user?id=123">text</a> (HTML)
+ * - Custom emoji: ![emoji](tg://emoji?id=123) (MarkdownV2), <tg-emoji emoji-id="123">emoji</tg-emoji> (HTML)
  * - Blockquote: >text (MarkdownV2), <blockquote>text</blockquote> (HTML)
+ * - Expandable blockquote: **>text|| (MarkdownV2), <blockquote expandable>text</blockquote> (HTML)
+ *
+ * MarkdownV2 and HTML entities can be nested. HTML entities (&lt;, &gt;, &amp;, &quot;
+ * and numeric references) are decoded. Malformed markup is rejected the way Telegram
+ * rejects it.
+ *
+ * @throws ParseEntitiesError if Telegram can't parse the text
  */
 export function parseFormattedText(text: string, parseMode: ParseMode): ParsedText {
   switch (parseMode) {
@@ -44,700 +71,1260 @@ export function parseFormattedText(text: string, parseMode: ParseMode): ParsedTe
   }
 }
 
+/**
+ * Get the UTF-8 byte offset of a position in the input, as Telegram reports it.
+ */
+function byteOffset(input: string, index: number): number {
+  return Buffer.byteLength(input.slice(0, index), "utf8");
+}
+
+/**
+ * Check for whitespace; the end of the input counts as whitespace.
+ */
+function isSpace(char: string): boolean {
+  return char === "" || char === " " || char === "\t" || char === "\r" || char === "\n";
+}
+
+/**
+ * Check if a character can follow a backslash as an escape (any ASCII character).
+ */
+function isEscapable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code > 0 && code <= 126;
+}
+
+/**
+ * Build a text_link or text_mention entity for a link, or nothing if it has no URL.
+ */
+function createLinkEntity(
+  url: string,
+  offset: number,
+  linkText: string,
+): MessageEntity | undefined {
+  if (url.length === 0) return undefined;
+
+  if (url.startsWith("tg://user?id=")) {
+    return {
+      type: "text_mention",
+      offset,
+      length: linkText.length,
+      user: {
+        id: parseInt(url.slice("tg://user?id=".length), 10),
+        is_bot: false,
+        first_name: linkText,
+      },
+    };
+  }
+  return { type: "text_link", offset, length: linkText.length, url };
+}
+
+/**
+ * Skip the language of a pre block and the line break after it.
+ *
+ * @param start Index just after the opening ```
+ * @returns Index where the content starts and the language, if any
+ */
+function readPreLanguage(input: string, start: number): { index: number; language: string } {
+  let i = start;
+  let language = "";
+  let languageEnd = i;
+  while (!isSpace(input.charAt(languageEnd)) && input[languageEnd] !== "`") {
+    languageEnd++;
+  }
+  if (i !== languageEnd && languageEnd < input.length && input[languageEnd] !== "`") {
+    language = input.slice(i, languageEnd);
+    i = languageEnd;
+  }
+
+  // Skip one line break at the beginning of the block
+  if (input[i] === "\n" || input[i] === "\r") {
+    const next = input[i + 1];
+    i += (next === "\n" || next === "\r") && next !== input[i] ? 2 : 1;
+  }
+
+  return { index: i, language };
+}
+
 /**
  * Parse legacy Markdown format.
+ *
+ * Entities can't be nested; a marker without a closing one is an error.
  */
 function parseMarkdown(input: string): ParsedText {
   const entities: MessageEntity[] = [];
   let result = "";
-  let i = 0;
-
-  while (i < input.length) {
-    // Pre-formatted block: ```...```
-    if (input.slice(i, i + 3) === "```") {
-      const endIndex = input.indexOf("```", i + 3);
-      if (endIndex !== -1) {
-        let content = input.slice(i + 3, endIndex);
-        let language: string | undefined;
-
-        // Check for language specifier (first line)
-        const newlineIndex = content.indexOf("\n");
-        if (newlineIndex !== -1) {
-          const potentialLang = content.slice(0, newlineIndex).trim();
-          if (potentialLang && !potentialLang.includes(" ")) {
-            language = potentialLang;
-            content = content.slice(newlineIndex + 1);
-          }
-        }
 
-        const entity: MessageEntity = {
-          type: "pre",
-          offset: result.length,
-          length: content.length,
-        };
-        if (language) {
-          (entity as MessageEntity.PreMessageEntity).language = language;
-        }
-        entities.push(entity);
-        result += content;
-        i = endIndex + 3;
-        continue;
-      }
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (c === "\\" && i + 1 < input.length && "_*`[".includes(input[i + 1])) {
+      result += input[++i];
+      continue;
     }
-
-    // Inline code: `...`
-    if (input[i] === "`") {
-      const endIndex = input.indexOf("`", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "code",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
-      }
+    if (c !== "_" && c !== "*" && c !== "`" && c !== "[") {
+      result += c;
+      continue;
     }
 
-    // Links: [text](url)
-    if (input[i] === "[") {
-      const closeBracket = input.indexOf("]", i + 1);
-      if (closeBracket !== -1 && input[closeBracket + 1] === "(") {
-        const closeParen = input.indexOf(")", closeBracket + 2);
-        if (closeParen !== -1) {
-          const linkText = input.slice(i + 1, closeBracket);
-          const url = input.slice(closeBracket + 2, closeParen);
-
-          if (url.startsWith("tg://user?id=")) {
-            const userId = parseInt(url.slice("tg://user?id=".length), 10);
-            entities.push({
-              type: "text_mention",
-              offset: result.length,
-              length: linkText.length,
-              user: {
-                id: userId,
-                is_bot: false,
-                first_name: linkText,
-              },
-            });
-          } else {
-            entities.push({
-              type: "text_link",
-              offset: result.length,
-              length: linkText.length,
-              url,
-            });
-          }
-          result += linkText;
-          i = closeParen + 1;
-          continue;
-        }
-      }
+    const beginPos = i;
+    const endCharacter = c === "[" ? "]" : c;
+    let isPre = false;
+    let language = "";
+    i++;
+
+    if (c === "`" && input[i] === "`" && input[i + 1] === "`") {
+      isPre = true;
+      ({ index: i, language } = readPreLanguage(input, i + 2));
     }
 
-    // Bold: *text*
-    if (input[i] === "*") {
-      const endIndex = input.indexOf("*", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "bold",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
-      }
+    const entityOffset = result.length;
+    while (
+      i < input.length &&
+      (input[i] !== endCharacter || (isPre && !(input[i + 1] === "`" && input[i + 2] === "`")))
+    ) {
+      result += input[i++];
+    }
+    if (i === input.length) {
+      throw new ParseEntitiesError(
+        `Can't find end of the entity starting at byte offset ${byteOffset(input, beginPos)}`,
+        byteOffset(input, beginPos),
+      );
     }
 
-    // Italic: _text_
-    if (input[i] === "_") {
-      const endIndex = input.indexOf("_", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "italic",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
+    if (result.length > entityOffset) {
+      const length = result.length - entityOffset;
+      if (c === "_") {
+        entities.push({ type: "italic", offset: entityOffset, length });
+      } else if (c === "*") {
+        entities.push({ type: "bold", offset: entityOffset, length });
+      } else if (c === "[") {
+        let url: string;
+        if (input[i + 1] !== "(") {
+          // Use the text as the URL
+          url = input.slice(beginPos + 1, i);
+        } else {
+          i += 2;
+          const urlStart = i;
+          while (i < input.length && input[i] !== ")") i++;
+          url = input.slice(urlStart, i);
+        }
+        const entity = createLinkEntity(url, entityOffset, result.slice(entityOffset));
+        if (entity) entities.push(entity);
+      } else if (isPre) {
+        entities.push(
+          language
+            ? { type: "pre", offset: entityOffset, length, language }
+            : { type: "pre", offset: entityOffset, length },
+        );
+      } else {
+        entities.push({ type: "code", offset: entityOffset, length });
       }
     }
 
-    result += input[i];
-    i++;
+    if (isPre) i += 2;
   }
 
   return { text: result, entities };
 }
 
 /**
- * Parse MarkdownV2 format with escaped characters.
+ * Characters that must be escaped in MarkdownV2 outside code.
  */
-function parseMarkdownV2(input: string): ParsedText {
-  const entities: MessageEntity[] = [];
-  let result = "";
-  let i = 0;
+const MARKDOWN_V2_RESERVED = "_*[]()~`>#+-=|{}.!";
+
+/**
+ * MarkdownV2 entity kinds, named the way Telegram names them in errors.
+ */
+type MarkdownV2Kind =
+  | "Bold"
+  | "Italic"
+  | "Underline"
+  | "Strikethrough"
+  | "Spoiler"
+  | "Code"
+  | "Pre"
+  | "PreCode"
+  | "TextUrl"
+  | "CustomEmoji"
+  | "BlockQuote";
+
+/**
+ * An entity whose start marker has been read but not its end marker.
+ */
+interface OpenEntity<Kind> {
+  kind: Kind;
+  /** Language, URL or other argument from the start marker */
+  argument: string;
+  /** Offset of the entity in the parsed text */
+  offset: number;
+  /** UTF-8 byte offset of the start marker in the input */
+  byteOffset: number;
+}
 
-  // Characters that must be escaped in MarkdownV2
-  const escapeChars = "_*[]()~`>#+-=|{}.!\\";
+function reservedCharacterError(input: string, index: number): ParseEntitiesError {
+  return new ParseEntitiesError(
+    `Character '${input[index]}' is reserved and must be escaped with the preceding '\\'`,
+    byteOffset(input, index),
+  );
+}
 
-  while (i < input.length) {
-    // Handle escaped characters
-    if (input[i] === "\\" && i + 1 < input.length && escapeChars.includes(input[i + 1])) {
-      result += input[i + 1];
+function unclosedEntityError(entity: OpenEntity<string>): ParseEntitiesError {
+  return new ParseEntitiesError(
+    `Can't find end of ${entity.kind} entity at byte offset ${entity.byteOffset}`,
+    entity.byteOffset,
+  );
+}
+
+/**
+ * Check if a character ends the innermost open MarkdownV2 entity.
+ */
+function isMarkdownV2End(kind: MarkdownV2Kind, input: string, i: number): boolean {
+  const c = input[i];
+  switch (kind) {
+    case "Bold":
+      return c === "*";
+    case "Italic":
+      return c === "_" && input[i + 1] !== "_";
+    case "Underline":
+      return c === "_" && input[i + 1] === "_";
+    case "Strikethrough":
+      return c === "~";
+    case "Spoiler":
+      return c === "|" && input[i + 1] === "|";
+    case "Code":
+      return c === "`";
+    case "Pre":
+    case "PreCode":
+      return c === "`" && input[i + 1] === "`" && input[i + 2] === "`";
+    case "TextUrl":
+    case "CustomEmoji":
+      return c === "]";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Read a MarkdownV2 link target, unescaping backslash escapes.
+ *
+ * @param start Index just after the opening parenthesis
+ * @returns The URL and the index of the closing parenthesis, or undefined if there is none
+ */
+function readMarkdownV2Url(input: string, start: number): { url: string; end: number } | undefined {
+  let url = "";
+  let i = start;
+  while (i < input.length && input[i] !== ")") {
+    if (input[i] === "\\" && isEscapable(input.charAt(i + 1))) {
+      url += input[i + 1];
       i += 2;
       continue;
     }
+    url += input[i++];
+  }
+  return i < input.length ? { url, end: i } : undefined;
+}
+
+/**
+ * Extract the custom emoji identifier from a tg://emoji URL.
+ */
+function getCustomEmojiId(url: string): string {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)[^?#]*(?:\?([^#]*))?/i);
+  if (!match || match[1].toLowerCase() !== "tg") {
+    throw new ParseEntitiesError("Custom emoji URL must have scheme tg");
+  }
+  if (match[2].toLowerCase() !== "emoji") {
+    throw new ParseEntitiesError('Custom emoji URL must have host "emoji"');
+  }
+  const id = new URLSearchParams(match[3] ?? "").get("id");
+  if (!id) {
+    throw new ParseEntitiesError("Custom emoji URL must have emoji identifier");
+  }
+  if (!/^\d+$/.test(id) || /^0+$/.test(id)) {
+    throw new ParseEntitiesError("Invalid custom emoji identifier specified");
+  }
+  return id;
+}
+
+/**
+ * Parse MarkdownV2 format.
+ *
+ * Follows Telegram's rules: reserved characters must be escaped outside code, every
+ * entity must be closed, and entities nest.
+ */
+function parseMarkdownV2(input: string): ParsedText {
+  const entities: MessageEntity[] = [];
+  const nested: OpenEntity<MarkdownV2Kind>[] = [];
+  // Blockquotes span whole lines, so they are tracked apart from inline entities
+  let blockquote: (OpenEntity<"BlockQuote"> & { depth: number; expandable: boolean }) | undefined;
+  let result = "";
 
-    // Blockquote: >text (only at start of line)
-    if (input[i] === ">" && (i === 0 || input[i - 1] === "\n")) {
-      let endIndex = input.indexOf("\n", i + 1);
-      if (endIndex === -1) endIndex = input.length;
-      const content = input.slice(i + 1, endIndex);
+  const closeBlockquote = () => {
+    if (!blockquote) return;
+    if (nested.length > blockquote.depth) {
+      throw unclosedEntityError(nested[nested.length - 1]);
+    }
+    if (result.length > blockquote.offset) {
       entities.push({
-        type: "blockquote",
-        offset: result.length,
-        length: content.length,
+        type: blockquote.expandable ? "expandable_blockquote" : "blockquote",
+        offset: blockquote.offset,
+        length: result.length - blockquote.offset,
       });
-      result += content;
-      i = endIndex;
+    }
+    blockquote = undefined;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (c === "\\" && isEscapable(input.charAt(i + 1))) {
+      result += input[++i];
       continue;
     }
+    // Telegram ignores unescaped carriage returns, which separate "_" from "__"
+    if (c === "\r") continue;
 
-    // Pre-formatted block: ```...```
-    if (input.slice(i, i + 3) === "```") {
-      const endIndex = input.indexOf("```", i + 3);
-      if (endIndex !== -1) {
-        let content = input.slice(i + 3, endIndex);
-        let language: string | undefined;
-
-        const newlineIndex = content.indexOf("\n");
-        if (newlineIndex !== -1) {
-          const potentialLang = content.slice(0, newlineIndex).trim();
-          if (potentialLang && !potentialLang.includes(" ")) {
-            language = potentialLang;
-            content = content.slice(newlineIndex + 1);
-          }
-        }
+    const top = nested[nested.length - 1]?.kind;
+    const inCode = top === "Code" || top === "Pre" || top === "PreCode";
 
-        const entity: MessageEntity = {
-          type: "pre",
+    if (!inCode && (i === 0 || input[i - 1] === "\n")) {
+      // ">" starts or continues a blockquote, "**>" starts an expandable one
+      const marker = input.startsWith("**>", i) && !blockquote ? 3 : c === ">" ? 1 : 0;
+      if (marker > 0) {
+        blockquote ??= {
+          kind: "BlockQuote",
+          argument: "",
           offset: result.length,
-          length: content.length,
+          byteOffset: byteOffset(input, i),
+          depth: nested.length,
+          expandable: false,
         };
-        if (language) {
-          (entity as MessageEntity.PreMessageEntity).language = language;
-        }
-        entities.push(entity);
-        result += content;
-        i = endIndex + 3;
-        continue;
-      }
-    }
-
-    // Inline code: `...`
-    if (input[i] === "`") {
-      const endIndex = input.indexOf("`", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "code",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
+        i += marker - 1;
         continue;
       }
     }
 
-    // Spoiler: ||text||
-    if (input.slice(i, i + 2) === "||") {
-      const endIndex = input.indexOf("||", i + 2);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 2, endIndex);
-        entities.push({
-          type: "spoiler",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 2;
-        continue;
+    if (blockquote && !inCode) {
+      // "||" at the end of the last line makes the blockquote expandable
+      const lineEnd = input[i + 2] === undefined || input[i + 2] === "\n";
+      if (c === "|" && input[i + 1] === "|" && lineEnd && top !== "Spoiler") {
+        const next = input[i + 3];
+        if (next === undefined || next !== ">") {
+          blockquote.expandable = true;
+          i++;
+          continue;
+        }
       }
-    }
-
-    // Underline: __text__
-    if (input.slice(i, i + 2) === "__") {
-      const endIndex = input.indexOf("__", i + 2);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 2, endIndex);
-        entities.push({
-          type: "underline",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 2;
-        continue;
+      if (c === "\n" && input[i + 1] !== ">") {
+        closeBlockquote();
       }
     }
 
-    // Strikethrough: ~text~
-    if (input[i] === "~") {
-      const endIndex = input.indexOf("~", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "strikethrough",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
-      }
+    const reserved = inCode ? "`" : MARKDOWN_V2_RESERVED;
+    if (!reserved.includes(c)) {
+      result += c;
+      continue;
     }
 
-    // Custom emoji: ![emoji](tg://emoji?id=123)
-    if (input.slice(i, i + 2) === "![") {
-      const closeBracket = input.indexOf("]", i + 2);
-      if (closeBracket !== -1 && input[closeBracket + 1] === "(") {
-        const closeParen = input.indexOf(")", closeBracket + 2);
-        if (closeParen !== -1) {
-          const emojiAlt = input.slice(i + 2, closeBracket);
-          const url = input.slice(closeBracket + 2, closeParen);
-
-          if (url.startsWith("tg://emoji?id=")) {
-            const emojiId = url.slice("tg://emoji?id=".length);
-            entities.push({
-              type: "custom_emoji",
-              offset: result.length,
-              length: emojiAlt.length,
-              custom_emoji_id: emojiId,
-            });
-            result += emojiAlt;
-            i = closeParen + 1;
-            continue;
+    if (!top || !isMarkdownV2End(top, input, i)) {
+      // Start of an entity
+      const entityByteOffset = byteOffset(input, i);
+      let kind: MarkdownV2Kind;
+      let argument = "";
+      switch (c) {
+        case "_":
+          if (input[i + 1] === "_") {
+            kind = "Underline";
+            i++;
+          } else {
+            kind = "Italic";
           }
-        }
+          break;
+        case "*":
+          kind = "Bold";
+          break;
+        case "~":
+          kind = "Strikethrough";
+          break;
+        case "|":
+          if (input[i + 1] !== "|") throw reservedCharacterError(input, i);
+          kind = "Spoiler";
+          i++;
+          break;
+        case "[":
+          kind = "TextUrl";
+          break;
+        case "`":
+          if (input[i + 1] === "`" && input[i + 2] === "`") {
+            const pre = readPreLanguage(input, i + 3);
+            kind = pre.language ? "PreCode" : "Pre";
+            argument = pre.language;
+            i = pre.index - 1;
+          } else {
+            kind = "Code";
+          }
+          break;
+        case "!":
+          if (input[i + 1] !== "[") throw reservedCharacterError(input, i);
+          kind = "CustomEmoji";
+          i++;
+          break;
+        default:
+          throw reservedCharacterError(input, i);
       }
+      nested.push({ kind, argument, offset: result.length, byteOffset: entityByteOffset });
+      continue;
     }
 
-    // Links: [text](url)
-    if (input[i] === "[") {
-      const closeBracket = input.indexOf("]", i + 1);
-      if (closeBracket !== -1 && input[closeBracket + 1] === "(") {
-        const closeParen = input.indexOf(")", closeBracket + 2);
-        if (closeParen !== -1) {
-          const linkText = input.slice(i + 1, closeBracket);
-          const url = input.slice(closeBracket + 2, closeParen);
-
-          if (url.startsWith("tg://user?id=")) {
-            const userId = parseInt(url.slice("tg://user?id=".length), 10);
-            entities.push({
-              type: "text_mention",
-              offset: result.length,
-              length: linkText.length,
-              user: {
-                id: userId,
-                is_bot: false,
-                first_name: linkText,
-              },
-            });
-          } else {
-            entities.push({
-              type: "text_link",
-              offset: result.length,
-              length: linkText.length,
-              url,
-            });
+    // End of the innermost entity
+    const entity = nested.pop() as OpenEntity<MarkdownV2Kind>;
+    const { offset } = entity;
+    const length = result.length - offset;
+    let created: MessageEntity | undefined;
+    switch (entity.kind) {
+      case "Bold":
+        created = { type: "bold", offset, length };
+        break;
+      case "Italic":
+        created = { type: "italic", offset, length };
+        break;
+      case "Strikethrough":
+        created = { type: "strikethrough", offset, length };
+        break;
+      case "Code":
+        created = { type: "code", offset, length };
+        break;
+      case "Underline":
+        created = { type: "underline", offset, length };
+        i++;
+        break;
+      case "Spoiler":
+        created = { type: "spoiler", offset, length };
+        i++;
+        break;
+      case "Pre":
+        created = { type: "pre", offset, length };
+        i += 2;
+        break;
+      case "PreCode":
+        created = { type: "pre", offset, length, language: entity.argument };
+        i += 2;
+        break;
+      case "TextUrl": {
+        let url = result.slice(offset);
+        if (input[i + 1] === "(") {
+          const target = readMarkdownV2Url(input, i + 2);
+          if (!target) {
+            const urlOffset = byteOffset(input, i + 2);
+            throw new ParseEntitiesError(
+              `Can't find end of a URL at byte offset ${urlOffset}`,
+              urlOffset,
+            );
           }
-          result += linkText;
-          i = closeParen + 1;
-          continue;
+          url = target.url;
+          i = target.end;
         }
+        created = createLinkEntity(url, offset, result.slice(offset));
+        break;
       }
-    }
-
-    // Bold: *text*
-    if (input[i] === "*") {
-      const endIndex = input.indexOf("*", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "bold",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
+      case "CustomEmoji": {
+        if (input[i + 1] !== "(") {
+          throw new ParseEntitiesError(
+            "Custom emoji entity must contain a tg://emoji URL",
+            entity.byteOffset,
+          );
+        }
+        const target = readMarkdownV2Url(input, i + 2);
+        if (!target) {
+          const urlOffset = byteOffset(input, i + 2);
+          throw new ParseEntitiesError(
+            `Can't find end of a custom emoji URL at byte offset ${urlOffset}`,
+            urlOffset,
+          );
+        }
+        created = {
+          type: "custom_emoji",
+          offset,
+          length,
+          custom_emoji_id: getCustomEmojiId(target.url),
+        };
+        i = target.end;
+        break;
       }
     }
 
-    // Italic: _text_
-    if (input[i] === "_") {
-      const endIndex = input.indexOf("_", i + 1);
-      if (endIndex !== -1) {
-        const content = input.slice(i + 1, endIndex);
-        entities.push({
-          type: "italic",
-          offset: result.length,
-          length: content.length,
-        });
-        result += content;
-        i = endIndex + 1;
-        continue;
-      }
+    if (created && length > 0) {
+      entities.push(created);
     }
+  }
 
-    result += input[i];
-    i++;
+  closeBlockquote();
+  if (nested.length > 0) {
+    throw unclosedEntityError(nested[nested.length - 1]);
   }
 
-  return { text: result, entities };
+  return { text: result, entities: sortEntities(entities) };
 }
 
+/**
+ * HTML tags Telegram supports and the entities they produce.
+ */
+const HTML_TAGS: Record<string, MessageEntity["type"]> = {
+  a: "text_link",
+  b: "bold",
+  strong: "bold",
+  i: "italic",
+  em: "italic",
+  u: "underline",
+  ins: "underline",
+  s: "strikethrough",
+  strike: "strikethrough",
+  del: "strikethrough",
+  "tg-spoiler": "spoiler",
+  span: "spoiler",
+  "tg-emoji": "custom_emoji",
+  code: "code",
+  pre: "pre",
+  blockquote: "blockquote",
+};
+
 /**
  * Parse HTML format.
+ *
+ * Follows Telegram's rules: only supported tags are allowed, every tag must be
+ * closed, and end tags must match the innermost open tag.
  */
 function parseHTML(input: string): ParsedText {
   const entities: MessageEntity[] = [];
+  const nested: OpenEntity<string>[] = [];
+  const codeLanguages = new Map<MessageEntity, string>();
   let result = "";
-  let i = 0;
-
-  // Map HTML tags to entity types
-  const tagMap: Record<string, MessageEntity["type"]> = {
-    b: "bold",
-    strong: "bold",
-    i: "italic",
-    em: "italic",
-    u: "underline",
-    ins: "underline",
-    s: "strikethrough",
-    strike: "strikethrough",
-    del: "strikethrough",
-    code: "code",
-    pre: "pre",
-    "tg-spoiler": "spoiler",
-    blockquote: "blockquote",
-  };
 
-  while (i < input.length) {
-    if (input[i] === "<") {
-      // Find tag end
-      const tagEnd = input.indexOf(">", i);
-      if (tagEnd === -1) {
-        result += input[i];
-        i++;
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (c === "&") {
+      const decoded = decodeHTMLEntity(input, i);
+      if (decoded) {
+        result += decoded.char;
+        i = decoded.end - 1;
         continue;
       }
+    }
+    if (c !== "<") {
+      result += c;
+      continue;
+    }
 
-      const tagContent = input.slice(i + 1, tagEnd);
+    const beginPos = i;
+    const beginByteOffset = byteOffset(input, beginPos);
+    i++;
 
-      // Check for closing tag
-      if (tagContent.startsWith("/")) {
-        i = tagEnd + 1;
-        continue;
+    if (input[i] !== "/") {
+      // Start tag
+      while (!isSpace(input.charAt(i)) && input[i] !== ">") i++;
+      if (i >= input.length) {
+        throw new ParseEntitiesError(
+          `Unclosed start tag at byte offset ${beginByteOffset}`,
+          beginByteOffset,
+        );
+      }
+
+      const tagName = input.slice(beginPos + 1, i).toLowerCase();
+      if (!Object.hasOwn(HTML_TAGS, tagName)) {
+        throw new ParseEntitiesError(
+          `Unsupported start tag "${tagName}" at byte offset ${beginByteOffset}`,
+          beginByteOffset,
+        );
       }
 
-      // Parse tag name and attributes
-      const spaceIndex = tagContent.indexOf(" ");
-      const tagName =
-        spaceIndex === -1
-          ? tagContent.toLowerCase()
-          : tagContent.slice(0, spaceIndex).toLowerCase();
-
-      // Handle <a> tags specially
-      if (tagName === "a") {
-        const hrefMatch = tagContent.match(/href=['"]([^'"]+)['"]/i);
-        if (hrefMatch) {
-          const url = hrefMatch[1];
-          const closeTag = input.indexOf("</a>", tagEnd);
-          if (closeTag !== -1) {
-            const linkText = input.slice(tagEnd + 1, closeTag);
-
-            if (url.startsWith("tg://user?id=")) {
-              const userId = parseInt(url.slice("tg://user?id=".length), 10);
-              entities.push({
-                type: "text_mention",
-                offset: result.length,
-                length: linkText.length,
-                user: {
-                  id: userId,
-                  is_bot: false,
-                  first_name: linkText,
-                },
-              });
-            } else {
-              entities.push({
-                type: "text_link",
-                offset: result.length,
-                length: linkText.length,
-                url,
-              });
+      let argument = "";
+      while (input[i] !== ">") {
+        while (i < input.length && isSpace(input[i])) i++;
+        if (input[i] === ">") break;
+
+        const attributeStart = i;
+        while (!isSpace(input.charAt(i)) && input[i] !== "=" && input[i] !== ">") i++;
+        const attributeName = input.slice(attributeStart, i);
+        if (attributeName.length === 0) {
+          throw new ParseEntitiesError(
+            `Empty attribute name in the tag "${tagName}" at byte offset ${beginByteOffset}`,
+            beginByteOffset,
+          );
+        }
+
+        while (i < input.length && isSpace(input[i])) i++;
+        if (input[i] !== "=") {
+          // <blockquote expandable> is the only attribute without a value
+          if (tagName === "blockquote" && attributeName.toLowerCase() === "expandable") {
+            if (i >= input.length) {
+              throw new ParseEntitiesError(
+                `Unclosed start tag at byte offset ${beginByteOffset}`,
+                beginByteOffset,
+              );
             }
-            result += linkText;
-            i = closeTag + 4; // Skip </a>
+            argument = "expandable";
             continue;
           }
+          throw new ParseEntitiesError(
+            `Expected equal sign in declaration of an attribute of the tag "${tagName}" at byte offset ${beginByteOffset}`,
+            beginByteOffset,
+          );
         }
-      }
-
-      // Handle <span class="tg-spoiler">
-      if (tagName === "span" && tagContent.includes('class="tg-spoiler"')) {
-        const closeTag = input.indexOf("</span>", tagEnd);
-        if (closeTag !== -1) {
-          const content = input.slice(tagEnd + 1, closeTag);
-          entities.push({
-            type: "spoiler",
-            offset: result.length,
-            length: content.length,
-          });
-          result += content;
-          i = closeTag + 7;
-          continue;
+        i++;
+        while (i < input.length && isSpace(input[i])) i++;
+        if (i >= input.length) {
+          throw new ParseEntitiesError(
+            `Unclosed start tag "${tagName}" at byte offset ${beginByteOffset}`,
+            beginByteOffset,
+          );
         }
-      }
 
-      // Handle <pre> with language attribute
-      if (tagName === "pre") {
-        // Check for <code class="language-xxx"> inside
-        const closeTag = input.indexOf("</pre>", tagEnd);
-        if (closeTag !== -1) {
-          let content = input.slice(tagEnd + 1, closeTag);
-          let language: string | undefined;
-
-          // Check for nested <code class="language-xxx">
-          const codeMatch = content.match(/<code\s+class=['"]language-([^'"]+)['"]>/i);
-          if (codeMatch) {
-            language = codeMatch[1];
-            content = content.replace(/<code[^>]*>/gi, "").replace(/<\/code>/gi, "");
-          } else {
-            content = content.replace(/<code>/gi, "").replace(/<\/code>/gi, "");
+        let attributeValue = "";
+        if (input[i] !== "'" && input[i] !== '"') {
+          // Unquoted values are name tokens: letters, digits, periods and hyphens
+          const tokenStart = i;
+          while (/[a-z0-9.-]/i.test(input.charAt(i))) i++;
+          attributeValue = input.slice(tokenStart, i).toLowerCase();
+          if (!isSpace(input.charAt(i)) && input[i] !== ">") {
+            const tokenByteOffset = byteOffset(input, tokenStart);
+            throw new ParseEntitiesError(
+              `Unexpected end of name token at byte offset ${tokenByteOffset}`,
+              tokenByteOffset,
+            );
           }
-
-          const entity: MessageEntity = {
-            type: "pre",
-            offset: result.length,
-            length: content.length,
-          };
-          if (language) {
-            (entity as MessageEntity.PreMessageEntity).language = language;
+        } else {
+          const quote = input[i++];
+          while (i < input.length && input[i] !== quote) {
+            const decoded = input[i] === "&" ? decodeHTMLEntity(input, i) : undefined;
+            if (decoded) {
+              attributeValue += decoded.char;
+              i = decoded.end;
+              continue;
+            }
+            attributeValue += input[i++];
           }
-          entities.push(entity);
-          result += content;
-          i = closeTag + 6;
-          continue;
+          if (input[i] === quote) i++;
+        }
+        if (i >= input.length) {
+          throw new ParseEntitiesError(
+            `Unclosed start tag at byte offset ${beginByteOffset}`,
+            beginByteOffset,
+          );
         }
-      }
 
-      // Handle <tg-emoji> custom emoji
-      if (tagName === "tg-emoji") {
-        const emojiIdMatch = tagContent.match(/emoji-id=['"]([^'"]+)['"]/i);
-        if (emojiIdMatch) {
-          const emojiId = emojiIdMatch[1];
-          const closeTag = input.indexOf("</tg-emoji>", tagEnd);
-          if (closeTag !== -1) {
-            const emojiAlt = input.slice(tagEnd + 1, closeTag);
-            entities.push({
-              type: "custom_emoji",
-              offset: result.length,
-              length: emojiAlt.length,
-              custom_emoji_id: emojiId,
-            });
-            result += emojiAlt;
-            i = closeTag + 11;
-            continue;
-          }
+        if (tagName === "a" && attributeName === "href") {
+          argument = attributeValue;
+        } else if (
+          tagName === "code" &&
+          attributeName === "class" &&
+          attributeValue.startsWith("language-")
+        ) {
+          argument = attributeValue.slice("language-".length);
+        } else if (
+          tagName === "span" &&
+          attributeName === "class" &&
+          attributeValue.startsWith("tg-")
+        ) {
+          argument = attributeValue.slice("tg-".length);
+        } else if (tagName === "tg-emoji" && attributeName === "emoji-id") {
+          argument = attributeValue;
         }
       }
 
-      // Handle simple tags
-      const entityType = tagMap[tagName];
-      if (entityType) {
-        const closeTag = input.indexOf(`</${tagName}>`, tagEnd);
-        if (closeTag !== -1) {
-          const content = input.slice(tagEnd + 1, closeTag);
-          entities.push({
-            type: entityType,
-            offset: result.length,
-            length: content.length,
-          } as MessageEntity);
-          result += content;
-          i = closeTag + tagName.length + 3;
-          continue;
-        }
+      if (tagName === "span" && argument !== "spoiler") {
+        throw new ParseEntitiesError(
+          `Tag "span" must have class "tg-spoiler" at byte offset ${beginByteOffset}`,
+          beginByteOffset,
+        );
       }
 
-      // Unknown tag, skip it
-      i = tagEnd + 1;
+      nested.push({
+        kind: tagName,
+        argument,
+        offset: result.length,
+        byteOffset: beginByteOffset,
+      });
       continue;
     }
 
-    // Handle HTML entities
-    if (input[i] === "&") {
-      const semicolon = input.indexOf(";", i);
-      if (semicolon !== -1 && semicolon - i < 10) {
-        const entity = input.slice(i, semicolon + 1);
-        const decoded = decodeHTMLEntity(entity);
-        if (decoded !== entity) {
-          result += decoded;
-          i = semicolon + 1;
-          continue;
-        }
+    // End tag
+    const entity = nested.pop();
+    if (!entity) {
+      throw new ParseEntitiesError(
+        `Unexpected end tag at byte offset ${beginByteOffset}`,
+        beginByteOffset,
+      );
+    }
+
+    while (!isSpace(input.charAt(i)) && input[i] !== ">") i++;
+    const endTagName = input.slice(beginPos + 2, i).toLowerCase();
+    while (i < input.length && isSpace(input[i])) i++;
+    if (input[i] !== ">") {
+      throw new ParseEntitiesError(
+        `Unclosed end tag at byte offset ${beginByteOffset}`,
+        beginByteOffset,
+      );
+    }
+    if (endTagName.length > 0 && endTagName !== entity.kind) {
+      throw new ParseEntitiesError(
+        `Unmatched end tag at byte offset ${beginByteOffset}, expected "</${entity.kind}>", found "</${endTagName}>"`,
+        beginByteOffset,
+      );
+    }
+
+    const { offset } = entity;
+    const length = result.length - offset;
+    if (length === 0) continue;
+
+    const type = HTML_TAGS[entity.kind];
+    const last = entities[entities.length - 1];
+    if (type === "text_link") {
+      const url = entity.argument || result.slice(offset);
+      const link = createLinkEntity(url, offset, result.slice(offset));
+      if (link) entities.push(link);
+    } else if (type === "custom_emoji") {
+      if (!/^\d+$/.test(entity.argument) || /^0+$/.test(entity.argument)) {
+        throw new ParseEntitiesError("Invalid custom emoji identifier specified");
       }
+      entities.push({ type, offset, length, custom_emoji_id: entity.argument });
+    } else if (type === "blockquote" && entity.argument === "expandable") {
+      entities.push({ type: "expandable_blockquote", offset, length });
+    } else if (
+      type === "pre" &&
+      last?.type === "code" &&
+      last.offset === offset &&
+      last.length === length
+    ) {
+      // <pre><code class="language-x"> is a single pre entity with a language
+      const language = codeLanguages.get(last);
+      entities[entities.length - 1] = language
+        ? { type, offset, length, language }
+        : { type, offset, length };
+    } else if (type === "code") {
+      const code: MessageEntity = { type, offset, length };
+      if (entity.argument) codeLanguages.set(code, entity.argument);
+      entities.push(code);
+    } else {
+      entities.push({ type, offset, length } as MessageEntity);
     }
+  }
+
+  const unclosed = nested[nested.length - 1];
+  if (unclosed) {
+    throw new ParseEntitiesError(
+      `Can't find end tag corresponding to start tag "${unclosed.kind}"`,
+      unclosed.byteOffset,
+    );
+  }
+
+  return { text: result, entities: removeNestedEntities(sortEntities(entities)) };
+}
+
+/**
+ * Named HTML entities Telegram decodes; all numeric character references are decoded too.
+ */
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+};
 
-    result += input[i];
+/**
+ * Decode an HTML entity starting at the given index.
+ *
+ * Like Telegram, the terminating semicolon is optional.
+ *
+ * @returns The decoded character and the index after the entity, or undefined if
+ * there is no known entity
+ */
+function decodeHTMLEntity(input: string, index: number): { char: string; end: number } | undefined {
+  let i = index + 1;
+  let char: string;
+  if (input[i] === "#") {
     i++;
+    const hex = input[i] === "x" || input[i] === "X";
+    if (hex) i++;
+    const digitsStart = i;
+    while (i < input.length && (hex ? /[0-9a-f]/i : /[0-9]/).test(input[i])) i++;
+    if (i === digitsStart) return undefined;
+    const code = Number.parseInt(input.slice(digitsStart, i), hex ? 16 : 10);
+    if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return undefined;
+    char = String.fromCodePoint(code);
+  } else {
+    const nameStart = i;
+    while (i < input.length && /[a-z]/i.test(input[i])) i++;
+    const name = input.slice(nameStart, i);
+    if (!Object.hasOwn(HTML_NAMED_ENTITIES, name)) return undefined;
+    char = HTML_NAMED_ENTITIES[name];
   }
+  if (input[i] === ";") i++;
+  return { char, end: i };
+}
 
-  return { text: result, entities };
+/**
+ * Order of entities of the same range in Telegram's responses, lowest first.
+ */
+const ENTITY_PRIORITY: Partial<Record<MessageEntity["type"], number>> = {
+  blockquote: 0,
+  expandable_blockquote: 0,
+  pre: 11,
+  code: 20,
+  text_link: 49,
+  text_mention: 49,
+  bold: 90,
+  italic: 91,
+  underline: 92,
+  strikethrough: 93,
+  spoiler: 94,
+  custom_emoji: 99,
+};
+
+/**
+ * Order entities like Telegram does: by offset, outer entities first, then by type.
+ */
+export function sortEntities(entities: MessageEntity[]): MessageEntity[] {
+  return entities.sort(
+    (a, b) =>
+      a.offset - b.offset ||
+      b.length - a.length ||
+      (ENTITY_PRIORITY[a.type] ?? 50) - (ENTITY_PRIORITY[b.type] ?? 50),
+  );
 }
 
 /**
- * Decode common HTML entities.
+ * Drop entities Telegram doesn't allow where they are: anything inside code or pre,
+ * and blockquotes inside blockquotes.
+ *
+ * @param entities Entities sorted with {@link sortEntities}
  */
-function decodeHTMLEntity(entity: string): string {
-  const entities: Record<string, string> = {
-    "&lt;": "<",
-    "&gt;": ">",
-    "&amp;": "&",
-    "&quot;": '"',
-    "&apos;": "'",
-    "&#39;": "'",
-    "&nbsp;": " ",
-  };
-  return entities[entity] ?? entity;
+function removeNestedEntities(entities: MessageEntity[]): MessageEntity[] {
+  let codeEnd = -1;
+  let blockquoteEnd = -1;
+  return entities.filter((entity) => {
+    const end = entity.offset + entity.length;
+    if (entity.offset < codeEnd) return false;
+    if (entity.type === "pre" || entity.type === "code") {
+      codeEnd = end;
+    } else if (entity.type === "blockquote" || entity.type === "expandable_blockquote") {
+      if (entity.offset < blockquoteEnd) return false;
+      blockquoteEnd = end;
+    }
+    return true;
+  });
 }
 
+/**
+ * Start and end markers of an entity in formatted text.
+ */
+type EntityMarkers = [start: string, end: string];
+
 /**
  * Format plain text with entities back to Markdown/MarkdownV2/HTML.
- * Useful for testing round-trip conversions.
+ *
+ * The result parses back to the same text and entities with {@link parseFormattedText}:
+ * special characters are escaped for where they appear (text, code or link URLs),
+ * nested entities are written nested, and entities that overlap without nesting are
+ * split where they cross, the way Telegram returns them after parsing.
+ *
+ * Entities a parse mode can't express are left out, like Telegram leaves them out when
+ * parsing: entities inside code and pre, nested blockquotes, blockquotes that don't
+ * span whole lines in MarkdownV2, and anything but non-nested bold, italic, code, pre
+ * and links in legacy Markdown. Legacy Markdown also leaves the characters that would
+ * end an entity out of it (see {@link fitMarkdownEntities}).
  */
 export function formatText(text: string, entities: MessageEntity[], format: ParseMode): string {
-  if (entities.length === 0) return text;
+  const sorted = removeNestedEntities(
+    mergeOverlappingStyles(
+      sortEntities(
+        entities.filter((entity) => entity.length > 0 && canFormat(text, entity, format)),
+      ),
+    ),
+  );
 
-  // Sort entities by offset (descending) to process from end to start
-  const sorted = [...entities].sort((a, b) => b.offset - a.offset);
-  let result = text;
+  // MarkdownV2 blockquotes are marked per line rather than nested, so entities inside
+  // them are split at their edges and they are written apart from the others
+  const blockquotes =
+    format === "MarkdownV2" ? sorted.filter((entity) => isBlockquote(entity)) : [];
+  let formattable =
+    blockquotes.length > 0 ? sorted.filter((entity) => !isBlockquote(entity)) : sorted;
+  if (blockquotes.length > 0) {
+    const edges = blockquotes.flatMap((entity) => [entity.offset, entity.offset + entity.length]);
+    formattable = sortEntities(formattable.flatMap((entity) => splitEntity(entity, edges)));
+  }
+  if (format === "Markdown") {
+    formattable = fitMarkdownEntities(text, removeOverlappingEntities(formattable));
+  }
 
-  for (const entity of sorted) {
-    const start = entity.offset;
-    const end = entity.offset + entity.length;
-    const content = result.slice(start, end);
+  const boundaries = [
+    ...new Set([
+      ...[...formattable, ...blockquotes].flatMap((entity) => [
+        entity.offset,
+        entity.offset + entity.length,
+      ]),
+      text.length,
+    ]),
+  ].sort((a, b) => a - b);
 
-    let formatted: string;
+  const open: MessageEntity[] = [];
+  let blockquote: MessageEntity | undefined;
+  let next = 0;
+  let position = 0;
+  let result = "";
+  let afterItalicMarker = false;
 
-    switch (format) {
-      case "Markdown":
-        formatted = formatEntityMarkdown(entity, content);
-        break;
-      case "MarkdownV2":
-        formatted = formatEntityMarkdownV2(entity, content);
-        break;
-      case "HTML":
-        formatted = formatEntityHTML(entity, content);
-        break;
-      default:
-        formatted = content;
+  const write = (chunk: string, italicMarker = false) => {
+    if (chunk.length === 0) return;
+    // "_" followed by "_" would read as underline, so separate them with an ignored "\r"
+    if (afterItalicMarker && chunk.startsWith("_")) result += "\r";
+    result += chunk;
+    afterItalicMarker = italicMarker;
+  };
+  const writeMarker = (entity: MessageEntity, end: 0 | 1) => {
+    write(formatEntity(entity, format)[end], format === "MarkdownV2" && entity.type === "italic");
+  };
+
+  for (const boundary of boundaries) {
+    write(escapeFormattedText(text.slice(position, boundary), format, open, blockquote));
+    position = boundary;
+
+    // A blockquote marker must come first on its line
+    const startingBlockquote = blockquotes.find((entity) => entity.offset === boundary);
+    if (startingBlockquote) {
+      blockquote = startingBlockquote;
+      writeMarker(blockquote, 0);
+    }
+
+    // Close entities ending here, along with the ones nested in them, and reopen the
+    // nested ones that go on
+    const firstEnding = open.findIndex((entity) => entity.offset + entity.length <= boundary);
+    if (firstEnding !== -1) {
+      const closed = open.splice(firstEnding);
+      for (const entity of [...closed].reverse()) {
+        writeMarker(entity, 1);
+      }
+      for (const entity of closed) {
+        if (entity.offset + entity.length > boundary) {
+          open.push(entity);
+          writeMarker(entity, 0);
+        }
+      }
+    }
+
+    if (blockquote && blockquote.offset + blockquote.length === boundary) {
+      writeMarker(blockquote, 1);
+      blockquote = undefined;
     }
 
-    result = result.slice(0, start) + formatted + result.slice(end);
+    while (next < formattable.length && formattable[next].offset === boundary) {
+      const entity = formattable[next++];
+      open.push(entity);
+      writeMarker(entity, 0);
+    }
   }
 
   return result;
 }
 
-function formatEntityMarkdown(entity: MessageEntity, content: string): string {
+function isBlockquote(entity: MessageEntity): boolean {
+  return entity.type === "blockquote" || entity.type === "expandable_blockquote";
+}
+
+/**
+ * Entity types that only style text, so overlapping ones of the same type can be merged.
+ */
+const STYLE_TYPES = new Set<MessageEntity["type"]>([
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "spoiler",
+]);
+
+/**
+ * Merge overlapping style entities of the same type, which no parse mode can nest.
+ *
+ * @param entities Entities sorted with {@link sortEntities}
+ * @returns The merged entities, sorted
+ */
+function mergeOverlappingStyles(entities: MessageEntity[]): MessageEntity[] {
+  const merged: MessageEntity[] = [];
+  const lastOfType = new Map<MessageEntity["type"], MessageEntity>();
+  for (const entity of entities) {
+    const last = lastOfType.get(entity.type);
+    if (STYLE_TYPES.has(entity.type) && last && entity.offset < last.offset + last.length) {
+      last.length = Math.max(last.length, entity.offset + entity.length - last.offset);
+      continue;
+    }
+    const copy = { ...entity };
+    lastOfType.set(entity.type, copy);
+    merged.push(copy);
+  }
+  return sortEntities(merged);
+}
+
+/**
+ * Split an entity at the given offsets that fall inside it.
+ */
+function splitEntity(entity: MessageEntity, offsets: number[]): MessageEntity[] {
+  const end = entity.offset + entity.length;
+  const cuts = [
+    ...new Set(offsets.filter((offset) => offset > entity.offset && offset < end)),
+  ].sort((a, b) => a - b);
+  if (cuts.length === 0) return [entity];
+
+  const starts = [entity.offset, ...cuts];
+  const ends = [...cuts, end];
+  return starts.map((offset, i) => ({ ...entity, offset, length: ends[i] - offset }));
+}
+
+/**
+ * Entity types each parse mode can express.
+ */
+const FORMATTABLE_TYPES: Record<ParseMode, ReadonlySet<MessageEntity["type"]>> = {
+  Markdown: new Set(["bold", "italic", "code", "pre", "text_link", "text_mention"]),
+  MarkdownV2: new Set([
+    "bold",
+    "italic",
+    "underline",
+    "strikethrough",
+    "spoiler",
+    "code",
+    "pre",
+    "text_link",
+    "text_mention",
+    "custom_emoji",
+    "blockquote",
+    "expandable_blockquote",
+  ]),
+  HTML: new Set([
+    "bold",
+    "italic",
+    "underline",
+    "strikethrough",
+    "spoiler",
+    "code",
+    "pre",
+    "text_link",
+    "text_mention",
+    "custom_emoji",
+    "blockquote",
+    "expandable_blockquote",
+  ]),
+};
+
+/**
+ * Check if an entity can be written in a parse mode.
+ */
+function canFormat(text: string, entity: MessageEntity, format: ParseMode): boolean {
+  if (!FORMATTABLE_TYPES[format]?.has(entity.type)) return false;
+  if (format === "MarkdownV2" && isBlockquote(entity)) {
+    // MarkdownV2 blockquotes are made of whole lines
+    const end = entity.offset + entity.length;
+    return (
+      (entity.offset === 0 || text[entity.offset - 1] === "\n") &&
+      (end === text.length || text[end] === "\n")
+    );
+  }
+  return true;
+}
+
+/**
+ * Keep only entities that don't overlap an earlier one, for legacy Markdown.
+ *
+ * @param entities Entities sorted with {@link sortEntities}
+ */
+function removeOverlappingEntities(entities: MessageEntity[]): MessageEntity[] {
+  let end = 0;
+  return entities.filter((entity) => {
+    if (entity.offset < end) return false;
+    end = entity.offset + entity.length;
+    return true;
+  });
+}
+
+/**
+ * Characters that end each legacy Markdown entity. A pre block ends at "```", but a
+ * "`" just before it would end it early, so pre leaves out every "`".
+ */
+const MARKDOWN_END_CHARACTERS: Partial<Record<MessageEntity["type"], string>> = {
+  bold: "*",
+  italic: "_",
+  code: "`",
+  pre: "`",
+  text_link: "]",
+  text_mention: "]",
+};
+
+/**
+ * Cut legacy Markdown entities down to what it can write. There are no escapes inside
+ * entities, so entities are split around the characters that would end them, and a
+ * pre block leaves out the "\r" it starts with, which the parser skips along with the
+ * line break after "```". A "\" just before an entity would escape its start marker,
+ * so such entities are left out.
+ *
+ * @param entities Entities that don't overlap, sorted with {@link sortEntities}
+ */
+function fitMarkdownEntities(text: string, entities: MessageEntity[]): MessageEntity[] {
+  const pieces: MessageEntity[] = [];
+  for (const entity of entities) {
+    const end = entity.offset + entity.length;
+    let start = entity.offset;
+    for (let i = start; i <= end; i++) {
+      const leftOut =
+        i < end &&
+        (text[i] === MARKDOWN_END_CHARACTERS[entity.type] ||
+          (entity.type === "pre" && i === start && text[i] === "\r"));
+      if (i < end && !leftOut) continue;
+      if (i > start) pieces.push({ ...entity, offset: start, length: i - start });
+      start = i + 1;
+    }
+  }
+
+  let previousEnd = 0;
+  return pieces.filter((piece) => {
+    if (piece.offset !== previousEnd && text[piece.offset - 1] === "\\") return false;
+    previousEnd = piece.offset + piece.length;
+    return true;
+  });
+}
+
+/**
+ * Escape plain text for where it appears in a parse mode.
+ *
+ * @param open Entities the text is inside of, innermost last
+ */
+function escapeFormattedText(
+  text: string,
+  format: ParseMode,
+  open: readonly MessageEntity[] = [],
+  blockquote?: MessageEntity,
+): string {
+  const innermost = open[open.length - 1];
+  const inCode = innermost?.type === "code" || innermost?.type === "pre";
+  switch (format) {
+    case "HTML":
+      return text.replace(/[&<>"]/g, (char) => `&${HTML_ESCAPES[char]};`);
+    case "MarkdownV2": {
+      if (inCode) return text.replace(/[`\\\r]/g, "\\$&");
+      const escaped = text.replace(/[_*[\]()~`>#+\-=|{}.!\\\r]/g, "\\$&");
+      return blockquote ? escaped.replaceAll("\n", "\n>") : escaped;
+    }
+    case "Markdown":
+      // Legacy Markdown has no escapes inside entities
+      return open.length > 0 ? text : text.replace(/[_*`[]/g, "\\$&");
+    default:
+      return text;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "amp",
+  "<": "lt",
+  ">": "gt",
+  '"': "quot",
+};
+
+/**
+ * Escape a link target inside (...) in MarkdownV2.
+ */
+function escapeMarkdownV2Url(url: string): string {
+  return url.replace(/[)\\]/g, "\\$&");
+}
+
+function formatEntity(entity: MessageEntity, format: ParseMode): EntityMarkers {
+  switch (format) {
+    case "Markdown":
+      return formatEntityMarkdown(entity);
+    case "MarkdownV2":
+      return formatEntityMarkdownV2(entity);
+    case "HTML":
+      return formatEntityHTML(entity);
+    default:
+      return ["", ""];
+  }
+}
+
+function formatEntityMarkdown(entity: MessageEntity): EntityMarkers {
   switch (entity.type) {
     case "bold":
-      return `*${content}*`;
+      return ["*", "*"];
     case "italic":
-      return `_${content}_`;
+      return ["_", "_"];
     case "code":
-      return `\`${content}\``;
-    case "pre": {
-      const lang = (entity as MessageEntity.PreMessageEntity).language;
-      return lang ? `\`\`\`${lang}\n${content}\`\`\`` : `\`\`\`\n${content}\`\`\``;
-    }
+      return ["`", "`"];
+    case "pre":
+      return [`\`\`\`${entity.language ?? ""}\n`, "```"];
     case "text_link":
-      return `[${content}](${(entity as MessageEntity.TextLinkMessageEntity).url})`;
+      // The URL ends at the first ")", and there are no escapes
+      return ["[", `](${entity.url.replaceAll(")", "%29")})`];
     case "text_mention":
-      return `[${content}](tg://user?id=${(entity as MessageEntity.TextMentionMessageEntity).user.id})`;
+      return ["[", `](tg://user?id=${entity.user.id})`];
     default:
-      return content;
+      return ["", ""];
   }
 }
 
-function formatEntityMarkdownV2(entity: MessageEntity, content: string): string {
+function formatEntityMarkdownV2(entity: MessageEntity): EntityMarkers {
   switch (entity.type) {
     case "bold":
-      return `*${content}*`;
+      return ["*", "*"];
     case "italic":
-      return `_${content}_`;
+      return ["_", "_"];
     case "underline":
-      return `__${content}__`;
+      return ["__", "__"];
     case "strikethrough":
-      return `~${content}~`;
+      return ["~", "~"];
     case "spoiler":
-      return `||${content}||`;
+      return ["||", "||"];
     case "code":
-      return `\`${content}\``;
-    case "pre": {
-      const lang = (entity as MessageEntity.PreMessageEntity).language;
-      return lang ? `\`\`\`${lang}\n${content}\`\`\`` : `\`\`\`\n${content}\`\`\``;
-    }
+      return ["`", "`"];
+    case "pre":
+      return [`\`\`\`${entity.language ?? ""}\n`, "```"];
     case "text_link":
-      return `[${content}](${(entity as MessageEntity.TextLinkMessageEntity).url})`;
+      return ["[", `](${escapeMarkdownV2Url(entity.url)})`];
     case "text_mention":
-      return `[${content}](tg://user?id=${(entity as MessageEntity.TextMentionMessageEntity).user.id})`;
+      return ["[", `](tg://user?id=${entity.user.id})`];
     case "custom_emoji":
-      return `![${content}](tg://emoji?id=${(entity as MessageEntity.CustomEmojiMessageEntity).custom_emoji_id})`;
+      return ["![", `](tg://emoji?id=${entity.custom_emoji_id})`];
     case "blockquote":
-      return `>${content}`;
+      return [">", ""];
+    case "expandable_blockquote":
+      return ["**>", "||"];
     default:
-      return content;
+      return ["", ""];
   }
 }
 
-function formatEntityHTML(entity: MessageEntity, content: string): string {
+function formatEntityHTML(entity: MessageEntity): EntityMarkers {
   switch (entity.type) {
     case "bold":
-      return `<b>${content}</b>`;
+      return ["<b>", "</b>"];
     case "italic":
-      return `<i>${content}</i>`;
+      return ["<i>", "</i>"];
     case "underline":
-      return `<u>${content}</u>`;
+      return ["<u>", "</u>"];
     case "strikethrough":
-      return `<s>${content}</s>`;
+      return ["<s>", "</s>"];
     case "spoiler":
-      return `<tg-spoiler>${content}</tg-spoiler>`;
+      return ["<tg-spoiler>", "</tg-spoiler>"];
     case "code":
-      return `<code>${content}</code>`;
-    case "pre": {
-      const lang = (entity as MessageEntity.PreMessageEntity).language;
-      return lang
-        ? `<pre><code class="language-${lang}">${content}</code></pre>`
-        : `<pre>${content}</pre>`;
-    }
+      return ["<code>", "</code>"];
+    case "pre":
+      return entity.language
+        ? [
+            `<pre><code class="language-${escapeFormattedText(entity.language, "HTML")}">`,
+            "</code></pre>",
+          ]
+        : ["<pre>", "</pre>"];
     case "text_link":
-      return `<a href="${(entity as MessageEntity.TextLinkMessageEntity).url}">${content}</a>`;
+      return [`<a href="${escapeFormattedText(entity.url, "HTML")}">`, "</a>"];
     case "text_mention":
-      return `<a href="tg://user?id=${(entity as MessageEntity.TextMentionMessageEntity).user.id}">${content}</a>`;
+      return [`<a href="tg://user?id=${entity.user.id}">`, "</a>"];
     case "custom_emoji":
-      return `<tg-emoji emoji-id="${(entity as MessageEntity.CustomEmojiMessageEntity).custom_emoji_id}">${content}</tg-emoji>`;
+      return [`<tg-emoji emoji-id="${entity.custom_emoji_id}">`, "</tg-emoji>"];
     case "blockquote":
-      return `<blockquote>${content}</blockquote>`;
+      return ["<blockquote>", "</blockquote>"];
+    case "expandable_blockquote":
+      return ["<blockquote expandable>", "</blockquote>"];
     default:
-      return content;
+      return ["", ""];
   }
 }
@@ -0,0 +1,489 @@
+import type { InlineKeyboardButton, Message, MessageEntity } from "grammy/types";
+import { BotResponse } from "./BotResponse.js";
+import { TelegramServer } from "./TelegramServer.js";
+import { TestBot } from "./TestBot.js";
+import type { ApiCallRecord } from "./TestClient.js";
+
+/**
+ * The parts of the Vitest/Jest matcher context the matchers use.
+ */
+export interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    printExpected(value: unknown): string;
+    printReceived(value: unknown): string;
+  };
+}
+
+/**
+ * Result returned to `expect`.
+ */
+export interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Expected callback query answer for `toHaveAnsweredCallback`.
+ */
+export interface ExpectedCallbackAnswer {
+  text?: string;
+  showAlert?: boolean;
+  url?: string;
+  cacheTime?: number;
+}
+
+/**
+ * What the matchers look at, taken from a `BotResponse`, `TestBot` or `TelegramServer`.
+ */
+interface MatcherSubject {
+  /** API calls made by the bot (not recorded by the server) */
+  apiCalls?: ApiCallRecord[];
+  messages: Message[];
+  editedMessages: Message[];
+  deletedMessageIds: number[];
+  /** Callback query answers (not recorded by the server) */
+  callbackAnswers?: ExpectedCallbackAnswer[];
+  transcript(): string;
+}
+
+/**
+ * Matchers added by `expect.extend(grammyMatchers)`.
+ *
+ * Add them to your test runner's types once, e.g. for Vitest:
+ *
+ * ```typescript
+ * declare module "vitest" {
+ *   interface Assertion<T = any> extends GrammyMatchers<T> {}
+ * }
+ * ```
+ */
+export interface GrammyMatchers<R = unknown> {
+  /** The bot sent a message whose text or caption equals the string or matches the pattern */
+  toHaveReplied(expected?: string | RegExp): R;
+  /** A sent or edited message has an inline button with these fields */
+  toHaveInlineButton(button: Partial<InlineKeyboardButton.CallbackButton & { url: string }>): R;
+  /** A sent or edited message has an entity of this type, covering exactly `text` if given */
+  toHaveEntity(type: MessageEntity["type"], text?: string): R;
+  /** The bot called the API method, with a payload containing these fields if given */
+  toHaveCalledApi(method: string, payload?: Record<string, unknown>): R;
+  /** The bot edited a message, to this text or caption if given */
+  toHaveEdited(expected?: string | RegExp): R;
+  /** The bot deleted a message, this one if an ID is given */
+  toHaveDeleted(messageId?: number): R;
+  /** The bot answered the callback query, with these options if given */
+  toHaveAnsweredCallback(expected?: ExpectedCallbackAnswer): R;
+  /** The response or API error is a 429 Too Many Requests */
+  toBeRateLimited(): R;
+}
+
+type Matcher = (this: MatcherContext, received: unknown, ...expected: never[]) => MatcherResult;
+
+/**
+ * Custom matchers for Vitest and Jest:
+ *
+ * ```typescript
+ * expect.extend(grammyMatchers);
+ *
+ * const response = await testBot.sendCommand(user, chat, "/start");
+ * expect(response).toHaveReplied(/welcome/i);
+ * expect(response).toHaveInlineButton({ text: "Help", callback_data: "help" });
+ * expect(testBot).toHaveCalledApi("banChatMember", { user_id: spammer.id });
+ * ```
+ *
+ * They check a single `BotResponse`, or everything that happened in a test when given
+ * the `TestBot` (its API call log and the server's messages) or the `TelegramServer`
+ * (its messages; it keeps no API call log). Failure messages show the expected and
+ * received values and the chat transcript.
+ */
+export const grammyMatchers = {
+  toHaveReplied(this: MatcherContext, received: unknown, expected?: string | RegExp) {
+    const subject = toSubject(received, "toHaveReplied");
+    const texts = subject.messages.map(messageText);
+    return result(
+      this,
+      subject,
+      expected === undefined ? texts.length > 0 : texts.some((text) => matchesText(text, expected)),
+      expected === undefined ? "reply" : `reply ${this.utils.printExpected(expected)}`,
+      { expected, received: texts },
+    );
+  },
+
+  toHaveInlineButton(
+    this: MatcherContext,
+    received: unknown,
+    button: Partial<InlineKeyboardButton.CallbackButton & { url: string }>,
+  ) {
+    const subject = toSubject(received, "toHaveInlineButton");
+    const buttons = [...subject.messages, ...subject.editedMessages].flatMap(inlineButtons);
+    return result(
+      this,
+      subject,
+      buttons.some((candidate) => matchesPartial(this, candidate, button)),
+      `show an inline button ${this.utils.printExpected(button)}`,
+      { expected: button, received: buttons },
+    );
+  },
+
+  toHaveEntity(
+    this: MatcherContext,
+    received: unknown,
+    type: MessageEntity["type"],
+    text?: string,
+  ) {
+    const subject = toSubject(received, "toHaveEntity");
+    const entities = [...subject.messages, ...subject.editedMessages].flatMap((message) =>
+      messageEntities(message).map((entity) => ({
+        type: entity.type,
+        text: messageText(message)?.slice(entity.offset, entity.offset + entity.length),
+      })),
+    );
+    return result(
+      this,
+      subject,
+      entities.some(
+        (entity) => entity.type === type && (text === undefined || entity.text === text),
+      ),
+      `format ${text === undefined ? "text" : this.utils.printExpected(text)} as ${type}`,
+      { expected: text === undefined ? { type } : { type, text }, received: entities },
+    );
+  },
+
+  toHaveCalledApi(
+    this: MatcherContext,
+    received: unknown,
+    method: string,
+    payload?: Record<string, unknown>,
+  ) {
+    const subject = toSubject(received, "toHaveCalledApi", true);
+    const calls = subject.apiCalls ?? [];
+    const payloads = calls.filter((call) => call.method === method).map((call) => call.payload);
+    return result(
+      this,
+      subject,
+      payloads.some(
+        (candidate) => payload === undefined || matchesPartial(this, candidate, payload),
+      ),
+      payload === undefined
+        ? `call ${method}`
+        : `call ${method} with ${this.utils.printExpected(payload)}`,
+      // Show the payloads of the method if it was called, or else which methods were
+      payload === undefined || payloads.length === 0
+        ? { expected: method, received: calls.map((call) => call.method) }
+        : { expected: payload, received: payloads },
+    );
+  },
+
+  toHaveEdited(this: MatcherContext, received: unknown, expected?: string | RegExp) {
+    const subject = toSubject(received, "toHaveEdited");
+    const texts = subject.editedMessages.map(messageText);
+    return result(
+      this,
+      subject,
+      expected === undefined ? texts.length > 0 : texts.some((text) => matchesText(text, expected)),
+      expected === undefined
+        ? "edit a message"
+        : `edit a message to ${this.utils.printExpected(expected)}`,
+      { expected, received: texts },
+    );
+  },
+
+  toHaveDeleted(this: MatcherContext, received: unknown, messageId?: number) {
+    const subject = toSubject(received, "toHaveDeleted");
+    const ids = subject.deletedMessageIds;
+    return result(
+      this,
+      subject,
+      messageId === undefined ? ids.length > 0 : ids.includes(messageId),
+      messageId === undefined ? "delete a message" : `delete message #${messageId}`,
+      { expected: messageId, received: ids },
+    );
+  },
+
+  toHaveAnsweredCallback(
+    this: MatcherContext,
+    received: unknown,
+    expected?: ExpectedCallbackAnswer,
+  ) {
+    const subject = toSubject(received, "toHaveAnsweredCallback", true);
+    const answers = subject.callbackAnswers ?? [];
+    return result(
+      this,
+      subject,
+      answers.some(
+        (answer) =>
+          expected === undefined || matchesPartial(this, { showAlert: false, ...answer }, expected),
+      ),
+      expected === undefined
+        ? "answer the callback query"
+        : `answer the callback query with ${this.utils.printExpected(expected)}`,
+      { expected, received: answers },
+    );
+  },
+
+  toBeRateLimited(this: MatcherContext, received: unknown) {
+    // A GrammyError thrown by the API can be checked directly
+    if (
+      !(received instanceof BotResponse || received instanceof TestBot) &&
+      (received as { error_code?: unknown } | null)?.error_code !== undefined
+    ) {
+      const code = (received as { error_code: unknown }).error_code;
+      return {
+        pass: code === 429,
+        message: () =>
+          `Expected error ${this.isNot ? "not " : ""}to be 429 Too Many Requests, received ${this.utils.printReceived(code)}`,
+      };
+    }
+    const subject = toSubject(received, "toBeRateLimited", true);
+    const codes = (subject.apiCalls ?? []).map(errorCode).filter((code) => code !== undefined);
+    const pass =
+      (received instanceof BotResponse && received.isRateLimited()) || codes.includes(429);
+    return result(this, subject, pass, "be rate limited", { received: codes });
+  },
+} satisfies Record<string, Matcher>;
+
+/**
+ * Render what happened during a response as a chat transcript, one line per message or
+ * API call, e.g.
+ *
+ * ```text
+ * Alice: "/start"
+ * bot sendMessage: "Welcome!"
+ *   [Help → help] [Docs → https://example.com]
+ * bot sendMessage failed: 429 Too Many Requests: retry after 3
+ * ```
+ */
+export function renderTranscript(response: BotResponse): string {
+  const lines: string[] = [];
+  const input = response.sentMessage;
+  if (input) {
+    const text = messageText(input);
+    lines.push(
+      `${input.from?.first_name ?? "user"}: ${text === undefined ? "(media)" : JSON.stringify(text)}`,
+    );
+  }
+  for (const call of response.apiCalls) {
+    lines.push(...renderApiCall(call));
+  }
+  if (response.error) {
+    lines.push(`error: ${response.error.code} ${response.error.description}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : "(nothing happened)";
+}
+
+/**
+ * Render a single API call as transcript lines.
+ */
+function renderApiCall(call: ApiCallRecord): string[] {
+  const code = errorCode(call);
+  if (call.error) {
+    const description =
+      (call.error as Error & { description?: string }).description ?? call.error.message;
+    return [`bot ${call.method} failed: ${code === undefined ? "" : `${code} `}${description}`];
+  }
+
+  const { text, caption, reply_markup, ...rest } = call.payload;
+  const content = text ?? caption;
+  const lines = [
+    typeof content === "string"
+      ? `bot ${call.method}: ${JSON.stringify(content)}`
+      : `bot ${call.method} ${stringify(rest)}`,
+  ];
+  const keyboard = (reply_markup as { inline_keyboard?: InlineKeyboardButton[][] } | undefined)
+    ?.inline_keyboard;
+  for (const row of keyboard ?? []) {
+    lines.push(`  ${row.map(renderButton).join(" ")}`);
+  }
+  return lines;
+}
+
+function renderButton(button: InlineKeyboardButton): string {
+  if ("callback_data" in button) return `[${button.text} → ${button.callback_data}]`;
+  if ("url" in button) return `[${button.text} → ${button.url}]`;
+  return `[${button.text}]`;
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Render the API calls a TestBot has made, like {@link renderTranscript}.
+ */
+function renderApiCalls(calls: ApiCallRecord[]): string {
+  const lines = calls.flatMap(renderApiCall);
+  return lines.length > 0 ? lines.join("\n") : "(nothing happened)";
+}
+
+/**
+ * Render the messages the server has stored, per chat.
+ */
+function renderStoredMessages(server: TelegramServer): string {
+  const botId = server.getBotInfo().id;
+  const lines: string[] = [];
+  for (const { chat, messages, deletedMessageIds } of server.chatState.getAll()) {
+    if (messages.length === 0 && deletedMessageIds.length === 0) continue;
+    lines.push(`${"title" in chat ? chat.title : chat.first_name}:`);
+    for (const message of messages) {
+      const sender = message.from?.id === botId ? "bot" : (message.from?.first_name ?? "user");
+      const text = messageText(message);
+      lines.push(
+        `  ${sender}: ${text === undefined ? "(media)" : JSON.stringify(text)}${message.edit_date === undefined ? "" : " (edited)"}`,
+      );
+      for (const row of message.reply_markup?.inline_keyboard ?? []) {
+        lines.push(`    ${row.map(renderButton).join(" ")}`);
+      }
+    }
+    if (deletedMessageIds.length > 0) {
+      lines.push(`  deleted: ${deletedMessageIds.map((id) => `#${id}`).join(", ")}`);
+    }
+  }
+  return lines.length > 0 ? lines.join("\n") : "(nothing happened)";
+}
+
+/**
+ * Build the matcher result. The failure message shows the expected and received values
+ * and the transcript.
+ */
+function result(
+  context: MatcherContext,
+  subject: MatcherSubject,
+  pass: boolean,
+  expectation: string,
+  values: { expected?: unknown; received: unknown },
+): MatcherResult {
+  return {
+    pass,
+    message: () =>
+      [
+        `Expected bot ${context.isNot ? "not " : ""}to ${expectation}`,
+        "",
+        ...(values.expected === undefined
+          ? []
+          : [`Expected: ${context.utils.printExpected(values.expected)}`]),
+        `Received: ${context.utils.printReceived(values.received)}`,
+        "",
+        "Chat transcript:",
+        indent(subject.transcript()),
+      ].join("\n"),
+  };
+}
+
+/**
+ * Get what the matchers look at from a `BotResponse`, `TestBot` or `TelegramServer`.
+ *
+ * @param needsCallLog The matcher checks API calls, which the server doesn't record
+ */
+function toSubject(received: unknown, matcher: string, needsCallLog = false): MatcherSubject {
+  if (received instanceof BotResponse) {
+    return {
+      apiCalls: received.apiCalls,
+      messages: received.messages,
+      editedMessages: received.editedMessages,
+      deletedMessageIds: received.deletedMessageIds,
+      callbackAnswers: received.callbackAnswer ? [received.callbackAnswer] : [],
+      transcript: () => renderTranscript(received),
+    };
+  }
+  if (received instanceof TestBot) {
+    const apiCalls = received.getApiCalls();
+    return {
+      ...storedMessages(received.server),
+      apiCalls,
+      callbackAnswers: apiCalls
+        .filter((call) => call.method === "answerCallbackQuery" && !call.error)
+        .map(({ payload }) => ({
+          text: payload.text as string | undefined,
+          showAlert: payload.show_alert === true,
+          url: payload.url as string | undefined,
+          cacheTime: payload.cache_time as number | undefined,
+        })),
+      transcript: () => renderApiCalls(apiCalls),
+    };
+  }
+  if (received instanceof TelegramServer && !needsCallLog) {
+    return { ...storedMessages(received), transcript: () => renderStoredMessages(received) };
+  }
+
+  const expected = needsCallLog
+    ? "a BotResponse or TestBot"
+    : "a BotResponse, TestBot or TelegramServer";
+  const actual =
+    received instanceof TelegramServer
+      ? "a TelegramServer, which doesn't record API calls"
+      : stringify(received);
+  throw new TypeError(`${matcher}() expects ${expected}, received ${actual}`);
+}
+
+/**
+ * The bot's messages stored on the server, and the IDs of deleted messages.
+ */
+function storedMessages(
+  server: TelegramServer,
+): Pick<MatcherSubject, "messages" | "editedMessages" | "deletedMessageIds"> {
+  const botId = server.getBotInfo().id;
+  const chats = server.chatState.getAll();
+  const messages = chats
+    .flatMap((chat) => chat.messages)
+    .filter((message) => message.from?.id === botId);
+  return {
+    messages,
+    editedMessages: messages.filter((message) => message.edit_date !== undefined),
+    deletedMessageIds: chats.flatMap((chat) => chat.deletedMessageIds),
+  };
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `  ${line}`)
+    .join("\n");
+}
+
+function matchesText(text: string | undefined, expected: string | RegExp): boolean {
+  if (text === undefined) return false;
+  return typeof expected === "string" ? text === expected : expected.test(text);
+}
+
+/**
+ * Whether every field of `expected` equals the same field of `actual`, recursing into
+ * plain objects so nested payloads can be matched partially. Leaves are compared with
+ * the runner's `equals`, so asymmetric matchers such as `expect.any(Number)` work.
+ */
+function matchesPartial(context: MatcherContext, actual: unknown, expected: unknown): boolean {
+  if (!isPlainObject(expected) || !isPlainObject(actual)) {
+    return context.equals(actual, expected);
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    matchesPartial(context, actual[key], value),
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)
+  );
+}
+
+function messageText(message: Message): string | undefined {
+  return message.text ?? message.caption;
+}
+
+function messageEntities(message: Message): MessageEntity[] {
+  return message.entities ?? message.caption_entities ?? [];
+}
+
+function inlineButtons(message: Message): InlineKeyboardButton[] {
+  return message.reply_markup?.inline_keyboard.flat() ?? [];
+}
+
+function errorCode(call: ApiCallRecord): number | undefined {
+  return (call.error as (Error & { code?: number }) | undefined)?.code;
+}
@@ -67,6 +67,65 @@ export interface RateLimitState {
   currentMinute: number;
 }
 
+/**
+ * Rate limits applied to the bot's API calls.
+ *
+ * Defaults follow Telegram's documented limits, except the limit across all chats: the
+ * simulated clock only moves when a test advances it, so it is opt-in.
+ */
+export interface RateLimitConfig {
+  /** Messages per second to the same chat (default: 30) */
+  perChat?: number;
+  /** Messages per minute to the same group or supergroup (default: 20) */
+  perGroupPerMinute?: number;
+  /** Messages per second across all chats (default: no limit; Telegram allows about 30) */
+  global?: number;
+  /** Messages per second across all chats with `allow_paid_broadcast` (default: 1000) */
+  paidBroadcast?: number;
+}
+
+/**
+ * Options for checking a rate-limited API call.
+ */
+export interface RateLimitCheckOptions {
+  /** API method, recorded in the rate limit report */
+  method?: string;
+  /** Call uses `allow_paid_broadcast` (counts against the paid broadcast limit) */
+  paidBroadcast?: boolean;
+}
+
+/**
+ * Result of checking an API call against the rate limits.
+ */
+export interface RateLimitCheckResult {
+  allowed: boolean;
+  /** Seconds to wait, when the call is not allowed */
+  retryAfter?: number;
+  /** Give back the budget an allowed call used, if the call then fails */
+  refund?: () => void;
+}
+
+/**
+ * Rate limit usage of an API method.
+ */
+export interface RateLimitBudget {
+  /** Calls checked against the limits */
+  calls: number;
+  /** Calls rejected with 429 */
+  limited: number;
+  /** Most calls made in a single second */
+  peakPerSecond: number;
+  /** Longest retry_after returned */
+  maxRetryAfter: number;
+}
+
+const DEFAULT_RATE_LIMITS: Required<RateLimitConfig> = {
+  perChat: 30,
+  perGroupPerMinute: 20,
+  global: Number.POSITIVE_INFINITY,
+  paidBroadcast: 1000,
+};
+
 /**
  * Manages chat member state including permissions, restrictions, and rate limiting.
  */
@@ -77,6 +136,18 @@ export class MemberState {
   /** Rate limit state per chat */
   private rateLimits = new Map<number, RateLimitState>();
 
+  /** Configured rate limits (null when disabled) */
+  private rateLimitConfig: Required<RateLimitConfig> | null = { ...DEFAULT_RATE_LIMITS };
+
+  /** Messages sent across all chats in the current second */
+  private globalRateLimit = { currentSecond: 0, messages: 0, paidMessages: 0 };
+
+  /** Rate limit usage per method */
+  private rateLimitReport = new Map<
+    string,
+    RateLimitBudget & { currentSecond: number; thisSecond: number }
+  >();
+
   /** User profile photos: userId -> array of photo arrays */
   private profilePhotos = new Map<number, PhotoSize[][]>();
 
@@ -89,6 +160,12 @@ export class MemberState {
   /** Premium users (tracked globally, not per-chat) */
   private premiumUsers = new Set<number>();
 
+  /** Users who blocked the bot in their private chat */
+  private botBlockedBy = new Set<number>();
+
+  /** Deleted/deactivated user accounts */
+  private deactivatedUsers = new Set<number>();
+
   /**
    * Get the current simulated time.
    */
@@ -212,6 +289,8 @@ export class MemberState {
       can_delete_stories: true,
       can_pin_messages: true,
       can_manage_topics: true,
+      can_post_messages: true,
+      can_edit_messages: true,
     };
     return member;
   }
@@ -244,6 +323,8 @@ export class MemberState {
       can_delete_stories: rights.can_delete_stories ?? false,
       can_pin_messages: rights.can_pin_messages ?? false,
       can_manage_topics: rights.can_manage_topics ?? false,
+      can_post_messages: rights.can_post_messages,
+      can_edit_messages: rights.can_edit_messages,
     };
     return member;
   }
@@ -334,6 +415,24 @@ export class MemberState {
     return true;
   }
 
+  /**
+   * Get restricted and banned members whose restriction or ban has an end date.
+   */
+  getTemporaryMembers(): { chatId: number; member: StoredMember }[] {
+    const result: { chatId: number; member: StoredMember }[] = [];
+    for (const [chatId, chatMembers] of this.members) {
+      for (const member of chatMembers.values()) {
+        if (
+          (member.status === "restricted" || member.status === "kicked") &&
+          member.until_date > 0
+        ) {
+          result.push({ chatId, member });
+        }
+      }
+    }
+    return result;
+  }
+
   /**
    * Check if a user is an admin (administrator or creator).
    */
@@ -430,12 +529,16 @@ export class MemberState {
           can_delete_stories: member.adminRights?.can_delete_stories ?? false,
           can_pin_messages: member.adminRights?.can_pin_messages ?? false,
           can_manage_topics: member.adminRights?.can_manage_topics ?? false,
+          can_post_messages: member.adminRights?.can_post_messages,
+          can_edit_messages: member.adminRights?.can_edit_messages,
         };
 
       case "member":
         return {
           status: "member",
           user: member.user,
+          // Members who joined via a subscription link
+          ...(member.until_date > 0 ? { until_date: member.until_date } : {}),
         };
 
       case "restricted":
@@ -495,6 +598,21 @@ export class MemberState {
     return state;
   }
 
+  /**
+   * Configure the rate limits. Omitted limits keep their defaults; `false` disables
+   * all limits except slow mode.
+   */
+  setRateLimitConfig(config: RateLimitConfig | false): void {
+    this.rateLimitConfig = config === false ? null : { ...DEFAULT_RATE_LIMITS, ...config };
+  }
+
+  /**
+   * Get the configured rate limits (null when disabled).
+   */
+  getRateLimitConfig(): Required<RateLimitConfig> | null {
+    return this.rateLimitConfig ? { ...this.rateLimitConfig } : null;
+  }
+
   /**
    * Check and update rate limits for sending a message.
    * Returns { allowed: boolean, retryAfter?: number }
@@ -504,62 +622,180 @@ export class MemberState {
     userId: number,
     chatType: string,
     slowModeDelay: number,
-  ): { allowed: boolean; retryAfter?: number } {
+    options: RateLimitCheckOptions = {},
+  ): RateLimitCheckResult {
     const now = this.timestamp();
     const state = this.getRateLimit(chatId);
     const member = this.getMember(chatId, userId);
+    const limits = this.rateLimitConfig;
 
     // Admins are exempt from slow mode
-    if (member && (member.status === "administrator" || member.status === "creator")) {
-      return { allowed: true };
-    }
+    const isAdmin = member?.status === "administrator" || member?.status === "creator";
 
     // Check slow mode (group-specific per-user rate limit)
-    if (slowModeDelay > 0 && member) {
+    if (!isAdmin && slowModeDelay > 0 && member) {
       const timeSinceLastMessage = now - member.lastMessageTime;
       if (timeSinceLastMessage < slowModeDelay) {
-        return {
-          allowed: false,
-          retryAfter: slowModeDelay - timeSinceLastMessage,
-        };
+        return this.recordRateLimitUse(options.method, slowModeDelay - timeSinceLastMessage);
       }
     }
 
-    // Global rate limits
-    // 30 messages per second to same chat
     const currentSecond = Math.floor(now);
     if (state.currentSecond !== currentSecond) {
       state.currentSecond = currentSecond;
       state.messagesThisSecond = 0;
     }
-
-    if (state.messagesThisSecond >= 30) {
-      return { allowed: false, retryAfter: 1 };
+    const currentMinute = Math.floor(now / 60);
+    if (state.currentMinute !== currentMinute) {
+      state.currentMinute = currentMinute;
+      state.messagesThisMinute = 0;
     }
 
-    // 20 messages per minute in groups
-    if (chatType === "group" || chatType === "supergroup") {
-      const currentMinute = Math.floor(now / 60);
-      if (state.currentMinute !== currentMinute) {
-        state.currentMinute = currentMinute;
-        state.messagesThisMinute = 0;
+    if (limits && !isAdmin) {
+      // Messages per second to the same chat
+      if (state.messagesThisSecond >= limits.perChat) {
+        return this.recordRateLimitUse(options.method, 1);
       }
 
-      if (state.messagesThisMinute >= 20) {
-        return { allowed: false, retryAfter: 60 - (now % 60) };
+      // Messages per minute in groups
+      if (
+        (chatType === "group" || chatType === "supergroup") &&
+        state.messagesThisMinute >= limits.perGroupPerMinute
+      ) {
+        return this.recordRateLimitUse(options.method, 60 - (now % 60));
       }
     }
 
+    const globalRetryAfter = this.getGlobalRetryAfter(options.paidBroadcast ?? false);
+    if (globalRetryAfter !== undefined) {
+      return this.recordRateLimitUse(options.method, globalRetryAfter);
+    }
+
     // Update counters
     state.messagesThisSecond++;
     state.messagesThisMinute++;
+    const refundGlobal = this.countGlobalMessage(options.paidBroadcast ?? false);
 
     // Update member's last message time
-    if (member) {
+    const lastMessageTime = member?.lastMessageTime;
+    if (member && slowModeDelay > 0) {
       member.lastMessageTime = now;
     }
 
-    return { allowed: true };
+    const refund = () => {
+      if (state.currentSecond === currentSecond && state.messagesThisSecond > 0) {
+        state.messagesThisSecond--;
+      }
+      if (state.currentMinute === currentMinute && state.messagesThisMinute > 0) {
+        state.messagesThisMinute--;
+      }
+      refundGlobal();
+      if (member && slowModeDelay > 0 && lastMessageTime !== undefined) {
+        member.lastMessageTime = lastMessageTime;
+      }
+    };
+    return { ...this.recordRateLimitUse(options.method), refund };
+  }
+
+  /**
+   * Check and update the limits across all chats, for calls without a chat
+   * (callback answers, inline message edits).
+   */
+  checkGlobalRateLimit(options: RateLimitCheckOptions = {}): RateLimitCheckResult {
+    const retryAfter = this.getGlobalRetryAfter(options.paidBroadcast ?? false);
+    if (retryAfter !== undefined) {
+      return this.recordRateLimitUse(options.method, retryAfter);
+    }
+    const refund = this.countGlobalMessage(options.paidBroadcast ?? false);
+    return { ...this.recordRateLimitUse(options.method), refund };
+  }
+
+  /**
+   * Get retry_after if the limit across all chats is reached.
+   */
+  private getGlobalRetryAfter(paidBroadcast: boolean): number | undefined {
+    const limits = this.rateLimitConfig;
+    if (!limits) return undefined;
+
+    const currentSecond = this.timestamp();
+    if (this.globalRateLimit.currentSecond !== currentSecond) {
+      this.globalRateLimit = { currentSecond, messages: 0, paidMessages: 0 };
+    }
+
+    const { messages, paidMessages } = this.globalRateLimit;
+    const exceeded = paidBroadcast
+      ? paidMessages >= limits.paidBroadcast
+      : messages >= limits.global;
+    return exceeded ? 1 : undefined;
+  }
+
+  /**
+   * Count a message against the limit across all chats. Returns a function that takes
+   * it back while the same second lasts.
+   */
+  private countGlobalMessage(paidBroadcast: boolean): () => void {
+    const counted = this.globalRateLimit;
+    const key = paidBroadcast ? "paidMessages" : "messages";
+    counted[key]++;
+    return () => {
+      if (this.globalRateLimit === counted && counted[key] > 0) counted[key]--;
+    };
+  }
+
+  /**
+   * Record a checked call in the per-method report.
+   */
+  private recordRateLimitUse(
+    method: string | undefined,
+    retryAfter?: number,
+  ): RateLimitCheckResult {
+    const result = retryAfter === undefined ? { allowed: true } : { allowed: false, retryAfter };
+    if (!method) return result;
+
+    const currentSecond = this.timestamp();
+    let budget = this.rateLimitReport.get(method);
+    if (!budget) {
+      budget = {
+        calls: 0,
+        limited: 0,
+        peakPerSecond: 0,
+        maxRetryAfter: 0,
+        currentSecond,
+        thisSecond: 0,
+      };
+      this.rateLimitReport.set(method, budget);
+    }
+    if (budget.currentSecond !== currentSecond) {
+      budget.currentSecond = currentSecond;
+      budget.thisSecond = 0;
+    }
+
+    budget.calls++;
+    budget.thisSecond++;
+    budget.peakPerSecond = Math.max(budget.peakPerSecond, budget.thisSecond);
+    if (retryAfter !== undefined) {
+      budget.limited++;
+      budget.maxRetryAfter = Math.max(budget.maxRetryAfter, retryAfter);
+    }
+    return result;
+  }
+
+  /**
+   * Get rate limit usage per API method.
+   */
+  getRateLimitReport(): Record<string, RateLimitBudget> {
+    const report: Record<string, RateLimitBudget> = {};
+    for (const [method, { calls, limited, peakPerSecond, maxRetryAfter }] of this.rateLimitReport) {
+      report[method] = { calls, limited, peakPerSecond, maxRetryAfter };
+    }
+    return report;
+  }
+
+  /**
+   * Clear the rate limit report.
+   */
+  clearRateLimitReport(): void {
+    this.rateLimitReport.clear();
   }
 
   /**
@@ -671,6 +907,44 @@ export class MemberState {
     return this.premiumUsers.has(userId);
   }
 
+  // === Blocked and Deactivated Users ===
+
+  /**
+   * Mark that a user blocked (or unblocked) the bot.
+   */
+  setBlockedBot(userId: number, blocked: boolean): void {
+    if (blocked) {
+      this.botBlockedBy.add(userId);
+    } else {
+      this.botBlockedBy.delete(userId);
+    }
+  }
+
+  /**
+   * Check if a user has blocked the bot.
+   */
+  hasBlockedBot(userId: number): boolean {
+    return this.botBlockedBy.has(userId);
+  }
+
+  /**
+   * Mark a user account as deleted/deactivated (or restore it).
+   */
+  setDeactivated(userId: number, deactivated: boolean): void {
+    if (deactivated) {
+      this.deactivatedUsers.add(userId);
+    } else {
+      this.deactivatedUsers.delete(userId);
+    }
+  }
+
+  /**
+   * Check if a user account is deactivated.
+   */
+  isDeactivated(userId: number): boolean {
+    return this.deactivatedUsers.has(userId);
+  }
+
   // === State Management ===
 
   /**
@@ -679,12 +953,28 @@ export class MemberState {
   reset(): void {
     this.members.clear();
     this.rateLimits.clear();
+    this.globalRateLimit = { currentSecond: 0, messages: 0, paidMessages: 0 };
+    this.rateLimitReport.clear();
     this.profilePhotos.clear();
     this.premiumUsers.clear();
+    this.botBlockedBy.clear();
+    this.deactivatedUsers.clear();
     this.currentTime = Date.now();
     this.fileIdCounter = 1;
   }
 
+  /**
+   * Move all members of a chat to another chat (used for group migration).
+   */
+  moveMembers(fromChatId: number, toChatId: number): void {
+    const members = this.members.get(fromChatId);
+    if (!members) return;
+
+    this.members.set(toChatId, members);
+    this.members.delete(fromChatId);
+    this.rateLimits.delete(fromChatId);
+  }
+
   /**
    * Delete all members from a chat.
    */
@@ -0,0 +1,128 @@
+import type { MessageEntity } from "grammy/types";
+
+/**
+ * Entity types Telegram accepts in `entities` and `caption_entities`.
+ */
+const ENTITY_TYPES = new Set<string>([
+  "mention",
+  "hashtag",
+  "cashtag",
+  "bot_command",
+  "url",
+  "email",
+  "phone_number",
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "spoiler",
+  "blockquote",
+  "expandable_blockquote",
+  "code",
+  "pre",
+  "text_link",
+  "text_mention",
+  "custom_emoji",
+]);
+
+/**
+ * Check explicit message entities against the text they format, the way Telegram does
+ * for `entities` and `caption_entities`.
+ *
+ * Offsets and lengths are in UTF-16 code units. Entities may overlap and nest, except
+ * that code and pre entities can't intersect each other.
+ *
+ * @param text Text or caption the entities belong to
+ * @param entities Entities from the request
+ * @param field Name of the request field, for error messages
+ * @returns Telegram error description, or undefined if the entities are valid
+ */
+export function validateMessageEntities(
+  text: string,
+  entities: unknown,
+  field = "entities",
+): string | undefined {
+  if (!Array.isArray(entities)) {
+    return `Bad Request: field "${field}" must be of type Array`;
+  }
+
+  const codeRanges: { start: number; end: number }[] = [];
+  for (const entity of entities) {
+    const description = validateMessageEntity(text, entity);
+    if (description) {
+      return `Bad Request: can't parse entities: ${description}`;
+    }
+
+    const { type, offset, length } = entity as MessageEntity;
+    if (type !== "code" && type !== "pre") continue;
+    const end = offset + length;
+    if (codeRanges.some((range) => offset < range.end && range.start < end)) {
+      return `Bad Request: can't parse entities: ${type} entity at offset ${offset} intersects another code or pre entity`;
+    }
+    codeRanges.push({ start: offset, end });
+  }
+  return undefined;
+}
+
+/**
+ * Check a single entity.
+ *
+ * @returns Problem description, or undefined if the entity is valid
+ */
+function validateMessageEntity(text: string, entity: unknown): string | undefined {
+  if (typeof entity !== "object" || entity === null || Array.isArray(entity)) {
+    return "entity must be an Object";
+  }
+  const { type, offset, length } = entity as Record<string, unknown>;
+
+  if (typeof type !== "string") {
+    return 'Field "type" must be of type String';
+  }
+  if (!ENTITY_TYPES.has(type)) {
+    return `Unsupported entity type "${type}"`;
+  }
+  if (!Number.isInteger(offset)) {
+    return 'Field "offset" must be of type Integer';
+  }
+  if (!Number.isInteger(length)) {
+    return 'Field "length" must be of type Integer';
+  }
+  if ((offset as number) < 0) {
+    return `Receive an entity with incorrect offset ${offset}`;
+  }
+  if ((length as number) <= 0) {
+    return `Receive an entity with incorrect length ${length}`;
+  }
+  if ((offset as number) + (length as number) > text.length) {
+    return `Entity at offset ${offset} with length ${length} ends after the end of the text`;
+  }
+
+  const fields = entity as Record<string, unknown>;
+  switch (type) {
+    case "text_link":
+      if (typeof fields.url !== "string" || fields.url.length === 0) {
+        return 'Field "url" must be a non-empty String';
+      }
+      break;
+    case "text_mention": {
+      const user = fields.user as { id?: unknown } | undefined;
+      if (typeof user !== "object" || user === null || !Number.isInteger(user.id)) {
+        return 'Field "user" must be a User with an Integer "id"';
+      }
+      break;
+    }
+    case "pre":
+      if (fields.language !== undefined && typeof fields.language !== "string") {
+        return 'Field "language" must be of type String';
+      }
+      break;
+    case "custom_emoji": {
+      const id = fields.custom_emoji_id;
+      if (typeof id !== "string" || !/^\d+$/.test(id) || /^0+$/.test(id)) {
+        return "Invalid custom emoji identifier specified";
+      }
+      break;
+    }
+  }
+  return undefined;
+}
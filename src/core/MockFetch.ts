@@ -1,3 +1,6 @@
+import { HttpError } from "grammy";
+import type { ResponseParameters } from "grammy/types";
+import { parseRequestInit } from "./ApiPayload.js";
 import type { TelegramServer } from "./TelegramServer.js";
 import type { ApiCallRecord } from "./TestClient.js";
 
@@ -9,6 +12,12 @@ export function createMockFetch(server: TelegramServer, apiCalls: ApiCallRecord[
   return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
     const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
 
+    // File downloads: https://api.telegram.org/file/bot<token>/<file_path>
+    const fileMatch = url.match(/\/file\/bot[^/]+\/([^?#]+)/);
+    if (fileMatch) {
+      return createFileDownloadResponse(server, decodeURIComponent(fileMatch[1]));
+    }
+
     // Extract method name from URL
     // URL format: https://api.telegram.org/bot<token>/<method>
     const methodMatch = url.match(/\/bot[^/]+\/(\w+)/);
@@ -21,24 +30,12 @@ export function createMockFetch(server: TelegramServer, apiCalls: ApiCallRecord[
 
     const method = methodMatch[1];
 
-    // Parse payload from body
+    // Parse payload from body (JSON, urlencoded or multipart uploads)
     let payload: Record<string, unknown> = {};
-    if (init?.body) {
-      if (typeof init.body === "string") {
-        try {
-          payload = JSON.parse(init.body);
-        } catch {
-          // Try URL-encoded form data
-          const params = new URLSearchParams(init.body);
-          for (const [key, value] of params) {
-            try {
-              payload[key] = JSON.parse(value);
-            } catch {
-              payload[key] = value;
-            }
-          }
-        }
-      }
+    try {
+      payload = await parseRequestInit(init, method);
+    } catch {
+      // Unparseable body - treat as empty payload
     }
 
     const record: ApiCallRecord = {
@@ -64,7 +61,11 @@ export function createMockFetch(server: TelegramServer, apiCalls: ApiCallRecord[
         headers: { "Content-Type": "application/json" },
       });
     } catch (error) {
-      const err = error as Error & { code?: number; description?: string };
+      const err = error as Error & {
+        code?: number;
+        description?: string;
+        parameters?: ResponseParameters;
+      };
       record.error = err;
       apiCalls.push(record);
 
@@ -74,14 +75,52 @@ export function createMockFetch(server: TelegramServer, apiCalls: ApiCallRecord[
         currentResponse._addApiCall(record);
       }
 
+      // Injected network failures: the fetch itself rejects, like a dropped connection
+      if (error instanceof HttpError) {
+        throw error.error;
+      }
+
       return new Response(
         JSON.stringify({
           ok: false,
           error_code: err.code ?? 400,
           description: err.description ?? err.message,
+          ...(err.parameters ? { parameters: err.parameters } : {}),
         }),
         { status: 200, headers: { "Content-Type": "application/json" } },
       );
     }
   };
 }
+
+/**
+ * Serve a file download from FileState, like Telegram's file endpoint.
+ *
+ * @param server Server whose FileState holds the file
+ * @param filePath file_path as returned by getFile
+ */
+export function createFileDownloadResponse(server: TelegramServer, filePath: string): Response {
+  const file = server.fileState.getFileByPath(filePath);
+  if (!file) {
+    return new Response(JSON.stringify({ ok: false, error_code: 404, description: "Not Found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (!server.fileState.isDownloadable(file.fileId)) {
+    return new Response(
+      JSON.stringify({ ok: false, error_code: 400, description: "Bad Request: file is too big" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  const content = file.content ?? new Uint8Array(0);
+  return new Response(content, {
+    status: 200,
+    headers: {
+      "Content-Type": file.mimeType ?? "application/octet-stream",
+      "Content-Length": String(content.length),
+    },
+  });
+}
@@ -10,6 +10,8 @@ export interface StoredStarTransaction {
   source?: {
     type: "user";
     user: User;
+    /** Subscription period in seconds (for subscription payments) */
+    subscription_period?: number;
   };
   receiver?: {
     type: "user";
@@ -43,6 +45,7 @@ export class PaymentState {
     options: {
       sourceUser?: User;
       receiverUser?: User;
+      subscriptionPeriod?: number;
     } = {},
   ): StoredStarTransaction {
     const userTransactions = this.getUserTransactions(userId);
@@ -56,6 +59,9 @@ export class PaymentState {
 
     if (options.sourceUser) {
       transaction.source = { type: "user", user: options.sourceUser };
+      if (options.subscriptionPeriod !== undefined) {
+        transaction.source.subscription_period = options.subscriptionPeriod;
+      }
     }
     if (options.receiverUser) {
       transaction.receiver = { type: "user", user: options.receiverUser };
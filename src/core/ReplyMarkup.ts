@@ -0,0 +1,190 @@
+/**
+ * Fields that give an inline keyboard button its action (exactly one is required).
+ */
+const INLINE_BUTTON_ACTIONS = [
+  "url",
+  "callback_data",
+  "web_app",
+  "login_url",
+  "switch_inline_query",
+  "switch_inline_query_current_chat",
+  "switch_inline_query_chosen_chat",
+  "copy_text",
+  "callback_game",
+  "pay",
+];
+
+/**
+ * Fields that give a reply keyboard button its action (at most one is allowed).
+ */
+const KEYBOARD_BUTTON_ACTIONS = [
+  "request_users",
+  "request_chat",
+  "request_contact",
+  "request_location",
+  "request_poll",
+  "web_app",
+];
+
+/** Maximum callback_data length in bytes */
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+/** Maximum number of buttons in an inline keyboard */
+const MAX_INLINE_BUTTONS = 100;
+
+/** URL protocols Telegram accepts for buttons */
+const BUTTON_URL_PROTOCOLS = new Set(["http:", "https:", "tg:", "ton:"]);
+
+/**
+ * Options for validating reply markup.
+ */
+export interface ReplyMarkupValidationOptions {
+  /** Type of the chat the markup is sent to (web_app buttons need a private chat) */
+  chatType?: string;
+}
+
+/**
+ * Check reply markup the way Telegram does before sending or editing a message.
+ *
+ * Empty rows are ignored, like Telegram (and grammY's keyboard builders) do.
+ *
+ * @returns Telegram error description, or undefined if the markup is valid
+ */
+export function validateReplyMarkup(
+  markup: unknown,
+  options: ReplyMarkupValidationOptions = {},
+): string | undefined {
+  if (typeof markup !== "object" || markup === null) return undefined;
+  const { inline_keyboard, keyboard } = markup as {
+    inline_keyboard?: unknown;
+    keyboard?: unknown;
+  };
+
+  if (inline_keyboard !== undefined) {
+    return validateInlineKeyboard(inline_keyboard, options);
+  }
+  if (keyboard !== undefined) {
+    return validateKeyboard(keyboard, options);
+  }
+  return undefined;
+}
+
+/**
+ * Check an inline keyboard.
+ */
+function validateInlineKeyboard(
+  rows: unknown,
+  options: ReplyMarkupValidationOptions,
+): string | undefined {
+  if (!Array.isArray(rows)) {
+    return 'Bad Request: field "inline_keyboard" must be of type Array';
+  }
+
+  const buttons = rows.flat() as Record<string, unknown>[];
+  if (buttons.length > MAX_INLINE_BUTTONS) {
+    return "Bad Request: REPLY_MARKUP_TOO_LONG";
+  }
+
+  for (const button of buttons) {
+    if (typeof button?.text !== "string") {
+      return 'Bad Request: can\'t parse inline keyboard button: Field "text" must be of type String';
+    }
+
+    const actions = INLINE_BUTTON_ACTIONS.filter((field) => button[field] !== undefined);
+    if (actions.length === 0) {
+      return "Bad Request: can't parse inline keyboard button: Text buttons are unallowed in the inline keyboard";
+    }
+    if (actions.length > 1) {
+      return "Bad Request: can't parse inline keyboard button: exactly one of the optional fields must be used";
+    }
+
+    const callbackData = button.callback_data;
+    if (
+      callbackData !== undefined &&
+      (typeof callbackData !== "string" ||
+        callbackData.length === 0 ||
+        Buffer.byteLength(callbackData, "utf8") > MAX_CALLBACK_DATA_BYTES)
+    ) {
+      return "Bad Request: BUTTON_DATA_INVALID";
+    }
+
+    if (button.url !== undefined) {
+      const error = checkButtonUrl(button.url);
+      if (error) {
+        return `Bad Request: inline keyboard button URL '${String(button.url)}' is invalid: ${error}`;
+      }
+    }
+
+    if (button.web_app !== undefined && !isPrivateChat(options)) {
+      return "Bad Request: BUTTON_TYPE_INVALID";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a reply keyboard.
+ */
+function validateKeyboard(
+  rows: unknown,
+  options: ReplyMarkupValidationOptions,
+): string | undefined {
+  if (!Array.isArray(rows)) {
+    return 'Bad Request: field "keyboard" must be of type Array';
+  }
+
+  const buttons = rows.flat() as unknown[];
+  if (buttons.length === 0) {
+    return "Bad Request: REPLY_MARKUP_INVALID";
+  }
+
+  for (const button of buttons) {
+    // Plain strings are text buttons
+    if (typeof button === "string") continue;
+
+    const fields = button as Record<string, unknown>;
+    if (typeof fields?.text !== "string") {
+      return 'Bad Request: can\'t parse keyboard button: Field "text" must be of type String';
+    }
+
+    const actions = KEYBOARD_BUTTON_ACTIONS.filter((field) => fields[field] !== undefined);
+    if (actions.length > 1) {
+      return "Bad Request: can't parse keyboard button: at most one of the optional fields must be used";
+    }
+
+    if (fields.web_app !== undefined && !isPrivateChat(options)) {
+      return "Bad Request: BUTTON_TYPE_INVALID";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a button URL.
+ * @returns Reason the URL is invalid, or undefined
+ */
+function checkButtonUrl(url: unknown): string | undefined {
+  if (typeof url !== "string") return "Wrong HTTP URL";
+
+  // Telegram treats URLs without a protocol as http:// links
+  const hasProtocol = /^[a-z][a-z0-9+.-]*:(\/\/|(?!\d))/i.test(url);
+  let parsed: URL;
+  try {
+    parsed = new URL(hasProtocol ? url : `http://${url}`);
+  } catch {
+    return "Wrong HTTP URL";
+  }
+  if (!BUTTON_URL_PROTOCOLS.has(parsed.protocol)) {
+    return "Unsupported URL protocol";
+  }
+  return undefined;
+}
+
+/**
+ * Check if the markup goes to a private chat (unknown chats, e.g. inline messages, are not).
+ */
+function isPrivateChat(options: ReplyMarkupValidationOptions): boolean {
+  return options.chatType === "private";
+}
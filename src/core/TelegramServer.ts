@@ -1,6 +1,9 @@
 import { AsyncLocalStorage } from "node:async_hooks";
+import { HttpError } from "grammy";
 import type {
   Audio,
+  BotCommand,
+  BotCommandScope,
   CallbackQuery,
   Chat,
   ChatAdministratorRights,
@@ -23,17 +26,30 @@ import type {
   Video,
   Voice,
 } from "grammy/types";
+import { UploadedFile } from "./ApiPayload.js";
+import { isApiMethod, validateApiPayload } from "./ApiSchema.js";
 import type { BotResponse } from "./BotResponse.js";
 import { BusinessState } from "./BusinessState.js";
 import { ChatState, type StoredInviteLink } from "./ChatState.js";
-import { FileState } from "./FileState.js";
-import { type ParseMode, parseFormattedText } from "./MarkdownParser.js";
-import { MemberState } from "./MemberState.js";
+import { type Fault, FaultInjector } from "./FaultInjector.js";
+import { FileState, type FileType, guessMimeType, type StoredFile } from "./FileState.js";
+import {
+  type ParsedText,
+  ParseEntitiesError,
+  type ParseMode,
+  parseFormattedText,
+  sortEntities,
+} from "./MarkdownParser.js";
+import { MemberState, type RateLimitCheckResult, type StoredMember } from "./MemberState.js";
+import { validateMessageEntities } from "./MessageEntities.js";
 import { PassportState } from "./PassportState.js";
 import { PaymentState } from "./PaymentState.js";
 import { PollState, type StoredPoll } from "./PollState.js";
+import { validateReplyMarkup } from "./ReplyMarkup.js";
 import { StickerState } from "./StickerState.js";
 import { UpdateFactory } from "./UpdateFactory.js";
+import { UpdateQueue } from "./UpdateQueue.js";
+import { WebhookState } from "./WebhookState.js";
 
 /**
  * Pending callback query tracking.
@@ -84,6 +100,104 @@ const FILE_SIZE_LIMITS = {
   animation: 50 * 1024 * 1024, // 50 MB
 };
 
+/**
+ * Text length limits in UTF-16 code units, counted after entity parsing like Telegram does.
+ */
+const TEXT_LENGTH_LIMITS = {
+  message: 4096,
+  caption: 1024,
+};
+
+/**
+ * Message fields that carry user content. A message without any of them is a
+ * service message (member joined, title changed, pinned message, ...).
+ */
+const USER_CONTENT_FIELDS = [
+  "text",
+  "animation",
+  "audio",
+  "document",
+  "paid_media",
+  "photo",
+  "sticker",
+  "story",
+  "video",
+  "video_note",
+  "voice",
+  "contact",
+  "dice",
+  "game",
+  "poll",
+  "venue",
+  "location",
+  "invoice",
+  "giveaway",
+] as const;
+
+/**
+ * The service account Telegram uses as the sender of automatic forwards.
+ */
+const TELEGRAM_SERVICE_USER: User = { id: 777000, is_bot: false, first_name: "Telegram" };
+
+/**
+ * Methods that post a message to `chat_id` (require `can_post_messages` in channels).
+ */
+const CHANNEL_POST_METHODS = new Set([
+  "sendMessage",
+  "forwardMessage",
+  "forwardMessages",
+  "copyMessage",
+  "copyMessages",
+  "sendPhoto",
+  "sendAudio",
+  "sendDocument",
+  "sendVideo",
+  "sendAnimation",
+  "sendVoice",
+  "sendVideoNote",
+  "sendPaidMedia",
+  "sendMediaGroup",
+  "sendLocation",
+  "sendVenue",
+  "sendContact",
+  "sendPoll",
+  "sendDice",
+  "sendSticker",
+  "sendInvoice",
+]);
+
+/**
+ * Methods that deliver something to `chat_id` (fail for users who blocked the bot).
+ */
+const RECIPIENT_METHODS = new Set([...CHANNEL_POST_METHODS, "sendChatAction", "sendGame"]);
+
+/**
+ * Methods that edit a message in `chat_id` (require edit rights in channels).
+ */
+const CHANNEL_EDIT_METHODS = new Set([
+  "editMessageText",
+  "editMessageCaption",
+  "editMessageMedia",
+  "editMessageReplyMarkup",
+  "editMessageLiveLocation",
+  "stopMessageLiveLocation",
+]);
+
+/**
+ * Methods counted against the rate limits: everything that sends or edits a
+ * message, and callback query answers.
+ */
+const RATE_LIMITED_METHODS = new Set([
+  ...RECIPIENT_METHODS,
+  ...CHANNEL_EDIT_METHODS,
+  "answerCallbackQuery",
+]);
+
+/**
+ * Methods that send a new message (subject to slow mode).
+ */
+const MESSAGE_METHODS = new Set([...CHANNEL_POST_METHODS, "sendGame"]);
+
 /**
  * Simulates a Telegram server.
  *
@@ -101,10 +215,16 @@ export class TelegramServer {
   readonly paymentState: PaymentState;
   readonly passportState: PassportState;
   readonly updateFactory: UpdateFactory;
+  readonly updateQueue: UpdateQueue;
+  readonly webhookState: WebhookState;
+  readonly faultInjector: FaultInjector;
 
   // Bot info
   private botInfo: UserFromGetMe;
 
+  // Validate payloads against the Bot API definitions (setStrictMode)
+  private strictMode = false;
+
   // ID counters
   private updateIdCounter = 1;
   private messageIdCounter = 1;
@@ -116,8 +236,11 @@ export class TelegramServer {
   private pendingInlineQueries = new Map<string, PendingInlineQuery>();
   private messageReactions = new Map<string, MessageReaction>(); // `${chatId}:${messageId}`
 
-  // Bot commands and menu buttons
-  private botCommands: Array<{ command: string; description: string }> = [];
+  // Channel posts sent by the bot ("chatId:messageId")
+  private botChannelPosts = new Set<string>();
+
+  // Bot commands (keyed by scope + language) and menu buttons
+  private botCommands = new Map<string, BotCommand[]>();
   private chatMenuButtons = new Map<number, { type: string }>();
   private defaultMenuButton: { type: string } = { type: "default" };
 
@@ -152,6 +275,9 @@ export class TelegramServer {
     this.paymentState = new PaymentState();
     this.passportState = new PassportState();
     this.updateFactory = new UpdateFactory();
+    this.updateQueue = new UpdateQueue();
+    this.webhookState = new WebhookState();
+    this.faultInjector = new FaultInjector();
   }
 
   // === Helper Methods ===
@@ -279,22 +405,803 @@ export class TelegramServer {
     }
   }
 
+  // === Channels ===
+
+  /**
+   * Sender fields of a message sent by the bot.
+   * Channel posts carry the channel as `sender_chat` instead of `from`, and the
+   * bot's name as `author_signature` when the channel signs its posts.
+   */
+  private getSenderFields(chat: Chat): {
+    from?: User;
+    sender_chat?: Chat;
+    author_signature?: string;
+  } {
+    if (chat.type !== "channel") {
+      return { from: this.botInfo };
+    }
+    return this.cleanObject({
+      sender_chat: chat,
+      author_signature: this.chatState.isSigningMessages(chat.id)
+        ? this.botInfo.first_name
+        : undefined,
+    });
+  }
+
+  /**
+   * Enforce the bot's rights before it posts to or edits a channel.
+   *
+   * Posting needs `can_post_messages`. Editing the bot's own posts needs
+   * `can_post_messages`, editing anyone else's needs `can_edit_messages`.
+   */
+  private checkChannelRights(method: string, payload: Record<string, unknown>): void {
+    const isPost = CHANNEL_POST_METHODS.has(method);
+    const isEdit = CHANNEL_EDIT_METHODS.has(method);
+    if (!isPost && !isEdit) return;
+
+    const chatId = this.parseId(payload.chat_id as string | number | undefined);
+    if (chatId === undefined || this.chatState.get(chatId)?.chat.type !== "channel") return;
+
+    const botMember = this.memberState.getMember(chatId, this.botInfo.id);
+    if (!botMember || botMember.status === "left" || botMember.status === "kicked") {
+      throw this.createApiError(403, "Forbidden: bot is not a member of the channel chat");
+    }
+
+    if (isPost) {
+      if (!this.checkBotPermission(chatId, "can_post_messages")) {
+        throw this.createApiError(
+          400,
+          "Bad Request: need administrator rights in the channel chat",
+        );
+      }
+      return;
+    }
+
+    const messageId = this.parseId(payload.message_id as string | number | undefined);
+    const isOwnPost = this.botChannelPosts.has(`${chatId}:${messageId}`);
+    if (!this.checkBotPermission(chatId, isOwnPost ? "can_post_messages" : "can_edit_messages")) {
+      throw this.createApiError(400, "Bad Request: message can't be edited");
+    }
+  }
+
+  /**
+   * Remember which channel posts the bot sent (for edit rights) and
+   * forward them to the discussion group.
+   */
+  private recordChannelPosts(result: unknown): void {
+    const messages = Array.isArray(result) ? result : [result];
+    for (const message of messages as Array<Partial<Message>>) {
+      if (message?.chat?.type === "channel" && message.message_id !== undefined) {
+        this.botChannelPosts.add(`${message.chat.id}:${message.message_id}`);
+        this.forwardToDiscussionGroup(message as Message);
+      }
+    }
+  }
+
+  /**
+   * Automatically forward a channel post to the linked discussion group,
+   * like Telegram does for channels with comments. The forward is the root
+   * of the post's comment thread and is sent to the bot as a `message` update.
+   */
+  private forwardToDiscussionGroup(post: Message): Message | undefined {
+    const groupId = this.chatState.getLinkedChatId(post.chat.id);
+    const group = groupId !== undefined ? this.chatState.get(groupId)?.chat : undefined;
+    if (!group) return undefined;
+
+    const {
+      message_id: _messageId,
+      edit_date: _editDate,
+      reply_markup: _replyMarkup,
+      ...content
+    } = post as Message & { reply_markup?: unknown };
+
+    const forward = this.cleanObject({
+      ...content,
+      message_id: this.messageIdCounter++,
+      date: this.timestamp(),
+      chat: group,
+      from: TELEGRAM_SERVICE_USER,
+      sender_chat: post.chat,
+      is_automatic_forward: true as const,
+      forward_origin: this.cleanObject({
+        type: "channel" as const,
+        chat: post.chat,
+        message_id: post.message_id,
+        date: post.date,
+        author_signature: post.author_signature,
+      }),
+    }) as Message;
+
+    this.chatState.storeMessage(group.id, forward);
+    this.chatState.setDiscussionMessageId(post.chat.id, post.message_id, forward.message_id);
+    this.emitUpdate({ update_id: this.getNextUpdateId(), message: forward } as Update);
+    return forward;
+  }
+
+  /**
+   * Simulate a post published in a channel by one of its administrators.
+   */
+  simulateChannelPost(
+    chat: Chat,
+    text: string,
+    options: { parseMode?: ParseMode; authorSignature?: string } = {},
+  ): Update {
+    this.ensureChat(chat);
+
+    let finalText = text;
+    let entities: MessageEntity[] | undefined;
+
+    if (options.parseMode) {
+      const parsed = parseFormattedText(text, options.parseMode);
+      finalText = parsed.text;
+      entities = parsed.entities.length > 0 ? parsed.entities : undefined;
+    }
+
+    const message = this.cleanObject({
+      message_id: this.messageIdCounter++,
+      date: this.timestamp(),
+      chat,
+      sender_chat: chat,
+      author_signature: options.authorSignature,
+      text: finalText,
+      entities,
+    }) as unknown as Message.TextMessage;
+
+    this.chatState.storeMessage(chat.id, message);
+
+    const update = {
+      update_id: this.updateIdCounter++,
+      channel_post: message,
+    } as Update;
+    this.forwardToDiscussionGroup(message);
+    return update;
+  }
+
+  /**
+   * Simulate an administrator editing a channel post.
+   */
+  simulateEditedChannelPost(
+    chat: Chat,
+    messageId: number,
+    text: string,
+    options: { parseMode?: ParseMode } = {},
+  ): Update {
+    const original = this.chatState.getMessage(chat.id, messageId);
+    if (!original) {
+      throw new Error(`Message ${messageId} not found in chat ${chat.id}`);
+    }
+
+    let finalText = text;
+    let entities: MessageEntity[] | undefined;
+
+    if (options.parseMode) {
+      const parsed = parseFormattedText(text, options.parseMode);
+      finalText = parsed.text;
+      entities = parsed.entities.length > 0 ? parsed.entities : undefined;
+    }
+
+    // Edit the stored post in place, like the bot-side edit methods do
+    const message = original as Message.TextMessage;
+    message.text = finalText;
+    message.entities = entities;
+    message.edit_date = this.timestamp();
+    if (!entities) {
+      delete message.entities;
+    }
+
+    return {
+      update_id: this.updateIdCounter++,
+      edited_channel_post: { ...message },
+    } as Update;
+  }
+
+  // === Group Migration ===
+
+  /**
+   * Upgrade a basic group to a supergroup, like Telegram does when a group grows
+   * or an admin changes a supergroup-only setting.
+   *
+   * Members and messages move to the new chat. Both chats receive a service message
+   * (`migrate_to_chat_id` in the old group, `migrate_from_chat_id` in the new one),
+   * and later API calls to the old chat ID fail with `migrate_to_chat_id`.
+   */
+  migrateGroupToSupergroup(chatId: number, options: { from?: User } = {}): Chat.SupergroupChat {
+    const state = this.chatState.get(chatId);
+    if (!state || state.chat.type !== "group") {
+      throw new Error(`Chat ${chatId} is not a basic group`);
+    }
+    if (state.migratedToChatId !== undefined) {
+      throw new Error(`Chat ${chatId} was already migrated to ${state.migratedToChatId}`);
+    }
+
+    const group = state.chat;
+    const supergroup: Chat.SupergroupChat = {
+      id: -(1000000000000 + Math.abs(chatId)),
+      type: "supergroup",
+      title: group.title,
+    };
+    const from =
+      options.from ??
+      this.memberState.getAllMembers(chatId).find((m) => m.status === "creator")?.user ??
+      this.botInfo;
+
+    this.chatState.migrateChat(chatId, supergroup);
+    this.memberState.moveMembers(chatId, supergroup.id);
+
+    const migrateTo = {
+      message_id: this.messageIdCounter++,
+      date: this.timestamp(),
+      chat: group,
+      from,
+      migrate_to_chat_id: supergroup.id,
+    } as Message;
+    const migrateFrom = {
+      message_id: this.messageIdCounter++,
+      date: this.timestamp(),
+      chat: supergroup,
+      from,
+      migrate_from_chat_id: chatId,
+    } as Message;
+    this.chatState.storeMessage(supergroup.id, migrateFrom);
+
+    this.emitUpdate({ update_id: this.getNextUpdateId(), message: migrateTo } as Update);
+    this.emitUpdate({ update_id: this.getNextUpdateId(), message: migrateFrom } as Update);
+    return supergroup;
+  }
+
+  /**
+   * Reject API calls addressed to a basic group that was upgraded to a supergroup.
+   */
+  private checkMigratedChat(payload: Record<string, unknown>): void {
+    const chatId = this.parseId(payload.chat_id as string | number | undefined);
+    if (chatId === undefined) return;
+
+    const migratedTo = this.chatState.getMigratedToChatId(chatId);
+    if (migratedTo !== undefined) {
+      throw this.createApiError(400, "Bad Request: group chat was upgraded to a supergroup chat", {
+        migrate_to_chat_id: migratedTo,
+      });
+    }
+  }
+
+  // === Blocked and Deactivated Users ===
+
+  /**
+   * Simulate a user blocking the bot (or stopping it) in their private chat.
+   * The bot gets a `my_chat_member` update moving it to "kicked", and messages to
+   * the user fail with `403 Forbidden: bot was blocked by the user`.
+   */
+  blockBot(user: User): void {
+    if (this.memberState.hasBlockedBot(user.id)) return;
+    this.memberState.setBlockedBot(user.id, true);
+    this.emitPrivateChatMemberChange(user, "member", "kicked");
+  }
+
+  /**
+   * Simulate a user unblocking (restarting) the bot.
+   */
+  unblockBot(user: User): void {
+    if (!this.memberState.hasBlockedBot(user.id)) return;
+    this.memberState.setBlockedBot(user.id, false);
+    this.emitPrivateChatMemberChange(user, "kicked", "member");
+  }
+
+  /**
+   * Simulate a deleted account. Messages to the user fail with
+   * `403 Forbidden: user is deactivated`.
+   */
+  deactivateUser(user: User): void {
+    this.memberState.setDeactivated(user.id, true);
+  }
+
+  /**
+   * Emit the bot's status change in a user's private chat as `my_chat_member`.
+   */
+  private emitPrivateChatMemberChange(
+    user: User,
+    oldStatus: "member" | "kicked",
+    newStatus: "member" | "kicked",
+  ): void {
+    // Only users who started the bot can block it, so their private chat exists
+    const chat =
+      this.chatState.get(user.id)?.chat ??
+      this.chatState.getOrCreate(
+        this.cleanObject({
+          id: user.id,
+          type: "private" as const,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          username: user.username,
+        }),
+      ).chat;
+    const toMember = (status: "member" | "kicked"): ChatMember =>
+      status === "kicked"
+        ? { status, user: this.botInfo, until_date: 0 }
+        : { status, user: this.botInfo };
+
+    const update = this.updateFactory.createMyChatMemberUpdate(
+      chat,
+      user,
+      toMember(oldStatus),
+      toMember(newStatus),
+    );
+    this.emitUpdate({ ...update, update_id: this.getNextUpdateId() });
+  }
+
+  /**
+   * Reject deliveries to users who blocked the bot or deleted their account.
+   */
+  private checkRecipient(method: string, payload: Record<string, unknown>): void {
+    if (!RECIPIENT_METHODS.has(method)) return;
+
+    // Private chats share the user's ID; group and channel IDs are negative
+    const chatId = this.parseId(payload.chat_id as string | number | undefined);
+    if (chatId === undefined || chatId < 0) return;
+
+    if (this.memberState.isDeactivated(chatId)) {
+      throw this.createApiError(403, "Forbidden: user is deactivated");
+    }
+    if (this.memberState.hasBlockedBot(chatId)) {
+      throw this.createApiError(403, "Forbidden: bot was blocked by the user");
+    }
+  }
+
+  /**
+   * Validate reply markup of sent and edited messages and of inline results.
+   */
+  private checkReplyMarkup(payload: Record<string, unknown>): void {
+    const markups: { markup: unknown; chatType?: string }[] = [];
+    if (payload.reply_markup !== undefined) {
+      const chatId = this.parseId(payload.chat_id as string | number | undefined);
+      // Positive IDs are private chats, even before the chat is known
+      const chatType =
+        chatId === undefined
+          ? undefined
+          : (this.chatState.get(chatId)?.chat.type ?? (chatId > 0 ? "private" : undefined));
+      markups.push({ markup: payload.reply_markup, chatType });
+    }
+
+    // Inline results can be sent to any chat
+    const results = Array.isArray(payload.results) ? payload.results : [payload.result];
+    for (const result of results) {
+      if (typeof result === "object" && result !== null && "reply_markup" in result) {
+        markups.push({ markup: result.reply_markup });
+      }
+    }
+
+    for (const { markup, chatType } of markups) {
+      const description = validateReplyMarkup(markup, { chatType });
+      if (description) {
+        throw this.createApiError(400, description);
+      }
+    }
+  }
+
+  /**
+   * Parse formatted text from a Bot API call, failing like Telegram on malformed markup.
+   */
+  private parseText(text: string, parseMode: ParseMode): ParsedText {
+    try {
+      return parseFormattedText(text, parseMode);
+    } catch (error) {
+      if (error instanceof ParseEntitiesError) {
+        throw this.createApiError(400, `Bad Request: can't parse entities: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the text or caption of a Bot API call with its entities, parsed from
+   * `parse_mode` or taken from the explicit entities field, and check its length.
+   *
+   * Like Telegram, `parse_mode` wins when both are given.
+   *
+   * @param payload Request payload, or an InputMedia object
+   * @param textField Field holding the text
+   * @param entitiesField Field holding explicit entities
+   */
+  private formatPayloadText(
+    payload: Record<string, unknown>,
+    textField: "text" | "caption",
+    entitiesField: "entities" | "caption_entities",
+  ): { text: string | undefined; entities: MessageEntity[] | undefined } {
+    const text = payload[textField] as string | undefined;
+    if (text === undefined) {
+      return { text, entities: undefined };
+    }
+
+    const parseMode = payload.parse_mode as ParseMode | undefined;
+    const explicitEntities = payload[entitiesField];
+    let parsed: ParsedText = { text, entities: [] };
+    if (parseMode) {
+      parsed = this.parseText(text, parseMode);
+    } else if (explicitEntities !== undefined) {
+      parsed = { text, entities: this.checkEntities(text, explicitEntities, entitiesField) };
+    }
+
+    this.checkTextLength(parsed.text, textField === "text" ? "message" : "caption");
+    return {
+      text: parsed.text,
+      entities: parsed.entities.length > 0 ? parsed.entities : undefined,
+    };
+  }
+
+  /**
+   * Validate explicit entities against their text.
+   *
+   * @returns A sorted copy of the entities
+   */
+  private checkEntities(text: string, entities: unknown, field: string): MessageEntity[] {
+    const description = validateMessageEntities(text, entities, field);
+    if (description) {
+      throw this.createApiError(400, description);
+    }
+    return sortEntities(structuredClone(entities as MessageEntity[]));
+  }
+
+  /**
+   * Check text or a caption against Telegram's length limit.
+   *
+   * @param text Text after entity parsing; JavaScript string lengths are UTF-16 code
+   * units, which is what Telegram counts
+   */
+  private checkTextLength(text: string | undefined, kind: keyof typeof TEXT_LENGTH_LIMITS): void {
+    if (text === undefined || text.length <= TEXT_LENGTH_LIMITS[kind]) return;
+    throw this.createApiError(
+      400,
+      kind === "message"
+        ? "Bad Request: message is too long"
+        : "Bad Request: message caption is too long",
+    );
+  }
+
+  /**
+   * Count sends, edits and callback answers against the rate limits. Returns a function
+   * that gives the budget back if the call fails.
+   */
+  private checkRateLimit(
+    method: string,
+    payload: Record<string, unknown>,
+  ): (() => void) | undefined {
+    if (!RATE_LIMITED_METHODS.has(method)) return undefined;
+
+    const options = { method, paidBroadcast: payload.allow_paid_broadcast === true };
+    let result: RateLimitCheckResult;
+    if (payload.chat_id === undefined) {
+      result = this.memberState.checkGlobalRateLimit(options);
+    } else {
+      const chatId = this.parseId(payload.chat_id as string | number | undefined);
+      const chatData = chatId !== undefined ? this.chatState.get(chatId) : undefined;
+      // Unknown chats fail with "chat not found" in the handler
+      if (!chatData) return undefined;
+
+      result = this.memberState.checkRateLimit(
+        chatData.chat.id,
+        this.botInfo.id,
+        chatData.chat.type,
+        MESSAGE_METHODS.has(method) ? this.chatState.getSlowModeDelay(chatData.chat.id) : 0,
+        options,
+      );
+    }
+
+    if (!result.allowed) {
+      throw this.createApiError(429, `Too Many Requests: retry after ${result.retryAfter}`, {
+        retry_after: result.retryAfter,
+      });
+    }
+    return result.refund;
+  }
+
+  // === Server-Generated Updates ===
+
+  /**
+   * Send an update generated by the server (chat_member, my_chat_member, ...) to the bot.
+   *
+   * Updates excluded by `allowed_updates` or hidden by privacy mode are dropped, like
+   * Telegram does. Inside a simulated user action the update is recorded on the
+   * response and TestBot handles it once the current update is done; otherwise it is
+   * queued for getUpdates/webhooks.
+   */
+  emitUpdate(update: Update): void {
+    if (!this.updateQueue.isAllowed(update) || this.isHiddenByPrivacyMode(update)) return;
+    const response = this.currentResponse;
+    if (response) {
+      response.generatedUpdates.push(update);
+    } else {
+      this.updateQueue.push(update);
+    }
+  }
+
+  /**
+   * Apply a membership change and emit the resulting chat_member update
+   * (my_chat_member when the bot itself is affected).
+   */
+  private trackMemberChange<T>(
+    chatId: number,
+    userId: number,
+    change: () => T,
+    options: { viaJoinRequest?: boolean; from?: User; inviteLink?: ChatInviteLink } = {},
+  ): T {
+    const before = this.memberState.toChatMember(chatId, userId);
+    const result = change();
+    const after = this.memberState.toChatMember(chatId, userId);
+    const chat = this.chatState.get(chatId)?.chat;
+
+    if (!chat || !after || JSON.stringify(before) === JSON.stringify(after)) {
+      return result;
+    }
+
+    const oldMember: ChatMember = before ?? { status: "left", user: after.user };
+    const update =
+      userId === this.botInfo.id
+        ? this.updateFactory.createMyChatMemberUpdate(chat, this.botInfo, oldMember, after)
+        : this.updateFactory.createChatMemberUpdate(
+            chat,
+            options.from ?? this.botInfo,
+            oldMember,
+            after,
+            { viaJoinRequest: options.viaJoinRequest, inviteLink: options.inviteLink },
+          );
+    // The factory keeps its own counters; keep update ids in the server's sequence
+    this.emitUpdate({ ...update, update_id: this.getNextUpdateId() });
+    return result;
+  }
+
+  /**
+   * Add a user who opened an invite link to the chat, counting the link's usage and
+   * emitting the chat_member update with `invite_link` (subject to allowed_updates).
+   *
+   * @param apply Further changes made to the new member (e.g. a subscription's until_date)
+   */
+  joinChatViaInviteLink(
+    chatId: number,
+    user: User,
+    inviteLink: string,
+    apply?: (member: StoredMember) => void,
+  ): void {
+    this.chatState.useInviteLink(chatId, inviteLink, user.id);
+    const link = this.chatState.getInviteLink(chatId, inviteLink);
+    this.trackMemberChange(
+      chatId,
+      user.id,
+      () => apply?.(this.memberState.setMember(chatId, user, "member")),
+      { from: user, inviteLink: link && this.chatState.toChatInviteLink(link) },
+    );
+  }
+
+  // === Privacy Mode ===
+
+  /**
+   * Check whether privacy mode keeps an update from the bot.
+   *
+   * With privacy mode on (`can_read_all_group_messages: false`), a bot that is not
+   * an administrator only receives these group messages: commands (unless addressed
+   * to another bot), replies to its messages, messages mentioning it, messages sent
+   * via the bot and service messages.
+   */
+  isHiddenByPrivacyMode(update: Update): boolean {
+    const message = update.message ?? update.edited_message;
+    if (!message) return false;
+    if (message.chat.type !== "group" && message.chat.type !== "supergroup") return false;
+    if (this.botInfo.can_read_all_group_messages) return false;
+    if (this.memberState.isAdmin(message.chat.id, this.botInfo.id)) return false;
+    return !this.isMeantForBot(message);
+  }
+
+  /**
+   * Check whether a group message gets through privacy mode.
+   */
+  private isMeantForBot(message: Message): boolean {
+    const isServiceMessage = !USER_CONTENT_FIELDS.some((field) => field in message);
+    if (isServiceMessage) return true;
+    if (message.reply_to_message?.from?.id === this.botInfo.id) return true;
+    if (message.via_bot?.id === this.botInfo.id) return true;
+
+    const text = message.text ?? message.caption ?? "";
+    const entities = message.entities ?? message.caption_entities ?? [];
+    if (entities.some((e) => e.type === "text_mention" && e.user.id === this.botInfo.id)) {
+      return true;
+    }
+
+    const username = this.botInfo.username.toLowerCase();
+    const command = text.match(/^\/[A-Za-z0-9_]+(?:@([A-Za-z0-9_]+))?/);
+    if (command && (!command[1] || command[1].toLowerCase() === username)) {
+      return true;
+    }
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9_@]+/)
+      .includes(`@${username}`);
+  }
+
+  // === Bot Commands ===
+
+  /**
+   * Get the command menu a user sees in a chat.
+   *
+   * Follows Telegram's fallback order: chat member, chat administrators (admins only),
+   * chat, all chat administrators (admins only), all group chats / all private chats,
+   * default. Each scope is tried with the language first, then without.
+   *
+   * @param userId User looking at the menu
+   * @param chatId Chat the menu is shown in
+   * @param languageCode User language (default: the user's stored language_code)
+   */
+  getCommandsForUser(userId: number, chatId: number, languageCode?: string): BotCommand[] {
+    const chatData = this.chatState.get(chatId);
+    const member = this.memberState.getMember(chatId, userId);
+    const language = languageCode ?? member?.user.language_code;
+
+    const scope: BotCommandScope =
+      chatData && chatData.chat.type !== "private"
+        ? { type: "chat_member", chat_id: chatId, user_id: userId }
+        : { type: "chat", chat_id: chatId };
+
+    return this.resolveCommands(this.getCommandScopeChain(scope), language);
+  }
+
+  /**
+   * Get the scopes Telegram checks, in order, when resolving commands for a scope.
+   */
+  private getCommandScopeChain(scope: BotCommandScope): BotCommandScope[] {
+    const defaultScope: BotCommandScope = { type: "default" };
+    const groups: BotCommandScope = { type: "all_group_chats" };
+
+    switch (scope.type) {
+      case "default":
+        return [scope];
+      case "all_private_chats":
+      case "all_group_chats":
+        return [scope, defaultScope];
+      case "all_chat_administrators":
+        return [scope, groups, defaultScope];
+      case "chat": {
+        const chatId = this.parseId(scope.chat_id);
+        const isPrivate = this.chatState.get(chatId ?? 0)?.chat.type === "private";
+        return [scope, isPrivate ? { type: "all_private_chats" } : groups, defaultScope];
+      }
+      case "chat_administrators":
+        return [
+          scope,
+          { type: "chat", chat_id: scope.chat_id },
+          { type: "all_chat_administrators" },
+          groups,
+          defaultScope,
+        ];
+      case "chat_member": {
+        const chatId = this.parseId(scope.chat_id) ?? 0;
+        const isAdmin = this.memberState.isAdmin(chatId, scope.user_id);
+        const chain: BotCommandScope[] = [scope];
+        if (isAdmin) chain.push({ type: "chat_administrators", chat_id: scope.chat_id });
+        chain.push({ type: "chat", chat_id: scope.chat_id });
+        if (isAdmin) chain.push({ type: "all_chat_administrators" });
+        chain.push(groups, defaultScope);
+        return chain;
+      }
+    }
+  }
+
+  /**
+   * Return the first command list set along a scope chain.
+   */
+  private resolveCommands(chain: BotCommandScope[], languageCode?: string): BotCommand[] {
+    for (const scope of chain) {
+      if (languageCode) {
+        const localized = this.botCommands.get(this.commandKey(scope, languageCode));
+        if (localized) return localized;
+      }
+      const commands = this.botCommands.get(this.commandKey(scope));
+      if (commands) return commands;
+    }
+    return [];
+  }
+
+  /**
+   * Storage key for a command scope + language.
+   */
+  private commandKey(scope: BotCommandScope, languageCode?: string): string {
+    const chatId = "chat_id" in scope ? (this.parseId(scope.chat_id) ?? scope.chat_id) : "";
+    const userId = "user_id" in scope ? scope.user_id : "";
+    return `${scope.type}:${chatId}:${userId}:${languageCode ?? ""}`;
+  }
+
   // === Time Simulation ===
 
   /**
    * Advance simulated time by seconds.
+   *
+   * Timed transitions that fall due on the way fire in chronological order, each at
+   * its own point in time: polls reaching `close_date` (or their `open_period`) are
+   * closed with a `poll` update, and restrictions and bans reaching `until_date` are
+   * lifted. Invite links and boosts expire by comparing against the same clock.
    */
   advanceTime(seconds: number): void {
-    this.memberState.advanceTime(seconds);
-    this.pollState.advanceTime(seconds);
+    this.runClockUntil(this.memberState.getCurrentTime() + seconds * 1000);
   }
 
   /**
    * Set simulated current time.
+   * Moving forward fires due transitions like `advanceTime()`.
    */
   setCurrentTime(time: number): void {
+    if (time > this.memberState.getCurrentTime()) {
+      this.runClockUntil(time);
+    } else {
+      this.setClocks(time);
+    }
+  }
+
+  /**
+   * Set the clocks of all state managers.
+   */
+  private setClocks(time: number): void {
     this.memberState.setCurrentTime(time);
     this.pollState.setCurrentTime(time);
+    this.chatState.setCurrentTime(time);
+  }
+
+  /**
+   * Move the clocks forward to `time`, firing timed transitions as they fall due.
+   */
+  private runClockUntil(time: number): void {
+    const until = Math.floor(time / 1000);
+    for (;;) {
+      const next = this.getNextTimedTransition(until);
+      if (!next) break;
+      // Overdue transitions (e.g. a until_date set in the past) fire right away
+      this.setClocks(Math.max(this.memberState.getCurrentTime(), next.at * 1000));
+      next.fire();
+    }
+    this.setClocks(time);
+  }
+
+  /**
+   * Find the earliest timed transition due no later than `until` (Unix time).
+   * Firing a transition changes the state it was derived from, so it is not found again.
+   */
+  private getNextTimedTransition(until: number): { at: number; fire: () => void } | undefined {
+    let next: { at: number; fire: () => void } | undefined;
+    const consider = (at: number, fire: () => void) => {
+      if (at <= until && (!next || at < next.at)) {
+        next = { at, fire };
+      }
+    };
+
+    for (const stored of this.pollState.getAllPolls()) {
+      const closeDate = stored.poll.close_date;
+      if (closeDate && !stored.isStopped && !stored.poll.is_closed) {
+        consider(closeDate, () => this.closeExpiredPoll(stored.poll.id));
+      }
+    }
+
+    for (const { chatId, member } of this.memberState.getTemporaryMembers()) {
+      consider(member.until_date, () =>
+        this.trackMemberChange(chatId, member.user.id, () => {
+          if (member.status === "restricted") {
+            this.memberState.unrestrict(chatId, member.user.id);
+          } else {
+            this.memberState.unban(chatId, member.user.id);
+          }
+        }),
+      );
+    }
+
+    return next;
+  }
+
+  /**
+   * Close a poll whose `close_date` has passed and tell the bot, if it sent the poll.
+   */
+  private closeExpiredPoll(pollId: string): void {
+    const stored = this.pollState.getStoredPoll(pollId);
+    const poll = this.pollState.stopPoll(pollId);
+    if (!stored || !poll) return;
+
+    // Bots only receive poll updates for polls they sent
+    if (stored.creatorId === this.botInfo.id) {
+      this.emitUpdate({ update_id: this.getNextUpdateId(), poll: { ...poll } });
+    }
   }
 
   /**
@@ -304,19 +1211,112 @@ export class TelegramServer {
     return Math.floor(this.memberState.getCurrentTime() / 1000);
   }
 
+  /**
+   * Telegram treats an `until_date` less than 30 seconds or more than 366 days from now
+   * as forever, which is stored as 0.
+   */
+  private normalizeUntilDate(untilDate: number | undefined): number | undefined {
+    if (!untilDate) return untilDate;
+    const remaining = untilDate - this.timestamp();
+    return remaining < 30 || remaining > 366 * 86400 ? 0 : untilDate;
+  }
+
   // === API Handler ===
 
   /**
    * Handle incoming API calls from the bot.
    */
   async handleApiCall(method: string, payload: Record<string, unknown>): Promise<unknown> {
+    for (const fault of this.faultInjector.fire(method, payload)) {
+      this.applyFault(method, fault);
+    }
+
     const handler = this.apiHandlers[method];
+    if (this.strictMode) {
+      this.validatePayload(method, payload, handler !== undefined);
+    }
     if (!handler) {
       // For unhandled methods, return a generic success
       console.warn(`[grammy-test] Unhandled API method: ${method}`);
       return true;
     }
-    return handler(payload);
+    this.checkMigratedChat(payload);
+    this.checkRecipient(method, payload);
+    this.checkChannelRights(method, payload);
+    this.checkReplyMarkup(payload);
+    // Calls Telegram rejects, e.g. with 400 Bad Request, don't use up the rate limits
+    const refund = this.checkRateLimit(method, payload);
+    let result: unknown;
+    try {
+      result = await handler(payload);
+    } catch (error) {
+      refund?.();
+      throw error;
+    }
+    if (CHANNEL_POST_METHODS.has(method)) {
+      this.recordChannelPosts(result);
+    }
+    return result;
+  }
+
+  // === Strict Mode ===
+
+  /**
+   * Enable or disable strict mode. In strict mode every payload is checked against
+   * the Bot API definition of its method, and methods the server doesn't simulate
+   * throw instead of returning `true`.
+   */
+  setStrictMode(enabled: boolean): void {
+    this.strictMode = enabled;
+  }
+
+  /**
+   * Check if strict mode is enabled.
+   */
+  isStrictMode(): boolean {
+    return this.strictMode;
+  }
+
+  /**
+   * Reject invalid payloads and unknown or unimplemented methods (strict mode).
+   */
+  private validatePayload(
+    method: string,
+    payload: Record<string, unknown>,
+    implemented: boolean,
+  ): void {
+    if (!isApiMethod(method)) {
+      throw this.createApiError(404, "Not Found");
+    }
+    const description = validateApiPayload(method, payload);
+    if (description) {
+      throw this.createApiError(400, description);
+    }
+    if (!implemented) {
+      throw new Error(`${method} is not implemented by the test server`);
+    }
+  }
+
+  /**
+   * Apply an injected fault: delays move the simulated clock, everything else throws.
+   */
+  private applyFault(method: string, fault: Fault): void {
+    switch (fault.type) {
+      case "delay":
+        this.advanceTime(fault.seconds);
+        return;
+      case "rate_limit":
+        throw this.createApiError(429, `Too Many Requests: retry after ${fault.retryAfter}`, {
+          retry_after: fault.retryAfter,
+        });
+      case "network":
+        throw new HttpError(
+          `Network request for '${method}' failed!`,
+          new Error(fault.message ?? "socket hang up"),
+        );
+      case "error":
+        throw this.createApiError(fault.code, fault.description, fault.parameters);
+    }
   }
 
   // === Update Simulation ===
@@ -330,6 +1330,7 @@ export class TelegramServer {
     text: string,
     options: {
       parseMode?: ParseMode;
+      entities?: MessageEntity[];
       replyToMessageId?: number;
       messageThreadId?: number;
     } = {},
@@ -344,6 +1345,9 @@ export class TelegramServer {
       const parsed = parseFormattedText(text, options.parseMode);
       finalText = parsed.text;
       entities = parsed.entities.length > 0 ? parsed.entities : undefined;
+    } else if (options.entities) {
+      entities = this.checkEntities(text, options.entities, "entities");
+      if (entities.length === 0) entities = undefined;
     }
 
     const message = this.cleanObject({
@@ -903,6 +1907,7 @@ export class TelegramServer {
       fileSize?: number;
       caption?: string;
       parseMode?: ParseMode;
+      captionEntities?: MessageEntity[];
       replyToMessageId?: number;
     } = {},
   ): Update {
@@ -927,6 +1932,9 @@ export class TelegramServer {
       const parsed = parseFormattedText(caption, options.parseMode);
       caption = parsed.text;
       captionEntities = parsed.entities.length > 0 ? parsed.entities : undefined;
+    } else if (options.captionEntities && caption !== undefined) {
+      captionEntities = this.checkEntities(caption, options.captionEntities, "caption_entities");
+      if (captionEntities.length === 0) captionEntities = undefined;
     }
 
     const message = this.cleanObject({
@@ -963,6 +1971,7 @@ export class TelegramServer {
       fileSize?: number;
       caption?: string;
       parseMode?: ParseMode;
+      captionEntities?: MessageEntity[];
       replyToMessageId?: number;
     } = {},
   ): Update {
@@ -987,6 +1996,9 @@ export class TelegramServer {
       const parsed = parseFormattedText(caption, options.parseMode);
       caption = parsed.text;
       captionEntities = parsed.entities.length > 0 ? parsed.entities : undefined;
+    } else if (options.captionEntities && caption !== undefined) {
+      captionEntities = this.checkEntities(caption, options.captionEntities, "caption_entities");
+      if (captionEntities.length === 0) captionEntities = undefined;
     }
 
     const message = this.cleanObject({
@@ -1523,11 +2535,16 @@ export class TelegramServer {
     this.pendingCallbackQueries.clear();
     this.pendingInlineQueries.clear();
     this.messageReactions.clear();
+    this.botCommands.clear();
+    this.botChannelPosts.clear();
     this.chatState.reset();
     this.memberState.reset();
     this.pollState.reset();
     this.fileState.reset();
     this.updateFactory.reset();
+    this.updateQueue.reset();
+    this.webhookState.reset();
+    this.faultInjector.reset();
     // Note: currentResponse is managed by AsyncLocalStorage and doesn't need resetting
   }
 
@@ -1546,28 +2563,115 @@ export class TelegramServer {
   private apiHandlers: Record<string, (payload: Record<string, unknown>) => unknown> = {
     getMe: () => this.botInfo,
 
-    getUpdates: () => {
-      // Used by polling - return empty by default
-      return [];
+    getUpdates: async (payload) => {
+      const offset = (payload.offset as number | undefined) ?? 0;
+      const limit = (payload.limit as number | undefined) ?? 100;
+      const timeout = (payload.timeout as number | undefined) ?? 0;
+      const allowedUpdates = payload.allowed_updates as string[] | undefined;
+
+      if (this.webhookState.isActive()) {
+        throw this.createApiError(
+          409,
+          "Conflict: can't use getUpdates method while webhook is active; use deleteWebhook to delete the webhook first",
+        );
+      }
+
+      // Only one getUpdates request may be open at a time; a new one
+      // terminates the request that is still waiting
+      this.updateQueue.terminateWaiters(
+        this.createApiError(
+          409,
+          "Conflict: terminated by other getUpdates request; make sure that only one bot instance is running",
+        ),
+      );
+
+      // Omitted allowed_updates keeps the previous setting
+      if (allowedUpdates !== undefined) {
+        this.updateQueue.setAllowedUpdates(allowedUpdates);
+      }
+
+      return this.updateQueue.getUpdates(offset, limit, timeout);
     },
 
-    deleteWebhook: () => true,
+    setWebhook: (payload) => {
+      const url = (payload.url as string | undefined) ?? "";
+      const secretToken = payload.secret_token as string | undefined;
+      const allowedUpdates = payload.allowed_updates as string[] | undefined;
 
-    setWebhook: () => true,
+      // An empty URL removes the webhook
+      if (url === "") {
+        this.webhookState.deleteWebhook();
+        if (payload.drop_pending_updates) {
+          this.updateQueue.clear();
+        }
+        return true;
+      }
 
-    getWebhookInfo: () => ({
-      url: "",
-      has_custom_certificate: false,
-      pending_update_count: 0,
-    }),
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw this.createApiError(400, "Bad Request: invalid webhook URL specified");
+      }
+      // Plain HTTP is accepted so tests can deliver to local servers
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        throw this.createApiError(
+          400,
+          "Bad Request: bad webhook: An HTTPS URL must be provided for webhook",
+        );
+      }
+
+      if (
+        secretToken !== undefined &&
+        (secretToken.length < 1 ||
+          secretToken.length > 256 ||
+          !/^[A-Za-z0-9_-]+$/.test(secretToken))
+      ) {
+        throw this.createApiError(400, "Bad Request: secret token contains unallowed characters");
+      }
+
+      const maxConnections = payload.max_connections as number | undefined;
+      if (maxConnections !== undefined && (maxConnections < 1 || maxConnections > 100)) {
+        throw this.createApiError(400, "Bad Request: invalid max_connections specified");
+      }
+
+      this.webhookState.setWebhook(url, {
+        secretToken,
+        maxConnections,
+        ipAddress: payload.ip_address as string | undefined,
+        hasCustomCertificate: payload.certificate !== undefined,
+        allowedUpdates,
+        dropPendingUpdates: payload.drop_pending_updates === true,
+      });
+
+      // Telegram shares the allowed_updates setting between getUpdates and webhooks
+      if (allowedUpdates !== undefined) {
+        this.updateQueue.setAllowedUpdates(allowedUpdates);
+      }
+      if (payload.drop_pending_updates) {
+        this.updateQueue.clear();
+      }
+      // Switching to webhooks ends any open long poll
+      this.updateQueue.releaseWaiters();
+
+      return true;
+    },
+
+    deleteWebhook: (payload) => {
+      this.webhookState.deleteWebhook();
+      if (payload.drop_pending_updates) {
+        this.updateQueue.clear();
+      }
+      return true;
+    },
+
+    getWebhookInfo: () => this.webhookState.getWebhookInfo(this.updateQueue.pendingCount),
 
     // === Messages ===
 
     sendMessage: (payload) => {
       const chatId = this.requireId(payload.chat_id as string | number, "chat_id");
-      const text = payload.text as string;
       const replyMarkup = payload.reply_markup;
-      const parseMode = payload.parse_mode as ParseMode | undefined;
       const replyToMessageId = this.parseId(
         payload.reply_to_message_id as string | number | undefined,
       );
@@ -1575,29 +2679,11 @@ export class TelegramServer {
         payload.message_thread_id as string | number | undefined,
       );
 
-      // Validate message length (max 4096 characters)
-      if (text && text.length > 4096) {
-        throw this.createApiError(400, "Bad Request: message is too long");
-      }
-
       const chatData = this.chatState.get(chatId);
       if (!chatData) {
         throw this.createApiError(400, "Bad Request: chat not found");
       }
 
-      // Check rate limits
-      const rateCheck = this.memberState.checkRateLimit(
-        chatId,
-        this.botInfo.id,
-        chatData.chat.type,
-        this.chatState.getSlowModeDelay(chatId),
-      );
-      if (!rateCheck.allowed) {
-        throw this.createApiError(429, `Too Many Requests: retry after ${rateCheck.retryAfter}`, {
-          retry_after: rateCheck.retryAfter,
-        });
-      }
-
       // Check if chat is locked
       if (this.chatState.isLocked(chatId)) {
         throw this.createApiError(
@@ -1606,22 +2692,13 @@ export class TelegramServer {
         );
       }
 
-      let finalText = text;
-      let entities: MessageEntity[] | undefined;
-
-      if (parseMode) {
-        const parsed = parseFormattedText(text, parseMode);
-        finalText = parsed.text;
-        entities = parsed.entities.length > 0 ? parsed.entities : undefined;
-      } else if (payload.entities) {
-        entities = payload.entities as MessageEntity[];
-      }
+      const { text: finalText, entities } = this.formatPayloadText(payload, "text", "entities");
 
       const message = this.cleanObject({
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         text: finalText,
         entities,
         reply_markup: replyMarkup,
@@ -1696,13 +2773,29 @@ export class TelegramServer {
         message_id: newMessageId,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
       } as Message;
 
       // Remove forward info (it's a copy, not forward)
       delete (message as unknown as Record<string, unknown>).forward_date;
       delete (message as unknown as Record<string, unknown>).forward_from;
 
+      // A new caption replaces the original one and its entities
+      if (payload.caption !== undefined) {
+        const { text: caption, entities: captionEntities } = this.formatPayloadText(
+          payload,
+          "caption",
+          "caption_entities",
+        );
+        const msgAny = message as unknown as Record<string, unknown>;
+        msgAny.caption = caption;
+        if (captionEntities) {
+          msgAny.caption_entities = captionEntities;
+        } else {
+          delete msgAny.caption_entities;
+        }
+      }
+
       this.chatState.storeMessage(chatId, message);
 
       if (this.currentResponse) {
@@ -1715,8 +2808,6 @@ export class TelegramServer {
     editMessageText: (payload) => {
       const chatId = this.parseId(payload.chat_id as string | number | undefined);
       const messageId = this.parseId(payload.message_id as string | number | undefined);
-      const text = payload.text as string;
-      const parseMode = payload.parse_mode as ParseMode | undefined;
       const replyMarkup = payload.reply_markup;
 
       if (chatId && messageId) {
@@ -1725,22 +2816,18 @@ export class TelegramServer {
           throw this.createApiError(400, "Bad Request: message not found");
         }
 
-        let finalText = text;
-        let entities: MessageEntity[] | undefined;
-
-        if (parseMode) {
-          const parsed = parseFormattedText(text, parseMode);
-          finalText = parsed.text;
-          entities = parsed.entities.length > 0 ? parsed.entities : undefined;
-        }
+        const { text, entities } = this.formatPayloadText(payload, "text", "entities");
 
-        (message as Message.TextMessage).text = finalText;
+        (message as Message.TextMessage).text = text as string;
         if (entities) {
           (message as Message.TextMessage).entities = entities;
+        } else {
+          delete (message as Message.TextMessage).entities;
         }
         if (replyMarkup) {
           (message as unknown as Record<string, unknown>).reply_markup = replyMarkup;
         }
+        message.edit_date = this.timestamp();
 
         if (this.currentResponse) {
           this.currentResponse._addEditedMessage(message);
@@ -1755,8 +2842,6 @@ export class TelegramServer {
     editMessageCaption: (payload) => {
       const chatId = this.parseId(payload.chat_id as string | number | undefined);
       const messageId = this.parseId(payload.message_id as string | number | undefined);
-      const caption = payload.caption as string | undefined;
-      const parseMode = payload.parse_mode as ParseMode | undefined;
       const replyMarkup = payload.reply_markup;
 
       if (chatId && messageId) {
@@ -1765,22 +2850,23 @@ export class TelegramServer {
           throw this.createApiError(400, "Bad Request: message not found");
         }
 
-        let finalCaption = caption;
-        let captionEntities: MessageEntity[] | undefined;
-
-        if (parseMode && caption) {
-          const parsed = parseFormattedText(caption, parseMode);
-          finalCaption = parsed.text;
-          captionEntities = parsed.entities.length > 0 ? parsed.entities : undefined;
-        }
+        const { text: caption, entities: captionEntities } = this.formatPayloadText(
+          payload,
+          "caption",
+          "caption_entities",
+        );
 
-        (message as unknown as Record<string, unknown>).caption = finalCaption;
+        const msgAny = message as unknown as Record<string, unknown>;
+        msgAny.caption = caption;
         if (captionEntities) {
-          (message as unknown as Record<string, unknown>).caption_entities = captionEntities;
+          msgAny.caption_entities = captionEntities;
+        } else {
+          delete msgAny.caption_entities;
         }
         if (replyMarkup) {
-          (message as unknown as Record<string, unknown>).reply_markup = replyMarkup;
+          msgAny.reply_markup = replyMarkup;
         }
+        message.edit_date = this.timestamp();
 
         if (this.currentResponse) {
           this.currentResponse._addEditedMessage(message);
@@ -1956,6 +3042,7 @@ export class TelegramServer {
         bio: chatData.bio,
         has_protected_content: false,
         is_forum: chatData.isForum,
+        linked_chat_id: chatData.linkedChatId,
       });
     },
 
@@ -2043,7 +3130,7 @@ export class TelegramServer {
     banChatMember: (payload) => {
       const chatId = this.requireId(payload.chat_id as string | number, "chat_id");
       const userId = this.requireId(payload.user_id as string | number, "user_id");
-      const untilDate = payload.until_date as number | undefined;
+      const untilDate = this.normalizeUntilDate(payload.until_date as number | undefined);
 
       if (!this.chatState.has(chatId)) {
         throw this.createApiError(400, "Bad Request: chat not found");
@@ -2064,7 +3151,10 @@ export class TelegramServer {
         }
       }
 
-      if (!this.memberState.ban(chatId, userId, untilDate)) {
+      const banned = this.trackMemberChange(chatId, userId, () =>
+        this.memberState.ban(chatId, userId, untilDate),
+      );
+      if (!banned) {
         throw this.createApiError(400, "Bad Request: can't ban this user");
       }
 
@@ -2082,7 +3172,7 @@ export class TelegramServer {
       // Check bot has permission to restrict members
       this.requireBotPermission(chatId, "can_restrict_members", "restrict/unrestrict chat member");
 
-      this.memberState.unban(chatId, userId);
+      this.trackMemberChange(chatId, userId, () => this.memberState.unban(chatId, userId));
       return true;
     },
 
@@ -2098,9 +3188,10 @@ export class TelegramServer {
           ? (payloadPerms.permissions as ChatPermissions)
           : payloadPerms;
       // until_date might be at root or inside the permissions wrapper
-      const untilDate =
+      const untilDate = this.normalizeUntilDate(
         (payload.until_date as number | undefined) ??
-        (payloadPerms && "until_date" in payloadPerms ? payloadPerms.until_date : undefined);
+          (payloadPerms && "until_date" in payloadPerms ? payloadPerms.until_date : undefined),
+      );
 
       if (!this.chatState.has(chatId)) {
         throw this.createApiError(400, "Bad Request: chat not found");
@@ -2118,7 +3209,10 @@ export class TelegramServer {
         throw this.createApiError(400, "Bad Request: can't restrict self-administrator");
       }
 
-      if (!this.memberState.restrict(chatId, userId, permissions, untilDate)) {
+      const restricted = this.trackMemberChange(chatId, userId, () =>
+        this.memberState.restrict(chatId, userId, permissions, untilDate),
+      );
+      if (!restricted) {
         throw this.createApiError(400, "Bad Request: can't restrict this user");
       }
 
@@ -2146,25 +3240,29 @@ export class TelegramServer {
         ([key, value]) => key.startsWith("can_") && value === true,
       );
 
-      if (hasAnyRight) {
-        this.memberState.setAdmin(chatId, member.user, {
-          can_manage_chat: payload.can_manage_chat as boolean | undefined,
-          can_delete_messages: payload.can_delete_messages as boolean | undefined,
-          can_manage_video_chats: payload.can_manage_video_chats as boolean | undefined,
-          can_restrict_members: payload.can_restrict_members as boolean | undefined,
-          can_promote_members: payload.can_promote_members as boolean | undefined,
-          can_change_info: payload.can_change_info as boolean | undefined,
-          can_invite_users: payload.can_invite_users as boolean | undefined,
-          can_post_stories: payload.can_post_stories as boolean | undefined,
-          can_edit_stories: payload.can_edit_stories as boolean | undefined,
-          can_delete_stories: payload.can_delete_stories as boolean | undefined,
-          can_pin_messages: payload.can_pin_messages as boolean | undefined,
-          can_manage_topics: payload.can_manage_topics as boolean | undefined,
-        });
-      } else {
-        // Demote
-        this.memberState.demote(chatId, userId);
-      }
+      this.trackMemberChange(chatId, userId, () => {
+        if (hasAnyRight) {
+          this.memberState.setAdmin(chatId, member.user, {
+            can_manage_chat: payload.can_manage_chat as boolean | undefined,
+            can_delete_messages: payload.can_delete_messages as boolean | undefined,
+            can_manage_video_chats: payload.can_manage_video_chats as boolean | undefined,
+            can_restrict_members: payload.can_restrict_members as boolean | undefined,
+            can_promote_members: payload.can_promote_members as boolean | undefined,
+            can_change_info: payload.can_change_info as boolean | undefined,
+            can_invite_users: payload.can_invite_users as boolean | undefined,
+            can_post_stories: payload.can_post_stories as boolean | undefined,
+            can_edit_stories: payload.can_edit_stories as boolean | undefined,
+            can_delete_stories: payload.can_delete_stories as boolean | undefined,
+            can_pin_messages: payload.can_pin_messages as boolean | undefined,
+            can_manage_topics: payload.can_manage_topics as boolean | undefined,
+            can_post_messages: payload.can_post_messages as boolean | undefined,
+            can_edit_messages: payload.can_edit_messages as boolean | undefined,
+          });
+        } else {
+          // Demote
+          this.memberState.demote(chatId, userId);
+        }
+      });
 
       return true;
     },
@@ -2214,10 +3312,10 @@ export class TelegramServer {
       }
 
       if (this.currentResponse) {
-        this.currentResponse._setInviteLink(link);
+        this.currentResponse._setInviteLink(this.chatState.toChatInviteLink(link));
       }
 
-      return link as ChatInviteLink;
+      return this.chatState.toChatInviteLink(link);
     },
 
     editChatInviteLink: (payload) => {
@@ -2242,7 +3340,7 @@ export class TelegramServer {
         throw this.createApiError(400, "Bad Request: invite link not found or revoked");
       }
 
-      return link as ChatInviteLink;
+      return this.chatState.toChatInviteLink(link);
     },
 
     createChatSubscriptionInviteLink: (payload) => {
@@ -2269,10 +3367,10 @@ export class TelegramServer {
       }
 
       if (this.currentResponse) {
-        this.currentResponse._setInviteLink(link);
+        this.currentResponse._setInviteLink(this.chatState.toChatInviteLink(link));
       }
 
-      return link as ChatInviteLink;
+      return this.chatState.toChatInviteLink(link);
     },
 
     editChatSubscriptionInviteLink: (payload) => {
@@ -2289,7 +3387,7 @@ export class TelegramServer {
         throw this.createApiError(400, "Bad Request: subscription invite link not found");
       }
 
-      return link as ChatInviteLink;
+      return this.chatState.toChatInviteLink(link);
     },
 
     revokeChatInviteLink: (payload) => {
@@ -2305,7 +3403,7 @@ export class TelegramServer {
         throw this.createApiError(400, "Bad Request: invite link not found");
       }
 
-      return link as ChatInviteLink;
+      return this.chatState.toChatInviteLink(link);
     },
 
     exportChatInviteLink: (payload) => {
@@ -2336,11 +3434,17 @@ export class TelegramServer {
         if (link.pendingRequestUserIds.has(userId)) {
           // Get the stored user from the join request
           const user = this.chatState.getJoinRequestUser(chatId, userId);
-          // Remove from pending
+          // Remove from pending; the approved user now counts as joined via the link
           this.chatState.removeJoinRequest(chatId, link.invite_link, userId);
+          this.chatState.recordInviteLinkJoin(chatId, link.invite_link, userId);
           // Add as member
           if (user) {
-            this.memberState.setMember(chatId, user, "member");
+            this.trackMemberChange(
+              chatId,
+              userId,
+              () => this.memberState.setMember(chatId, user, "member"),
+              { viaJoinRequest: true },
+            );
           }
           return true;
         }
@@ -2494,7 +3598,9 @@ export class TelegramServer {
         correct_option_id: correctOptionId,
         explanation,
         open_period: openPeriod,
-        close_date: closeDate,
+        // Polls with an open_period close automatically once it has passed
+        close_date:
+          closeDate ?? (openPeriod !== undefined ? this.timestamp() + openPeriod : undefined),
       });
 
       const messageId = this.messageIdCounter++;
@@ -2503,7 +3609,7 @@ export class TelegramServer {
         message_id: messageId,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         poll,
       };
 
@@ -2702,7 +3808,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         invoice: {
           title,
           description,
@@ -2761,6 +3867,11 @@ export class TelegramServer {
         throw this.createApiError(400, "Bad Request: file not found");
       }
 
+      // Bots can only download files up to 20 MB
+      if (!this.fileState.isDownloadable(fileId)) {
+        throw this.createApiError(400, "Bad Request: file is too big");
+      }
+
       return file;
     },
 
@@ -2816,7 +3927,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         location: { latitude, longitude },
       }) as Message;
 
@@ -2843,7 +3954,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         venue: {
           location: { latitude, longitude },
           title,
@@ -2873,7 +3984,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         contact: {
           phone_number: phoneNumber,
           first_name: firstName,
@@ -2913,7 +4024,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         dice: { emoji, value },
       }) as Message;
 
@@ -2938,7 +4049,9 @@ export class TelegramServer {
 
     sendMediaGroup: (payload) => {
       const chatId = this.requireId(payload.chat_id as string | number, "chat_id");
-      const media = payload.media as Array<{ type: string; media: string; caption?: string }>;
+      const media = payload.media as Array<
+        { type: string; media: unknown } & Record<string, unknown>
+      >;
 
       const chatData = this.chatState.get(chatId);
       if (!chatData) {
@@ -2948,21 +4061,20 @@ export class TelegramServer {
       const messages: Message[] = [];
       const mediaGroupId = String(Date.now());
 
-      for (const item of media) {
-        const fileId = this.fileState.generateFileId(item.type);
-        const fileUniqueId = this.fileState.generateFileUniqueId();
+      const captions = media.map((item) =>
+        this.formatPayloadText(item, "caption", "caption_entities"),
+      );
 
+      for (const [index, item] of media.entries()) {
         const message = this.cleanObject({
           message_id: this.messageIdCounter++,
           date: this.timestamp(),
           chat: chatData.chat,
-          from: this.botInfo,
+          ...this.getSenderFields(chatData.chat),
           media_group_id: mediaGroupId,
-          caption: item.caption,
-          [item.type]: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-          },
+          caption: captions[index].text,
+          caption_entities: captions[index].entities,
+          ...this.createMediaField(item.type, item.media),
         }) as Message;
 
         this.chatState.storeMessage(chatId, message);
@@ -3058,18 +4170,24 @@ export class TelegramServer {
 
     // === Bot Commands ===
 
-    getMyCommands: () => {
-      return this.botCommands;
+    getMyCommands: (payload) => {
+      const scope = (payload.scope as BotCommandScope | undefined) ?? { type: "default" };
+      const languageCode = (payload.language_code as string | undefined) || undefined;
+      return this.resolveCommands(this.getCommandScopeChain(scope), languageCode);
     },
 
     setMyCommands: (payload) => {
-      const commands = payload.commands as Array<{ command: string; description: string }>;
-      this.botCommands = commands;
+      const commands = payload.commands as BotCommand[];
+      const scope = (payload.scope as BotCommandScope | undefined) ?? { type: "default" };
+      const languageCode = (payload.language_code as string | undefined) || undefined;
+      this.botCommands.set(this.commandKey(scope, languageCode), commands);
       return true;
     },
 
-    deleteMyCommands: () => {
-      this.botCommands = [];
+    deleteMyCommands: (payload) => {
+      const scope = (payload.scope as BotCommandScope | undefined) ?? { type: "default" };
+      const languageCode = (payload.language_code as string | undefined) || undefined;
+      this.botCommands.delete(this.commandKey(scope, languageCode));
       return true;
     },
 
@@ -3274,7 +4392,7 @@ export class TelegramServer {
     editMessageMedia: (payload) => {
       const chatId = this.parseId(payload.chat_id as string | number | undefined);
       const messageId = this.parseId(payload.message_id as string | number | undefined);
-      const media = payload.media as { type: string; media: string; caption?: string };
+      const media = payload.media as { type: string; media: string } & Record<string, unknown>;
       const replyMarkup = payload.reply_markup;
 
       if (chatId && messageId) {
@@ -3282,6 +4400,11 @@ export class TelegramServer {
         if (!message) {
           throw this.createApiError(400, "Bad Request: message not found");
         }
+        const { text: caption, entities: captionEntities } = this.formatPayloadText(
+          media,
+          "caption",
+          "caption_entities",
+        );
 
         // Generate new file data
         const fileId = this.fileState.generateFileId(media.type);
@@ -3290,12 +4413,18 @@ export class TelegramServer {
         // Update media on the message
         const msgAny = message as unknown as Record<string, unknown>;
         msgAny[media.type] = { file_id: fileId, file_unique_id: fileUniqueId };
-        if (media.caption !== undefined) {
-          msgAny.caption = media.caption;
+        if (caption !== undefined) {
+          msgAny.caption = caption;
+          if (captionEntities) {
+            msgAny.caption_entities = captionEntities;
+          } else {
+            delete msgAny.caption_entities;
+          }
         }
         if (replyMarkup) {
           msgAny.reply_markup = replyMarkup;
         }
+        message.edit_date = this.timestamp();
 
         if (this.currentResponse) {
           this.currentResponse._addEditedMessage(message);
@@ -3322,7 +4451,7 @@ export class TelegramServer {
         message_id: this.messageIdCounter++,
         date: this.timestamp(),
         chat: chatData.chat,
-        from: this.botInfo,
+        ...this.getSenderFields(chatData.chat),
         game: {
           title: gameShortName,
           description: `Game: ${gameShortName}`,
@@ -3424,156 +4553,156 @@ export class TelegramServer {
 
   private handleSendMedia(payload: Record<string, unknown>, mediaType: string): Message {
     const chatId = this.requireId(payload.chat_id as string | number, "chat_id");
-    const caption = payload.caption as string | undefined;
-    const parseMode = payload.parse_mode as ParseMode | undefined;
     const replyMarkup = payload.reply_markup;
 
-    // Validate caption length (max 1024 characters for media)
-    if (caption && caption.length > 1024) {
-      throw this.createApiError(400, "Bad Request: message caption is too long");
-    }
-
     const chatData = this.chatState.get(chatId);
     if (!chatData) {
       throw this.createApiError(400, "Bad Request: chat not found");
     }
 
-    // Check rate limits
-    const rateCheck = this.memberState.checkRateLimit(
-      chatId,
-      this.botInfo.id,
-      chatData.chat.type,
-      this.chatState.getSlowModeDelay(chatId),
+    const { text: finalCaption, entities: captionEntities } = this.formatPayloadText(
+      payload,
+      "caption",
+      "caption_entities",
     );
-    if (!rateCheck.allowed) {
-      throw this.createApiError(429, `Too Many Requests: retry after ${rateCheck.retryAfter}`, {
-        retry_after: rateCheck.retryAfter,
-      });
+
+    const mediaData = this.createMediaField(mediaType, payload[mediaType]);
+
+    const message = this.cleanObject({
+      message_id: this.messageIdCounter++,
+      date: this.timestamp(),
+      chat: chatData.chat,
+      ...this.getSenderFields(chatData.chat),
+      ...mediaData,
+      caption: finalCaption,
+      caption_entities: captionEntities,
+      reply_markup: replyMarkup,
+    }) as Message;
+
+    this.chatState.storeMessage(chatId, message);
+
+    if (this.currentResponse) {
+      this.currentResponse._addMessage(message);
     }
 
-    let finalCaption = caption;
-    let captionEntities: MessageEntity[] | undefined;
+    return message;
+  }
 
-    if (parseMode && caption) {
-      const parsed = parseFormattedText(caption, parseMode);
-      finalCaption = parsed.text;
-      captionEntities = parsed.entities.length > 0 ? parsed.entities : undefined;
+  /**
+   * Build the media field of a sent message (e.g. `{ photo: [...] }`).
+   *
+   * Uploaded files are stored in FileState with their real bytes, so file_size,
+   * file_name, mime_type and photo dimensions come from the upload. A known
+   * file_id is reused; anything else (URLs, unknown ids) gets synthetic metadata.
+   */
+  private createMediaField(mediaType: string, input: unknown): Record<string, unknown> {
+    let stored: StoredFile | undefined;
+    if (input instanceof UploadedFile) {
+      stored = this.fileState.storeFile(mediaType as FileType, {
+        content: input.content,
+        fileName: input.fileName,
+        mimeType: input.mimeType ?? guessMimeType(input.fileName),
+      });
+    } else if (typeof input === "string") {
+      stored = this.fileState.getFile(input);
     }
 
-    // Generate file data based on media type
-    let mediaData: Record<string, unknown>;
-    const fileId = this.fileState.generateFileId(mediaType);
-    const fileUniqueId = this.fileState.generateFileUniqueId();
+    const file = {
+      file_id: stored?.fileId ?? this.fileState.generateFileId(mediaType),
+      file_unique_id: stored?.fileUniqueId ?? this.fileState.generateFileUniqueId(),
+    };
+    const fileSize = stored?.fileSize;
+    const fileName = stored?.fileName;
+    const mimeType = stored?.mimeType;
 
     switch (mediaType) {
       case "photo":
-        mediaData = {
+        return {
           photo: [
-            {
-              file_id: fileId,
-              file_unique_id: fileUniqueId,
-              width: 800,
-              height: 600,
-            },
+            this.cleanObject({
+              ...file,
+              width: stored?.width ?? 800,
+              height: stored?.height ?? 600,
+              file_size: fileSize,
+            }),
           ],
         };
-        break;
       case "document":
-        mediaData = {
-          document: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            file_name: "document.pdf",
-          },
+        return {
+          document: this.cleanObject({
+            ...file,
+            file_name: stored ? fileName : "document.pdf",
+            mime_type: mimeType,
+            file_size: fileSize,
+          }),
         };
-        break;
       case "video":
-        mediaData = {
-          video: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            width: 1920,
-            height: 1080,
-            duration: 60,
-          },
+        return {
+          video: this.cleanObject({
+            ...file,
+            width: stored?.width ?? 1920,
+            height: stored?.height ?? 1080,
+            duration: stored?.duration ?? 60,
+            file_name: fileName,
+            mime_type: mimeType,
+            file_size: fileSize,
+          }),
         };
-        break;
       case "audio":
-        mediaData = {
-          audio: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            duration: 180,
-          },
+        return {
+          audio: this.cleanObject({
+            ...file,
+            duration: stored?.duration ?? 180,
+            file_name: fileName,
+            mime_type: mimeType,
+            file_size: fileSize,
+          }),
         };
-        break;
       case "voice":
-        mediaData = {
-          voice: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            duration: 30,
-          },
+        return {
+          voice: this.cleanObject({
+            ...file,
+            duration: stored?.duration ?? 30,
+            mime_type: mimeType,
+            file_size: fileSize,
+          }),
         };
-        break;
       case "video_note":
-        mediaData = {
-          video_note: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            length: 240,
-            duration: 15,
-          },
+        return {
+          video_note: this.cleanObject({
+            ...file,
+            length: stored?.width ?? 240,
+            duration: stored?.duration ?? 15,
+            file_size: fileSize,
+          }),
         };
-        break;
       case "sticker":
-        mediaData = {
-          sticker: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
+        return {
+          sticker: this.cleanObject({
+            ...file,
             type: "regular",
-            width: 512,
-            height: 512,
+            width: stored?.width ?? 512,
+            height: stored?.height ?? 512,
             is_animated: false,
             is_video: false,
-          },
+            file_size: fileSize,
+          }),
         };
-        break;
       case "animation":
-        mediaData = {
-          animation: {
-            file_id: fileId,
-            file_unique_id: fileUniqueId,
-            width: 320,
-            height: 240,
-            duration: 5,
-          },
+        return {
+          animation: this.cleanObject({
+            ...file,
+            width: stored?.width ?? 320,
+            height: stored?.height ?? 240,
+            duration: stored?.duration ?? 5,
+            file_name: fileName,
+            mime_type: mimeType,
+            file_size: fileSize,
+          }),
         };
-        break;
       default:
-        mediaData = {
-          [mediaType]: { file_id: fileId, file_unique_id: fileUniqueId },
-        };
-    }
-
-    const message = this.cleanObject({
-      message_id: this.messageIdCounter++,
-      date: this.timestamp(),
-      chat: chatData.chat,
-      from: this.botInfo,
-      ...mediaData,
-      caption: finalCaption,
-      caption_entities: captionEntities,
-      reply_markup: replyMarkup,
-    }) as Message;
-
-    this.chatState.storeMessage(chatId, message);
-
-    if (this.currentResponse) {
-      this.currentResponse._addMessage(message);
+        return { [mediaType]: this.cleanObject({ ...file, file_size: fileSize }) };
     }
-
-    return message;
   }
 
   private createApiError(
@@ -1,22 +1,26 @@
-import { Bot, type Context } from "grammy";
+import { Bot, type Context, type WebhookReplyEnvelope } from "grammy";
 import type {
   Chat,
   ChatAdministratorRights,
-  ChatMember,
   Message,
+  MessageEntity,
   ReactionType,
   Update,
   User,
   UserFromGetMe,
 } from "grammy/types";
+import { BotApiServer, type BotApiServerOptions } from "./BotApiServer.js";
 import { type BotResponse, createBotResponse } from "./BotResponse.js";
+import type { FaultRule } from "./FaultInjector.js";
 import { FetchInterceptor } from "./FetchInterceptor.js";
 import type { ParseMode } from "./MarkdownParser.js";
+import type { RateLimitConfig } from "./MemberState.js";
 import { createMockFetch } from "./MockFetch.js";
 import { TestUpdateSource } from "./RunnerSupport.js";
 import { TelegramServer } from "./TelegramServer.js";
 import { type ApiCallRecord, createTestTransformer } from "./TestClient.js";
-import { UpdateQueue } from "./UpdateQueue.js";
+import type { UpdateQueue } from "./UpdateQueue.js";
+import { WebhookDelivery, type WebhookDeliveryOptions } from "./WebhookDelivery.js";
 import { type WebhookAdapter, type WebhookOptions, WebhookSimulator } from "./WebhookSimulator.js";
 import { WorkerSimulator } from "./WorkerSimulator.js";
 
@@ -37,6 +41,10 @@ export interface TestBotConfig {
   botInfo?: UserFromGetMe;
   /** Bot token (default: "TEST:TOKEN") */
   token?: string;
+  /** Rate limits for the bot's API calls, or `false` to disable them (default: Telegram's limits) */
+  rateLimits?: RateLimitConfig | false;
+  /** Check every API payload against the Bot API definitions and fail on unimplemented methods (default: false) */
+  strict?: boolean;
 }
 
 /**
@@ -45,6 +53,8 @@ export interface TestBotConfig {
 export interface SendMessageOptions {
   replyToMessageId?: number;
   parseMode?: ParseMode;
+  /** Explicit entities, instead of parseMode (offsets in UTF-16 code units) */
+  entities?: MessageEntity[];
   messageThreadId?: number;
 }
 
@@ -87,6 +97,8 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
   private fetchInterceptor: FetchInterceptor;
   private _isPolling = false;
   private _testPollingAbortController: AbortController | null = null;
+  /** How many of a response's generatedUpdates have been handed to the bot */
+  private handledGeneratedUpdates = new WeakMap<BotResponse, number>();
 
   constructor(config: TestBotConfig = {}) {
     const botInfo = config.botInfo ?? DEFAULT_BOT_INFO;
@@ -94,6 +106,10 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
 
     // Create server first so we can reference it in the fetch function
     const server = new TelegramServer(botInfo);
+    if (config.rateLimits !== undefined) {
+      server.memberState.setRateLimitConfig(config.rateLimits);
+    }
+    server.setStrictMode(config.strict ?? false);
 
     // Create the API call log
     const apiCalls: ApiCallRecord[] = [];
@@ -114,7 +130,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
     // Store references
     this.server = server;
     this.apiCalls = apiCalls;
-    this.updateQueue = new UpdateQueue();
+    this.updateQueue = server.updateQueue;
     this.webhookSimulator = new WebhookSimulator();
 
     // Set bot info to avoid initialization requirement
@@ -231,6 +247,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
     return this.server.runWithResponse(response, async () => {
       const update = this.server.simulateUserMessage(user, chat, text, {
         parseMode: options.parseMode,
+        entities: options.entities,
         replyToMessageId: options.replyToMessageId,
         messageThreadId: options.messageThreadId,
       });
@@ -238,7 +255,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -306,7 +323,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -362,11 +379,153 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
         newText,
         { parseMode: options.parseMode },
       );
+      await this.deliverUserUpdate(update, response);
+      return response;
+    });
+  }
+
+  /**
+   * Simulate an administrator publishing a post in a channel.
+   * Returns a BotResponse containing all bot actions in response to the channel_post.
+   *
+   * @example
+   * ```typescript
+   * const channel = testBot.createChat({ type: "channel", title: "News" });
+   * testBot.setBotAdmin(channel, { can_post_messages: true, can_edit_messages: true });
+   *
+   * const response = await testBot.sendChannelPost(channel, "Breaking news", {
+   *   authorSignature: "Alice",
+   * });
+   * ```
+   */
+  async sendChannelPost(
+    chat: Chat,
+    text: string,
+    options: { parseMode?: ParseMode; authorSignature?: string } = {},
+  ): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      const update = this.server.simulateChannelPost(chat, text, options);
+      if (update.channel_post) {
+        response.sentMessage = update.channel_post;
+      }
       await this.handleUpdate(update);
       return response;
     });
   }
 
+  /**
+   * Simulate an administrator editing a channel post.
+   * Returns a BotResponse containing all bot actions in response to the edited_channel_post.
+   */
+  async editChannelPost(
+    chat: Chat,
+    messageId: number,
+    text: string,
+    options: { parseMode?: ParseMode } = {},
+  ): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      const update = this.server.simulateEditedChannelPost(chat, messageId, text, options);
+      await this.handleUpdate(update);
+      return response;
+    });
+  }
+
+  /**
+   * Simulate a user commenting on a channel post.
+   * The comment is sent to the linked discussion group, in the thread of the
+   * post's automatic forward (use `replyToMessageId` to answer another comment).
+   *
+   * @example
+   * ```typescript
+   * testBot.server.chatState.linkDiscussionGroup(channel.id, group.id);
+   * const post = await testBot.sendChannelPost(channel, "New release!");
+   * const response = await testBot.sendComment(user, channel, post.sentMessage!.message_id, "Nice");
+   * ```
+   */
+  async sendComment(
+    user: User,
+    channel: Chat,
+    postId: number,
+    text: string,
+    options: SendMessageOptions = {},
+  ): Promise<BotResponse> {
+    const groupId = this.server.chatState.getLinkedChatId(channel.id);
+    const group = groupId !== undefined ? this.server.chatState.get(groupId)?.chat : undefined;
+    const threadId = this.server.chatState.getDiscussionMessageId(channel.id, postId);
+    if (!group || threadId === undefined) {
+      throw new Error(`Post ${postId} in chat ${channel.id} has no comment thread`);
+    }
+
+    return this.sendMessage(user, group, text, {
+      ...options,
+      replyToMessageId: options.replyToMessageId ?? threadId,
+      messageThreadId: threadId,
+    });
+  }
+
+  /**
+   * Simulate Telegram upgrading a basic group to a supergroup.
+   * The bot receives the `migrate_to_chat_id` and `migrate_from_chat_id` service
+   * messages; API calls to the old chat ID fail from now on.
+   *
+   * @example
+   * ```typescript
+   * const response = await testBot.migrateGroup(group);
+   * const supergroupId = testBot.server.chatState.getMigratedToChatId(group.id);
+   * ```
+   */
+  async migrateGroup(chat: Chat, options: { from?: User } = {}): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      this.server.migrateGroupToSupergroup(chat.id, options);
+      await this.handleGeneratedUpdates(response);
+      return response;
+    });
+  }
+
+  /**
+   * Simulate a user blocking the bot. The bot receives a `my_chat_member` update
+   * (status "kicked") and later messages to the user fail with
+   * `403 Forbidden: bot was blocked by the user`.
+   *
+   * @example
+   * ```typescript
+   * await testBot.blockBot(user);
+   * await expect(testBot.api.sendMessage(user.id, "Hi")).rejects.toThrow("blocked");
+   * ```
+   */
+  async blockBot(user: User): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      this.server.blockBot(user);
+      await this.handleGeneratedUpdates(response);
+      return response;
+    });
+  }
+
+  /**
+   * Simulate a user unblocking the bot. The bot receives a `my_chat_member` update
+   * (status "member") and can message the user again.
+   */
+  async unblockBot(user: User): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      this.server.unblockBot(user);
+      await this.handleGeneratedUpdates(response);
+      return response;
+    });
+  }
+
+  /**
+   * Simulate a user deleting their account. Later messages to the user fail with
+   * `403 Forbidden: user is deactivated`.
+   */
+  deactivateUser(user: User): void {
+    this.server.deactivateUser(user);
+  }
+
   /**
    * Simulate an inline query from a user.
    * Returns a BotResponse containing the inline results.
@@ -410,7 +569,12 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
     user: User,
     chat: Chat,
     photo: { width: number; height: number; content?: Buffer | Uint8Array; fileSize?: number },
-    options: { caption?: string; parseMode?: ParseMode; replyToMessageId?: number } = {},
+    options: {
+      caption?: string;
+      parseMode?: ParseMode;
+      captionEntities?: MessageEntity[];
+      replyToMessageId?: number;
+    } = {},
   ): Promise<BotResponse> {
     const response = createBotResponse();
     return this.server.runWithResponse(response, async () => {
@@ -419,12 +583,13 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
         fileSize: photo.fileSize,
         caption: options.caption,
         parseMode: options.parseMode,
+        captionEntities: options.captionEntities,
         replyToMessageId: options.replyToMessageId,
       });
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -441,7 +606,12 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       content?: Buffer | Uint8Array;
       fileSize?: number;
     },
-    options: { caption?: string; parseMode?: ParseMode; replyToMessageId?: number } = {},
+    options: {
+      caption?: string;
+      parseMode?: ParseMode;
+      captionEntities?: MessageEntity[];
+      replyToMessageId?: number;
+    } = {},
   ): Promise<BotResponse> {
     const response = createBotResponse();
     return this.server.runWithResponse(response, async () => {
@@ -455,13 +625,14 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
           fileSize: document.fileSize,
           caption: options.caption,
           parseMode: options.parseMode,
+          captionEntities: options.captionEntities,
           replyToMessageId: options.replyToMessageId,
         },
       );
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -527,7 +698,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -557,7 +728,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -580,7 +751,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -602,7 +773,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -625,7 +796,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -649,7 +820,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -673,7 +844,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
       if (update.message) {
         response.sentMessage = update.message;
       }
-      await this.handleUpdate(update);
+      await this.deliverUserUpdate(update, response);
       return response;
     });
   }
@@ -807,128 +978,171 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
 
   /**
    * Simulate a user joining via an invite link.
+   *
+   * The link must not be revoked, expired (`expire_date`) or exhausted (`member_limit`).
+   * Links with `creates_join_request` send a `chat_join_request` instead of adding the
+   * user, and subscription links charge `subscription_price` Stars (recorded in
+   * `server.paymentState` for the link's creator) and report the subscription end as
+   * the member's `until_date`.
    */
   async simulateJoinViaLink(user: User, chat: Chat, inviteLink: string): Promise<BotResponse> {
     const response = createBotResponse();
     return this.server.runWithResponse(response, async () => {
-      // Check if user is banned from this chat
-      const existingMember = this.server.memberState.getMember(chat.id, user.id);
-      if (existingMember?.status === "kicked") {
-        response._setError({ code: 400, description: "Bad Request: user is banned from the chat" });
-        return response;
-      }
-
-      // Check if link is valid
-      if (!this.server.chatState.isInviteLinkValid(chat.id, inviteLink)) {
-        const link = this.server.chatState.getInviteLink(chat.id, inviteLink);
-        if (link?.is_revoked) {
-          response._setError({ code: 400, description: "Bad Request: invite link revoked" });
-        } else if (link?.member_limit && link.usage_count >= link.member_limit) {
-          response._setError({
-            code: 400,
-            description: "Bad Request: invite link member limit reached",
-          });
-        } else {
-          response._setError({
-            code: 400,
-            description: "Bad Request: invite link expired or invalid",
-          });
-        }
-        return response;
-      }
-
+      const error = this.getInviteLinkError(user, chat, inviteLink);
       const link = this.server.chatState.getInviteLink(chat.id, inviteLink);
-      if (!link) {
-        response._setError({ code: 400, description: "Bad Request: invite link not found" });
+      if (error || !link) {
+        response._setError({
+          code: 400,
+          description: error ?? "Bad Request: invite link not found",
+        });
         return response;
       }
 
       // If link creates join request, add to pending
       if (link.creates_join_request) {
-        this.server.chatState.addJoinRequest(chat.id, inviteLink, user);
-        const chatData = this.server.chatState.get(chat.id);
-        if (!chatData) {
-          throw new Error("Chat not found");
-        }
-        const update = {
-          update_id: this.server.getNextUpdateId(),
-          chat_join_request: {
-            chat: chatData.chat,
-            from: user,
-            user_chat_id: user.id,
-            date: Math.floor(Date.now() / 1000),
-            invite_link: link,
-          },
-        } as Update;
-        await this.handleUpdate(update);
-      } else {
-        // User joins directly
-        this.server.chatState.useInviteLink(chat.id, inviteLink, user.id);
-        const previousMember = this.server.memberState.getMember(chat.id, user.id);
-        const oldStatus = previousMember?.status ?? "left";
-        this.server.memberState.setMember(chat.id, user, "member");
-
-        // Send chat_member update
-        const chatData = this.server.chatState.get(chat.id);
-        if (!chatData) {
-          throw new Error("Chat not found");
-        }
-        const update: Update = {
-          update_id: this.server.getNextUpdateId(),
-          chat_member: {
-            chat: chatData.chat,
-            from: user,
-            date: Math.floor(Date.now() / 1000),
-            old_chat_member: {
-              status: oldStatus,
-              user,
-            } as ChatMember,
-            new_chat_member: {
-              status: "member",
-              user,
-            } as ChatMember,
-            invite_link: link,
-          },
-        };
-        await this.handleUpdate(update);
+        await this.deliverJoinRequest(user, chat, inviteLink);
+        return response;
       }
+
+      // User joins directly
+      this.server.joinChatViaInviteLink(chat.id, user, inviteLink, (member) => {
+        if (link.subscription_price && link.subscription_period) {
+          this.server.paymentState.createTransaction(link.creator.id, link.subscription_price, {
+            sourceUser: user,
+            subscriptionPeriod: link.subscription_period,
+          });
+          member.until_date = this.now() + link.subscription_period;
+        }
+      });
+      await this.handleGeneratedUpdates(response);
       return response;
     });
   }
 
   /**
    * Simulate a user requesting to join via an invite link.
+   * The link must create join requests and must not be revoked or expired.
    */
   async simulateJoinRequest(user: User, chat: Chat, inviteLink: string): Promise<BotResponse> {
     const response = createBotResponse();
     return this.server.runWithResponse(response, async () => {
-      const link = this.server.chatState.getInviteLink(chat.id, inviteLink);
-      if (!link) {
-        response._setError({ code: 400, description: "Bad Request: invite link not found" });
+      const error = this.getInviteLinkError(user, chat, inviteLink);
+      if (error) {
+        response._setError({ code: 400, description: error });
         return response;
       }
-
-      this.server.chatState.addJoinRequest(chat.id, inviteLink, user);
-
-      const chatData = this.server.chatState.get(chat.id);
-      if (!chatData) {
-        throw new Error("Chat not found");
+      if (!this.server.chatState.getInviteLink(chat.id, inviteLink)?.creates_join_request) {
+        response._setError({
+          code: 400,
+          description: "Bad Request: invite link doesn't create join requests",
+        });
+        return response;
       }
-      const update = {
-        update_id: this.server.getNextUpdateId(),
-        chat_join_request: {
-          chat: chatData.chat,
-          from: user,
-          user_chat_id: user.id,
-          date: Math.floor(Date.now() / 1000),
-          invite_link: link,
-        },
-      } as Update;
-      await this.handleUpdate(update);
+
+      await this.deliverJoinRequest(user, chat, inviteLink);
       return response;
     });
   }
 
+  /**
+   * Check whether a user can use an invite link, like Telegram does when the link is opened.
+   * Returns the error description, or undefined if the link can be used.
+   */
+  private getInviteLinkError(user: User, chat: Chat, inviteLink: string): string | undefined {
+    const chatState = this.server.chatState;
+    const link = chatState.getInviteLink(chat.id, inviteLink);
+    if (this.server.memberState.getMember(chat.id, user.id)?.status === "kicked") {
+      return "Bad Request: user is banned from the chat";
+    }
+    if (!link) {
+      return "Bad Request: invite link not found";
+    }
+    if (link.is_revoked) {
+      return "Bad Request: invite link revoked";
+    }
+    if (chatState.isInviteLinkExpired(chat.id, inviteLink)) {
+      return "Bad Request: invite link expired";
+    }
+    if (chatState.isInviteLinkExhausted(chat.id, inviteLink)) {
+      return "Bad Request: invite link member limit reached";
+    }
+    return undefined;
+  }
+
+  /**
+   * Record a pending join request and send the chat_join_request update.
+   */
+  private async deliverJoinRequest(user: User, chat: Chat, inviteLink: string): Promise<void> {
+    this.server.chatState.addJoinRequest(chat.id, inviteLink, user);
+
+    const chatData = this.server.chatState.get(chat.id);
+    const link = this.server.chatState.getInviteLink(chat.id, inviteLink);
+    if (!chatData || !link) {
+      throw new Error("Chat not found");
+    }
+    const update = {
+      update_id: this.server.getNextUpdateId(),
+      chat_join_request: {
+        chat: chatData.chat,
+        from: user,
+        user_chat_id: user.id,
+        date: this.now(),
+        invite_link: this.server.chatState.toChatInviteLink(link),
+      },
+    } as Update;
+    await this.handleUpdate(update);
+  }
+
+  /**
+   * Current simulated Unix time.
+   */
+  private now(): number {
+    return Math.floor(this.server.memberState.getCurrentTime() / 1000);
+  }
+
+  /**
+   * Hand a simulated user message to the bot, unless Telegram would withhold it
+   * (group messages hidden by privacy mode). Withheld updates are reported via
+   * `response.suppressedReason`.
+   */
+  private async deliverUserUpdate(update: Update, response: BotResponse): Promise<void> {
+    if (this.server.isHiddenByPrivacyMode(update)) {
+      response.suppressedReason = "privacy_mode";
+      return;
+    }
+    await this.handleUpdate(update);
+  }
+
+  /**
+   * Handle an update, then the updates Telegram generated in response to the
+   * bot's actions (e.g. chat_member after banChatMember), like a real bot
+   * would receive them next.
+   */
+  override async handleUpdate(
+    update: Update,
+    webhookReplyEnvelope?: WebhookReplyEnvelope,
+  ): Promise<void> {
+    await super.handleUpdate(update, webhookReplyEnvelope);
+
+    const response = this.server.getCurrentResponse();
+    if (response) {
+      await this.handleGeneratedUpdates(response);
+    }
+  }
+
+  /**
+   * Handle the server-generated updates of a response that were not handled yet.
+   */
+  private async handleGeneratedUpdates(response: BotResponse): Promise<void> {
+    // Handlers of generated updates may generate more; they are appended as we go
+    let next = this.handledGeneratedUpdates.get(response) ?? 0;
+    while (next < response.generatedUpdates.length) {
+      this.handledGeneratedUpdates.set(response, next + 1);
+      await super.handleUpdate(response.generatedUpdates[next]);
+      next = this.handledGeneratedUpdates.get(response) ?? 0;
+    }
+  }
+
   // === Role Management ===
 
   /**
@@ -1004,16 +1218,68 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
 
   /**
    * Advance simulated time by seconds.
-   * Useful for testing time-based features like slow mode.
+   * Useful for testing time-based features like slow mode, poll deadlines and
+   * temporary restrictions. Updates Telegram sends as time passes (e.g. `poll` when
+   * a poll closes) are queued for getUpdates; use `passTime()` to have the bot handle
+   * them.
    */
   advanceTime(seconds: number): void {
     this.server.advanceTime(seconds);
   }
 
+  /**
+   * Advance simulated time by seconds and let the bot handle the updates Telegram
+   * sends as time passes (e.g. `poll` when a poll closes, `chat_member` when a
+   * restriction expires). They are listed in `response.generatedUpdates`.
+   *
+   * @example
+   * ```typescript
+   * await testBot.api.sendPoll(chat.id, "Lunch?", ["Pizza", "Sushi"], { open_period: 60 });
+   * const response = await testBot.passTime(60);
+   * expect(response.generatedUpdates[0].poll?.is_closed).toBe(true);
+   * ```
+   */
+  async passTime(seconds: number): Promise<BotResponse> {
+    const response = createBotResponse();
+    return this.server.runWithResponse(response, async () => {
+      this.server.advanceTime(seconds);
+      await this.handleGeneratedUpdates(response);
+      return response;
+    });
+  }
+
+  // === Fault Injection ===
+
+  /**
+   * Make matching API calls fail or slow down until the rule is used up or removed
+   * with `server.faultInjector.removeRule()`. Fired faults are logged in
+   * `server.faultInjector.getLog()`.
+   *
+   * @example
+   * ```typescript
+   * // The next two sendMessage calls hit the flood limit
+   * testBot.injectFault({
+   *   method: "sendMessage",
+   *   times: 2,
+   *   fault: { type: "rate_limit", retryAfter: 5 },
+   * });
+   * ```
+   */
+  injectFault(rule: FaultRule): number {
+    return this.server.faultInjector.addRule(rule);
+  }
+
+  /**
+   * Apply fault rules only while `fn` runs.
+   */
+  withFaults<T>(rules: FaultRule[], fn: () => T | Promise<T>): Promise<T> {
+    return this.server.faultInjector.withRules(rules, fn);
+  }
+
   // === Polling Simulation ===
 
   /**
-   * Queue an update for processing by start().
+   * Queue an update for delivery via getUpdates (start() or a real polling bot).
    */
   queueUpdate(update: Update): void {
     this.updateQueue.push(update);
@@ -1031,9 +1297,11 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
    * Processes queued updates and waits for new ones.
    *
    * Note: This overrides Bot.start() to provide test-specific behavior.
-   * Unlike real polling, it processes updates from the UpdateQueue.
+   * Unlike real polling, it reads the UpdateQueue directly instead of calling getUpdates.
+   * To exercise real `bot.start()` code, point a plain Bot at the server with
+   * `createMockFetch()` or `createApiServer()` and queue updates with `queueUpdate()`.
    */
-  override async start(_options?: { drop_pending_updates?: boolean }): Promise<void> {
+  override async start(options?: { drop_pending_updates?: boolean }): Promise<void> {
     if (this._isPolling) {
       throw new Error("Bot is already polling");
     }
@@ -1042,18 +1310,29 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
     this._testPollingAbortController = new AbortController();
     this.updateQueue.resume();
 
-    // Process updates from the queue
-    while (this._isPolling && !this._testPollingAbortController.signal.aborted) {
-      const updates = await this.updateQueue.getUpdates(0, 100, 1);
+    if (options?.drop_pending_updates) {
+      this.updateQueue.clear();
+    }
+
+    // Process updates from the queue, confirming each batch via the offset
+    let offset = 0;
+    while (this._isPolling && !this._testPollingAbortController?.signal.aborted) {
+      const updates = await this.updateQueue.getUpdates(offset, 100, 1);
 
       for (const update of updates) {
         if (!this._isPolling) break;
+        offset = update.update_id + 1;
         await this.handleUpdate(update);
       }
 
       // If no updates and queue is aborted, exit
       if (this.updateQueue.isAborted) break;
     }
+
+    // Confirm the last handled update, like Bot.stop() does
+    if (offset > 0) {
+      await this.updateQueue.getUpdates(offset, 1, 0);
+    }
   }
 
   /**
@@ -1061,7 +1340,7 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
    */
   override async stop(): Promise<void> {
     this._isPolling = false;
-    this.updateQueue.abort();
+    this.updateQueue.releaseWaiters();
     if (this._testPollingAbortController) {
       this._testPollingAbortController.abort();
       this._testPollingAbortController = null;
@@ -1232,6 +1511,40 @@ export class TestBot<C extends Context = Context> extends Bot<C> {
     return new WorkerSimulator(this.server, this.api);
   }
 
+  // === HTTP Bot API Server ===
+
+  /**
+   * Create a local HTTP server speaking the Bot API wire protocol, backed by this bot's
+   * simulated Telegram server.
+   *
+   * Useful for integration tests where the code under test runs in another process or
+   * doesn't use grammY. API calls received over HTTP are recorded in `getApiCalls()`.
+   *
+   * @example
+   * ```typescript
+   * const apiServer = testBot.createApiServer();
+   * const apiRoot = await apiServer.listen();
+   *
+   * // Start the worker with TELEGRAM_API_ROOT=apiRoot, then assert on server state
+   * expect(testBot.server.getBotMessages(chat.id)).toHaveLength(1);
+   *
+   * await apiServer.close();
+   * ```
+   */
+  createApiServer(options: BotApiServerOptions = {}): BotApiServer {
+    return new BotApiServer(this.server, options, this.apiCalls);
+  }
+
+  // === Webhook Delivery ===
+
+  /**
+   * Create a delivery engine that POSTs queued updates to the webhook
+   * registered via setWebhook. Call start() to begin delivering.
+   */
+  createWebhookDelivery(options: WebhookDeliveryOptions = {}): WebhookDelivery {
+    return new WebhookDelivery(this.server, options, this.apiCalls);
+  }
+
   // === State Management ===
 
   /**
@@ -1,4 +1,6 @@
-import type { RawApi, Transformer } from "grammy";
+import { HttpError, type RawApi, type Transformer } from "grammy";
+import type { ResponseParameters } from "grammy/types";
+import { containsInputFile, resolveInputFiles } from "./ApiPayload.js";
 import type { TelegramServer } from "./TelegramServer.js";
 
 export interface ApiCallRecord {
@@ -20,7 +22,12 @@ export function createTestTransformer(
   server: TelegramServer,
   callLog: ApiCallRecord[],
 ): Transformer {
-  return (async (_prev, method, payload, _signal) => {
+  return (async (_prev, method, rawPayload, _signal) => {
+    // Read InputFile uploads into memory, like the Bot API server receives them
+    const payload = containsInputFile(rawPayload)
+      ? ((await resolveInputFiles(rawPayload)) as typeof rawPayload)
+      : rawPayload;
+
     const record: ApiCallRecord = {
       method,
       payload: payload as Record<string, unknown>,
@@ -56,12 +63,22 @@ export function createTestTransformer(
         currentResponse._addApiCall(record);
       }
 
+      // Injected network failures never reach Telegram; grammY sees a thrown HttpError
+      if (error instanceof HttpError) {
+        throw error;
+      }
+
       // Format error response like Telegram would
-      const err = error as Error & { code?: number; description?: string };
+      const err = error as Error & {
+        code?: number;
+        description?: string;
+        parameters?: ResponseParameters;
+      };
       return {
         ok: false as const,
         error_code: err.code ?? 500,
         description: err.description ?? err.message,
+        ...(err.parameters ? { parameters: err.parameters } : {}),
       };
     }
   }) as Transformer;
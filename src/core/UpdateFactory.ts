@@ -780,6 +780,7 @@ export class UpdateFactory {
         is_primary: boolean;
         is_revoked: boolean;
       };
+      viaJoinRequest?: boolean;
       viaChatFolderInviteLink?: boolean;
     } = {},
   ): Update {
@@ -790,6 +791,7 @@ export class UpdateFactory {
       old_chat_member: oldMember,
       new_chat_member: newMember,
       invite_link: options.inviteLink,
+      via_join_request: options.viaJoinRequest,
       via_chat_folder_invite_link: options.viaChatFolderInviteLink,
     });
 
@@ -5,9 +5,27 @@ import type { Update } from "grammy/types";
  */
 interface Waiter {
   resolve: (updates: Update[]) => void;
+  reject: (error: Error) => void;
+  limit: number;
   timer?: ReturnType<typeof setTimeout>;
 }
 
+/**
+ * Update types Telegram leaves out when `allowed_updates` is empty or was never set.
+ */
+export const DEFAULT_EXCLUDED_UPDATES: readonly string[] = [
+  "chat_member",
+  "message_reaction",
+  "message_reaction_count",
+];
+
+/**
+ * Get the type of an update (the name of its single payload field).
+ */
+export function getUpdateType(update: Update): string {
+  return Object.keys(update).find((key) => key !== "update_id") ?? "unknown";
+}
+
 /**
  * Simulates the Telegram update queue for long polling.
  *
@@ -17,36 +35,49 @@ interface Waiter {
  * This class provides:
  * - `push(update)` / `pushBatch(updates)` - Queue updates for delivery
  * - `getUpdates(offset, limit, timeout)` - Returns queued updates or waits
+ * - `setAllowedUpdates(types)` - Filter which update types are queued
+ * - `peek(limit)` / `remove(updateId)` / `onPush(listener)` - Hooks for webhook delivery
+ * - `terminateWaiters(error)` - Fail pending getUpdates calls (e.g. on conflict)
  * - `abort()` - Release all waiting getUpdates calls (used on bot.stop())
+ *
+ * Offsets follow the Bot API confirmation rules: an update is confirmed (and
+ * removed) once getUpdates is called with an offset higher than its update_id,
+ * and a negative offset keeps only the last `-offset` updates.
  */
 export class UpdateQueue {
   private updates: Update[] = [];
   private waiters: Waiter[] = [];
   private aborted = false;
-  private lastOffset = 0;
+  private allowedUpdates: readonly string[] | null = null;
+  private listeners = new Set<() => void>();
 
   /**
    * Push a single update to the queue.
    * Any pending getUpdates calls will receive this update.
+   * Updates whose type is not allowed are dropped, like Telegram does.
    */
   push(update: Update): void {
+    if (!this.isAllowed(update)) return;
     this.updates.push(update);
     this.notifyWaiters();
+    this.notifyListeners();
   }
 
   /**
    * Push multiple updates to the queue.
    */
   pushBatch(updates: Update[]): void {
-    this.updates.push(...updates);
+    this.updates.push(...updates.filter((update) => this.isAllowed(update)));
     this.notifyWaiters();
+    this.notifyListeners();
   }
 
   /**
    * Get updates from the queue.
    * This simulates the Telegram getUpdates long polling behavior.
    *
-   * @param offset Only return updates with update_id >= offset (0 = all)
+   * @param offset Confirm updates below this id (0 = start at the oldest unconfirmed
+   *   update, negative = keep only the last `-offset` updates)
    * @param limit Maximum number of updates to return (1-100, default 100)
    * @param timeout Long polling timeout in seconds (0 = no wait, default 0)
    * @returns Array of updates
@@ -61,62 +92,138 @@ export class UpdateQueue {
       return [];
     }
 
-    // Apply offset - mark updates as "consumed"
-    if (offset > 0 && offset > this.lastOffset) {
-      this.lastOffset = offset;
-      // Remove updates with update_id < offset
-      this.updates = this.updates.filter((u) => u.update_id >= offset);
-    }
+    this.confirm(offset);
 
-    // Get available updates
-    const available = this.getAvailableUpdates(offset, limit);
+    const maxCount = Math.min(Math.max(limit, 1), 100);
+    const available = this.updates.slice(0, maxCount);
 
-    if (available.length > 0 || timeout === 0) {
+    if (available.length > 0 || timeout <= 0) {
       return available;
     }
 
-    // No updates available and timeout > 0 - wait for updates
-    return new Promise((resolve) => {
-      const waiter: Waiter = { resolve };
-
-      // Set up timeout
-      if (timeout > 0) {
-        waiter.timer = setTimeout(() => {
-          this.removeWaiter(waiter);
-          // Return whatever updates are available now (might still be empty)
-          resolve(this.getAvailableUpdates(offset, limit));
-        }, timeout * 1000);
-      }
+    // No updates available - hold the request open until updates arrive
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, limit: maxCount };
+
+      waiter.timer = setTimeout(() => {
+        this.removeWaiter(waiter);
+        // Return whatever updates are available now (might still be empty)
+        resolve(this.updates.slice(0, maxCount));
+      }, timeout * 1000);
 
       this.waiters.push(waiter);
     });
   }
 
   /**
-   * Abort all pending getUpdates calls.
-   * Call this when stopping the bot to release waiting connections.
+   * Get the oldest queued updates without confirming them.
    */
-  abort(): void {
-    this.aborted = true;
+  peek(limit: number = 100): Update[] {
+    return this.updates.slice(0, limit);
+  }
 
-    // Release all waiters with empty arrays
-    for (const waiter of this.waiters) {
+  /**
+   * Remove a single update (e.g. after a successful webhook delivery).
+   */
+  remove(updateId: number): boolean {
+    const index = this.updates.findIndex((u) => u.update_id === updateId);
+    if (index === -1) return false;
+    this.updates.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Register a listener called whenever updates are pushed.
+   * Returns a function that removes the listener.
+   */
+  onPush(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Set which update types are queued.
+   * An empty list restores Telegram's default (everything except
+   * chat_member, message_reaction and message_reaction_count).
+   * Updates that are already queued are not affected.
+   */
+  setAllowedUpdates(types: readonly string[]): void {
+    this.allowedUpdates = types.length > 0 ? [...types] : null;
+  }
+
+  /**
+   * Get the explicitly allowed update types (empty = Telegram default).
+   */
+  getAllowedUpdates(): string[] {
+    return this.allowedUpdates ? [...this.allowedUpdates] : [];
+  }
+
+  /**
+   * Check whether an update of this type would be queued.
+   */
+  isAllowed(update: Update): boolean {
+    const type = getUpdateType(update);
+    if (this.allowedUpdates === null) {
+      return !DEFAULT_EXCLUDED_UPDATES.includes(type);
+    }
+    return this.allowedUpdates.includes(type);
+  }
+
+  /**
+   * Fail all pending getUpdates calls with an error.
+   * Used when another getUpdates request takes over the connection.
+   */
+  terminateWaiters(error: Error): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
       if (waiter.timer) {
         clearTimeout(waiter.timer);
       }
-      waiter.resolve([]);
+      waiter.reject(error);
     }
+  }
+
+  /**
+   * Release all pending getUpdates calls with empty arrays.
+   */
+  releaseWaiters(): void {
+    const waiters = this.waiters;
     this.waiters = [];
+    for (const waiter of waiters) {
+      if (waiter.timer) {
+        clearTimeout(waiter.timer);
+      }
+      waiter.resolve([]);
+    }
+  }
+
+  /**
+   * Drop all queued updates without delivering them.
+   */
+  clear(): void {
+    this.updates = [];
+  }
+
+  /**
+   * Abort all pending getUpdates calls.
+   * Call this when stopping the bot to release waiting connections.
+   */
+  abort(): void {
+    this.aborted = true;
+    this.releaseWaiters();
   }
 
   /**
    * Reset the queue state.
    */
   reset(): void {
+    this.releaseWaiters();
     this.updates = [];
-    this.waiters = [];
     this.aborted = false;
-    this.lastOffset = 0;
+    this.allowedUpdates = null;
   }
 
   /**
@@ -148,16 +255,14 @@ export class UpdateQueue {
   }
 
   /**
-   * Get available updates respecting offset and limit.
+   * Apply an offset, forgetting confirmed updates.
    */
-  private getAvailableUpdates(offset: number, limit: number): Update[] {
-    let filtered = this.updates;
-
+  private confirm(offset: number): void {
     if (offset > 0) {
-      filtered = filtered.filter((u) => u.update_id >= offset);
+      this.updates = this.updates.filter((u) => u.update_id >= offset);
+    } else if (offset < 0) {
+      this.updates = this.updates.slice(offset);
     }
-
-    return filtered.slice(0, Math.min(limit, 100));
   }
 
   /**
@@ -177,9 +282,16 @@ export class UpdateQueue {
       clearTimeout(waiter.timer);
     }
 
-    // Return all available updates (respecting default limit)
-    const updates = this.getAvailableUpdates(this.lastOffset, 100);
-    waiter.resolve(updates);
+    waiter.resolve(this.updates.slice(0, waiter.limit));
+  }
+
+  /**
+   * Notify push listeners.
+   */
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
   }
 
   /**
@@ -0,0 +1,326 @@
+import type { Update } from "grammy/types";
+import type { TelegramServer } from "./TelegramServer.js";
+import type { ApiCallRecord } from "./TestClient.js";
+
+/**
+ * Options for webhook delivery.
+ */
+export interface WebhookDeliveryOptions {
+  /** Delay before the first retry after a failed delivery, in ms (default: 1000) */
+  retryDelay?: number;
+  /** Upper bound for the exponential backoff, in ms (default: 60000) */
+  maxRetryDelay?: number;
+  /** Time to wait for the endpoint to respond, in ms (default: 10000) */
+  timeout?: number;
+  /** Attempts per update before delivery gives up on it, leaving it pending (default: 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * A single attempt to deliver an update to the webhook.
+ */
+export interface WebhookDeliveryAttempt {
+  updateId: number;
+  url: string;
+  /** 1 for the first attempt, 2 for the first retry, ... */
+  attempt: number;
+  /** HTTP status (undefined if the request failed) */
+  status?: number;
+  /** Error recorded in getWebhookInfo (undefined on success) */
+  error?: string;
+  timestamp: number;
+}
+
+/**
+ * Delivers queued updates to the registered webhook over real HTTP.
+ *
+ * Mirrors how Telegram talks to a webhook:
+ * - `POST <url>` with the update as JSON
+ * - `X-Telegram-Bot-Api-Secret-Token` header when a secret token is set
+ * - At most `max_connections` requests in flight
+ * - Non-2xx responses, network errors and timeouts are recorded in
+ *   `getWebhookInfo` and retried with exponential backoff, up to `maxAttempts`
+ *   times per update
+ * - A method call in the response body (webhook reply) is executed
+ *
+ * Delivery is opt-in so that tests which only register a webhook never
+ * make outgoing requests.
+ *
+ * @example
+ * ```typescript
+ * await testBot.api.setWebhook(`${appUrl}/telegram`, { secret_token: "s3cr3t" });
+ * const delivery = testBot.createWebhookDelivery();
+ * delivery.start();
+ *
+ * testBot.queueUpdate(update);
+ * await delivery.flush();
+ *
+ * delivery.stop();
+ * ```
+ */
+export class WebhookDelivery {
+  private server: TelegramServer;
+  private options: Required<WebhookDeliveryOptions>;
+  private apiCalls: ApiCallRecord[];
+  private running = false;
+  private unsubscribe: (() => void) | null = null;
+  private inFlight = new Set<number>();
+  private attemptCounts = new Map<number, number>();
+  private attempts: WebhookDeliveryAttempt[] = [];
+  private consecutiveFailures = 0;
+  private backoffTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    server: TelegramServer,
+    options: WebhookDeliveryOptions = {},
+    apiCalls: ApiCallRecord[] = [],
+  ) {
+    this.server = server;
+    this.options = {
+      retryDelay: options.retryDelay ?? 1000,
+      maxRetryDelay: options.maxRetryDelay ?? 60000,
+      timeout: options.timeout ?? 10000,
+      maxAttempts: options.maxAttempts ?? 5,
+    };
+    this.apiCalls = apiCalls;
+  }
+
+  /**
+   * Start delivering queued updates.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.unsubscribe = this.server.updateQueue.onPush(() => this.pump());
+    this.pump();
+  }
+
+  /**
+   * Stop delivering. Requests already in flight are allowed to finish,
+   * and pending flush() calls resolve.
+   */
+  stop(): void {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.backoffTimer) {
+      clearTimeout(this.backoffTimer);
+      this.backoffTimer = null;
+    }
+    this.resolveIdleWaiters();
+  }
+
+  /**
+   * Whether delivery is running.
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Number of requests currently in flight.
+   */
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Resolve once every queued update has been delivered or has failed `maxAttempts`
+   * times (or delivery stopped, or the webhook was deleted). Updates that failed stay
+   * pending, with the last error in `getWebhookInfo`.
+   */
+  flush(): Promise<void> {
+    this.pump();
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.idleWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Get all delivery attempts made so far.
+   */
+  getAttempts(): WebhookDeliveryAttempt[] {
+    return [...this.attempts];
+  }
+
+  /**
+   * Send as many queued updates as max_connections allows.
+   */
+  private pump(): void {
+    if (!this.running || this.backoffTimer) return;
+
+    const webhook = this.server.webhookState.getWebhook();
+    if (!webhook) return;
+
+    for (const update of this.server.updateQueue.peek()) {
+      if (this.inFlight.size >= webhook.maxConnections) break;
+      if (this.inFlight.has(update.update_id) || !this.isDeliverable(update)) continue;
+      this.inFlight.add(update.update_id);
+      void this.deliver(update, webhook.url, webhook.secretToken);
+    }
+  }
+
+  private async deliver(update: Update, url: string, secretToken?: string): Promise<void> {
+    const attempt = (this.attemptCounts.get(update.update_id) ?? 0) + 1;
+    this.attemptCounts.set(update.update_id, attempt);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (secretToken) {
+      headers["X-Telegram-Bot-Api-Secret-Token"] = secretToken;
+    }
+
+    let status: number | undefined;
+    let error: string | undefined;
+    let reply: unknown;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(update),
+        signal: AbortSignal.timeout(this.options.timeout),
+      });
+      status = res.status;
+      const text = await res.text();
+      if (res.ok) {
+        reply = this.parseReply(text);
+      } else {
+        error = `Wrong response from the webhook: ${res.status} ${res.statusText}`.trim();
+      }
+    } catch (err) {
+      error = this.describeError(err);
+    }
+
+    this.attempts.push({
+      updateId: update.update_id,
+      url,
+      attempt,
+      status,
+      error,
+      timestamp: Date.now(),
+    });
+
+    if (error === undefined) {
+      this.consecutiveFailures = 0;
+      this.attemptCounts.delete(update.update_id);
+      this.server.updateQueue.remove(update.update_id);
+      if (reply) {
+        await this.executeReply(reply as Record<string, unknown>);
+      }
+    } else {
+      this.consecutiveFailures++;
+      this.server.webhookState.recordError(
+        Math.floor(this.server.memberState.getCurrentTime() / 1000),
+        error,
+      );
+      this.scheduleRetry();
+    }
+
+    this.inFlight.delete(update.update_id);
+    if (this.isIdle()) {
+      this.resolveIdleWaiters();
+    } else {
+      this.pump();
+    }
+  }
+
+  /**
+   * Pause all deliveries for an exponentially growing delay.
+   */
+  private scheduleRetry(): void {
+    if (!this.running || this.backoffTimer) return;
+    const delay = Math.min(
+      this.options.retryDelay * 2 ** (this.consecutiveFailures - 1),
+      this.options.maxRetryDelay,
+    );
+    this.backoffTimer = setTimeout(() => {
+      this.backoffTimer = null;
+      this.pump();
+    }, delay);
+  }
+
+  /**
+   * Parse a webhook reply (a Bot API method call in the response body).
+   */
+  private parseReply(text: string): Record<string, unknown> | undefined {
+    if (text.trim() === "") return undefined;
+    try {
+      const parsed = JSON.parse(text) as unknown;
+      if (parsed && typeof parsed === "object" && "method" in parsed) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Telegram ignores response bodies that aren't method calls
+    }
+    return undefined;
+  }
+
+  private async executeReply(reply: Record<string, unknown>): Promise<void> {
+    const { method, ...payload } = reply;
+    const record: ApiCallRecord = {
+      method: String(method),
+      payload,
+      response: undefined,
+      timestamp: Date.now(),
+    };
+    try {
+      record.response = await this.server.handleApiCall(String(method), payload);
+    } catch (error) {
+      // Errors from webhook replies are not reported back to the bot
+      record.error = error as Error;
+    }
+    this.apiCalls.push(record);
+  }
+
+  private describeError(error: unknown): string {
+    const err = error as Error & { cause?: { code?: string } };
+    if (err.name === "TimeoutError" || err.name === "AbortError") {
+      return "Read timeout expired";
+    }
+    if (err.cause?.code === "ECONNREFUSED") {
+      return "Connection refused";
+    }
+    if (err.cause?.code === "ENOTFOUND") {
+      return "Failed to resolve host: Name or service not known";
+    }
+    return err.message;
+  }
+
+  private isIdle(): boolean {
+    if (!this.running || !this.server.webhookState.isActive()) {
+      return this.inFlight.size === 0;
+    }
+    return (
+      this.inFlight.size === 0 &&
+      !this.server.updateQueue.peek().some((update) => this.isDeliverable(update))
+    );
+  }
+
+  /**
+   * Whether an update has attempts left.
+   */
+  private isDeliverable(update: Update): boolean {
+    return (this.attemptCounts.get(update.update_id) ?? 0) < this.options.maxAttempts;
+  }
+
+  private resolveIdleWaiters(): void {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
+
+/**
+ * Create a new WebhookDelivery for a TelegramServer.
+ */
+export function createWebhookDelivery(
+  server: TelegramServer,
+  options: WebhookDeliveryOptions = {},
+): WebhookDelivery {
+  return new WebhookDelivery(server, options);
+}
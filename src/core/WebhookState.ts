@@ -0,0 +1,138 @@
+import type { WebhookInfo } from "grammy/types";
+
+/**
+ * Stored webhook registration.
+ */
+export interface StoredWebhook {
+  url: string;
+  secretToken?: string;
+  maxConnections: number;
+  ipAddress?: string;
+  hasCustomCertificate: boolean;
+  /** Update types passed to setWebhook (undefined = not specified) */
+  allowedUpdates?: string[];
+  /** Whether pending updates were dropped when the webhook was set */
+  dropPendingUpdates: boolean;
+  lastErrorDate?: number;
+  lastErrorMessage?: string;
+}
+
+/**
+ * Options accepted by WebhookState.setWebhook().
+ */
+export interface SetWebhookOptions {
+  secretToken?: string;
+  maxConnections?: number;
+  ipAddress?: string;
+  hasCustomCertificate?: boolean;
+  allowedUpdates?: string[];
+  dropPendingUpdates?: boolean;
+}
+
+/** Default max_connections used by Telegram */
+export const DEFAULT_WEBHOOK_MAX_CONNECTIONS = 40;
+
+/**
+ * Manages the bot's webhook registration.
+ */
+export class WebhookState {
+  /** Current webhook (null = long polling mode) */
+  private webhook: StoredWebhook | null = null;
+
+  /**
+   * Register a webhook, replacing any previous one.
+   * Errors recorded for a previous URL are kept only if the URL is unchanged.
+   */
+  setWebhook(url: string, options: SetWebhookOptions = {}): StoredWebhook {
+    const previous = this.webhook?.url === url ? this.webhook : null;
+
+    this.webhook = {
+      url,
+      secretToken: options.secretToken,
+      maxConnections: Math.min(
+        Math.max(options.maxConnections ?? DEFAULT_WEBHOOK_MAX_CONNECTIONS, 1),
+        100,
+      ),
+      ipAddress: options.ipAddress,
+      hasCustomCertificate: options.hasCustomCertificate ?? false,
+      allowedUpdates: options.allowedUpdates,
+      dropPendingUpdates: options.dropPendingUpdates ?? false,
+      lastErrorDate: previous?.lastErrorDate,
+      lastErrorMessage: previous?.lastErrorMessage,
+    };
+
+    return this.webhook;
+  }
+
+  /**
+   * Remove the webhook (switch back to getUpdates).
+   */
+  deleteWebhook(): boolean {
+    const existed = this.webhook !== null;
+    this.webhook = null;
+    return existed;
+  }
+
+  /**
+   * Get the current webhook registration.
+   */
+  getWebhook(): StoredWebhook | undefined {
+    return this.webhook ?? undefined;
+  }
+
+  /**
+   * Check if a webhook is set.
+   */
+  isActive(): boolean {
+    return this.webhook !== null;
+  }
+
+  /**
+   * Record a delivery error for the current webhook.
+   *
+   * @param date Unix time of the error
+   * @param message Error description shown in getWebhookInfo
+   */
+  recordError(date: number, message: string): void {
+    if (!this.webhook) return;
+    this.webhook.lastErrorDate = date;
+    this.webhook.lastErrorMessage = message;
+  }
+
+  /**
+   * Build the getWebhookInfo result.
+   *
+   * @param pendingUpdateCount Number of updates awaiting delivery
+   */
+  getWebhookInfo(pendingUpdateCount: number): WebhookInfo {
+    const webhook = this.webhook;
+    if (!webhook) {
+      return {
+        url: "",
+        has_custom_certificate: false,
+        pending_update_count: pendingUpdateCount,
+      };
+    }
+
+    const info: WebhookInfo = {
+      url: webhook.url,
+      has_custom_certificate: webhook.hasCustomCertificate,
+      pending_update_count: pendingUpdateCount,
+      max_connections: webhook.maxConnections,
+    };
+    if (webhook.ipAddress) info.ip_address = webhook.ipAddress;
+    if (webhook.lastErrorDate !== undefined) info.last_error_date = webhook.lastErrorDate;
+    if (webhook.lastErrorMessage !== undefined) info.last_error_message = webhook.lastErrorMessage;
+    if (webhook.allowedUpdates && webhook.allowedUpdates.length > 0) {
+      info.allowed_updates = [...webhook.allowedUpdates] as WebhookInfo["allowed_updates"];
+    }
+    return info;
+  }
+
+  /**
+   * Reset all state.
+   */
+  reset(): void {
+    this.webhook = null;
+  }
+}
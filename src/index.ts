@@ -1,5 +1,20 @@
 // Core exports
 
+// HTTP Bot API server
+export { type MultipartPart, parseMultipart, UploadedFile } from "./core/ApiPayload.js";
+export {
+  API_METHOD_SCHEMAS,
+  type ApiMethodSchema,
+  type ApiParamSpec,
+  type ApiParamType,
+  isApiMethod,
+  validateApiPayload,
+} from "./core/ApiSchema.js";
+export {
+  BotApiServer,
+  type BotApiServerOptions,
+  createBotApiServer,
+} from "./core/BotApiServer.js";
 // Response and factories
 export { BotResponse, createBotResponse, type TelegramError } from "./core/BotResponse.js";
 export {
@@ -19,26 +34,55 @@ export {
   ConversationTester,
   createConversationTester,
 } from "./core/ConversationTester.js";
+export {
+  createFaultInjector,
+  type Fault,
+  FaultInjector,
+  type FaultRule,
+  type FiredFault,
+} from "./core/FaultInjector.js";
 export { FetchInterceptor } from "./core/FetchInterceptor.js";
-export { FileState, type FileType, type StoredFile } from "./core/FileState.js";
+export {
+  FileState,
+  type FileType,
+  guessMimeType,
+  readImageSize,
+  type StoredFile,
+} from "./core/FileState.js";
 // Parsing
 export {
   formatText,
   type ParsedText,
+  ParseEntitiesError,
   type ParseMode,
   parseFormattedText,
 } from "./core/MarkdownParser.js";
+// Custom matchers
+export {
+  type ExpectedCallbackAnswer,
+  type GrammyMatchers,
+  grammyMatchers,
+  type MatcherContext,
+  type MatcherResult,
+  renderTranscript,
+} from "./core/Matchers.js";
 export {
   MemberState,
   type MemberStatus,
+  type RateLimitBudget,
+  type RateLimitCheckOptions,
+  type RateLimitCheckResult,
+  type RateLimitConfig,
   type RateLimitState,
   type StoredMember,
   type StoredProfilePhoto,
 } from "./core/MemberState.js";
+export { validateMessageEntities } from "./core/MessageEntities.js";
 export { createMockFetch } from "./core/MockFetch.js";
 export { PassportState, type StoredPassportData } from "./core/PassportState.js";
 export { PaymentState, type StoredStarTransaction } from "./core/PaymentState.js";
 export { PollState, type StoredPoll, type StoredVote } from "./core/PollState.js";
+export { type ReplyMarkupValidationOptions, validateReplyMarkup } from "./core/ReplyMarkup.js";
 // Runner support (for @grammyjs/runner)
 export {
   createTestUpdateSource,
@@ -56,7 +100,18 @@ export {
 export { type ApiCallRecord, createTestTransformer } from "./core/TestClient.js";
 export { createUpdateFactory, type IdCounters, UpdateFactory } from "./core/UpdateFactory.js";
 // Transport layer
-export { createUpdateQueue, UpdateQueue } from "./core/UpdateQueue.js";
+export {
+  createUpdateQueue,
+  DEFAULT_EXCLUDED_UPDATES,
+  getUpdateType,
+  UpdateQueue,
+} from "./core/UpdateQueue.js";
+export {
+  createWebhookDelivery,
+  WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookDeliveryOptions,
+} from "./core/WebhookDelivery.js";
 export {
   createWebhookSimulator,
   type MockExpressRequest,
@@ -69,6 +124,12 @@ export {
   type WebhookSimulationResult,
   WebhookSimulator,
 } from "./core/WebhookSimulator.js";
+export {
+  DEFAULT_WEBHOOK_MAX_CONNECTIONS,
+  type SetWebhookOptions,
+  type StoredWebhook,
+  WebhookState,
+} from "./core/WebhookState.js";
 // Worker/Queue simulation (for message queue patterns)
 export {
   createWorkerSimulator,
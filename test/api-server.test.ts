@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type BotApiServer, TestBot } from "../src/index.js";
+
+describe("Bot API HTTP Server", () => {
+  let testBot: TestBot;
+  let apiServer: BotApiServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    testBot = new TestBot();
+    apiServer = testBot.createApiServer({ token: "TEST:TOKEN" });
+    baseUrl = await apiServer.listen();
+  });
+
+  afterEach(async () => {
+    await apiServer.close();
+    testBot.dispose();
+  });
+
+  describe("Method Calls", () => {
+    it("should answer getMe over HTTP", async () => {
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/getMe`);
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.ok).toBe(true);
+      expect(body.result.username).toBe("test_bot");
+    });
+
+    it("should accept JSON bodies", async () => {
+      const chat = testBot.createChat({ type: "private" });
+
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: chat.id, text: "Hello from Python" }),
+      });
+      const body = await res.json();
+
+      expect(body.ok).toBe(true);
+      expect(body.result.text).toBe("Hello from Python");
+      expect(testBot.server.getLastBotMessage(chat.id)?.message_id).toBe(body.result.message_id);
+    });
+
+    it("should accept urlencoded bodies with JSON-serialized fields", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const markup = { inline_keyboard: [[{ text: "Go", callback_data: "go" }]] };
+
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          chat_id: String(chat.id),
+          text: "Pick one",
+          reply_markup: JSON.stringify(markup),
+        }).toString(),
+      });
+      const body = await res.json();
+
+      expect(body.ok).toBe(true);
+      expect(body.result.reply_markup).toEqual(markup);
+    });
+
+    it("should keep numeric- and boolean-looking text as strings", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const send = async (text: string) => {
+        const res = await fetch(`${baseUrl}/botTEST:TOKEN/sendMessage`, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({
+            chat_id: String(chat.id),
+            text,
+            disable_notification: "true",
+          }).toString(),
+        });
+        return res.json();
+      };
+
+      for (const text of ["42", "true", "null", "1e3", '"quoted"', "[1]"]) {
+        const body = await send(text);
+        expect(body.ok, text).toBe(true);
+        expect(body.result.text).toBe(text);
+      }
+      expect(testBot.server.getLastBotMessage(chat.id)?.chat.id).toBe(chat.id);
+    });
+
+    it("should accept multipart bodies", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const form = new FormData();
+      form.append("chat_id", String(chat.id));
+      form.append("caption", "Report");
+      form.append("document", new Blob(["a,b\n1,2\n"], { type: "text/csv" }), "report.csv");
+
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/sendDocument`, {
+        method: "POST",
+        body: form,
+      });
+      const body = await res.json();
+
+      expect(body.ok).toBe(true);
+      expect(body.result.caption).toBe("Report");
+      expect(body.result.document).toMatchObject({
+        file_name: "report.csv",
+        mime_type: "text/csv",
+      });
+      expect(
+        testBot.server.fileState.getFileContent(body.result.document.file_id)?.toString(),
+      ).toBe("a,b\n1,2\n");
+    });
+
+    it("should accept query string parameters", async () => {
+      const chat = testBot.createChat({ type: "group", title: "HTTP Group" });
+
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/getChat?chat_id=${chat.id}`);
+      const body = await res.json();
+
+      expect(body.ok).toBe(true);
+      expect(body.result.title).toBe("HTTP Group");
+    });
+
+    it("should return Telegram errors with matching HTTP status", async () => {
+      const res = await fetch(`${baseUrl}/botTEST:TOKEN/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: 999999, text: "nobody home" }),
+      });
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(body).toEqual({
+        ok: false,
+        error_code: 400,
+        description: "Bad Request: chat not found",
+      });
+    });
+
+    it("should reject unknown tokens", async () => {
+      const res = await fetch(`${baseUrl}/botWRONG:TOKEN/getMe`);
+      const body = await res.json();
+
+      expect(res.status).toBe(401);
+      expect(body.description).toBe("Unauthorized");
+    });
+
+    it("should return 404 for paths outside the Bot API", async () => {
+      const res = await fetch(`${baseUrl}/health`);
+      expect(res.status).toBe(404);
+    });
+
+    it("should record API calls in the bot's call log", async () => {
+      const chat = testBot.createChat({ type: "private" });
+
+      await fetch(`${baseUrl}/botTEST:TOKEN/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: chat.id, text: "logged" }),
+      });
+
+      const calls = testBot.getApiCalls().filter((c) => c.method === "sendMessage");
+      expect(calls).toHaveLength(1);
+      expect(calls[0].payload.text).toBe("logged");
+      expect(apiServer.getApiCalls()).toHaveLength(1);
+    });
+  });
+
+  describe("File Downloads", () => {
+    it("should serve stored file content by file_path", async () => {
+      const stored = testBot.server.fileState.storeFile("document", {
+        fileName: "hello.txt",
+        mimeType: "text/plain",
+        content: Buffer.from("hello world"),
+      });
+
+      const res = await fetch(`${baseUrl}/file/botTEST:TOKEN/${stored.filePath}`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/plain");
+      expect(res.headers.get("content-length")).toBe("11");
+      expect(await res.text()).toBe("hello world");
+    });
+
+    it("should return 404 for unknown file paths", async () => {
+      const res = await fetch(`${baseUrl}/file/botTEST:TOKEN/documents/missing`);
+      expect(res.status).toBe(404);
+    });
+
+    it("should refuse files larger than 20 MB", async () => {
+      const stored = testBot.server.fileState.storeFile("video", { fileSize: 21 * 1024 * 1024 });
+
+      const res = await fetch(`${baseUrl}/file/botTEST:TOKEN/${stored.filePath}`);
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).description).toBe("Bad Request: file is too big");
+    });
+  });
+
+  describe("Lifecycle", () => {
+    it("should expose its URL while listening", () => {
+      expect(apiServer.isListening).toBe(true);
+      expect(apiServer.url).toBe(baseUrl);
+      expect(baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    });
+
+    it("should stop accepting connections after close", async () => {
+      await apiServer.close();
+
+      expect(apiServer.isListening).toBe(false);
+      await expect(fetch(`${baseUrl}/botTEST:TOKEN/getMe`)).rejects.toThrow();
+    });
+  });
+});
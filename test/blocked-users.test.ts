@@ -0,0 +1,129 @@
+import { GrammyError } from "grammy";
+import type { ChatMemberUpdated, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Blocked and Deactivated Users", () => {
+  let testBot: TestBot;
+  let user: User;
+  let myMemberUpdates: ChatMemberUpdated[];
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    user = testBot.createUser({ first_name: "Alice" });
+
+    myMemberUpdates = [];
+    testBot.on("my_chat_member", (ctx) => {
+      myMemberUpdates.push(ctx.myChatMember);
+    });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("blocking the bot", () => {
+    it("should emit my_chat_member with the bot kicked", async () => {
+      const response = await testBot.blockBot(user);
+
+      expect(myMemberUpdates).toHaveLength(1);
+      expect(myMemberUpdates[0]).toMatchObject({
+        chat: { id: user.id, type: "private", first_name: "Alice" },
+        from: { id: user.id },
+        old_chat_member: { status: "member", user: { id: testBot.botInfo.id } },
+        new_chat_member: { status: "kicked", user: { id: testBot.botInfo.id }, until_date: 0 },
+      });
+      expect(response.generatedUpdates).toHaveLength(1);
+    });
+
+    it("should fail sends with 403", async () => {
+      await testBot.blockBot(user);
+
+      const error = await testBot.api.sendMessage(user.id, "Hi").catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 403,
+        description: "Forbidden: bot was blocked by the user",
+      });
+      await expect(testBot.api.sendChatAction(user.id, "typing")).rejects.toThrow(
+        "Forbidden: bot was blocked by the user",
+      );
+      await expect(testBot.api.sendPhoto(user.id, "https://example.com/photo.jpg")).rejects.toThrow(
+        "Forbidden: bot was blocked by the user",
+      );
+    });
+
+    it("should not affect groups", async () => {
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      await testBot.blockBot(user);
+
+      await expect(testBot.api.sendMessage(group.id, "Hi")).resolves.toMatchObject({
+        chat: { id: group.id },
+      });
+    });
+
+    it("should not emit twice for repeated blocks", async () => {
+      await testBot.blockBot(user);
+      await testBot.blockBot(user);
+
+      expect(myMemberUpdates).toHaveLength(1);
+    });
+
+    it("should restore delivery when unblocked", async () => {
+      await testBot.blockBot(user);
+      await testBot.unblockBot(user);
+
+      expect(myMemberUpdates.map((u) => u.new_chat_member.status)).toEqual(["kicked", "member"]);
+      await expect(testBot.api.sendMessage(user.id, "Welcome back")).resolves.toMatchObject({
+        text: "Welcome back",
+      });
+    });
+  });
+
+  describe("deactivated accounts", () => {
+    it("should fail sends with 403", async () => {
+      testBot.deactivateUser(user);
+
+      await expect(testBot.api.sendMessage(user.id, "Hi")).rejects.toMatchObject({
+        error_code: 403,
+        description: "Forbidden: user is deactivated",
+      });
+    });
+
+    it("should take precedence over a block", async () => {
+      await testBot.blockBot(user);
+      testBot.deactivateUser(user);
+
+      await expect(testBot.api.sendMessage(user.id, "Hi")).rejects.toThrow(
+        "Forbidden: user is deactivated",
+      );
+    });
+  });
+
+  it("should let a broadcast drop dead subscribers", async () => {
+    const active = testBot.createUser({ first_name: "Bob" });
+    const deleted = testBot.createUser({ first_name: "Carol" });
+    const subscribers = new Set([user.id, active.id, deleted.id]);
+    for (const subscriber of [user, active, deleted]) {
+      testBot.createChat({ type: "private", id: subscriber.id, first_name: subscriber.first_name });
+    }
+    await testBot.blockBot(user);
+    testBot.deactivateUser(deleted);
+
+    const delivered: number[] = [];
+    for (const id of subscribers) {
+      try {
+        await testBot.api.sendMessage(id, "Weekly digest");
+        delivered.push(id);
+      } catch (error) {
+        if (error instanceof GrammyError && error.error_code === 403) {
+          subscribers.delete(id);
+        }
+      }
+    }
+
+    expect(delivered).toEqual([active.id]);
+    expect([...subscribers]).toEqual([active.id]);
+  });
+});
@@ -226,4 +226,102 @@ describe("Bot Settings", () => {
       expect(response.text).toBe("Channel: true, Chat: true");
     });
   });
+
+  describe("bot commands", () => {
+    const start = { command: "start", description: "Start the bot" };
+    const help = { command: "help", description: "Show help" };
+    const ban = { command: "ban", description: "Ban a user" };
+
+    it("should store commands per scope", async () => {
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([help], { scope: { type: "all_private_chats" } });
+
+      expect(await testBot.api.getMyCommands()).toEqual([start]);
+      expect(await testBot.api.getMyCommands({ scope: { type: "all_private_chats" } })).toEqual([
+        help,
+      ]);
+    });
+
+    it("should store commands per language", async () => {
+      const startRu = { command: "start", description: "Запустить бота" };
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([startRu], { language_code: "ru" });
+
+      expect(await testBot.api.getMyCommands({ language_code: "ru" })).toEqual([startRu]);
+      expect(await testBot.api.getMyCommands({ language_code: "de" })).toEqual([start]);
+    });
+
+    it("should fall back to broader scopes", async () => {
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([help], { scope: { type: "all_group_chats" } });
+
+      expect(
+        await testBot.api.getMyCommands({ scope: { type: "chat", chat_id: group.id } }),
+      ).toEqual([help]);
+      expect(await testBot.api.getMyCommands({ scope: { type: "all_private_chats" } })).toEqual([
+        start,
+      ]);
+    });
+
+    it("should delete commands for a scope only", async () => {
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([help], { scope: { type: "all_private_chats" } });
+      await testBot.api.deleteMyCommands({ scope: { type: "all_private_chats" } });
+
+      expect(await testBot.api.getMyCommands({ scope: { type: "all_private_chats" } })).toEqual([
+        start,
+      ]);
+    });
+
+    it("should resolve the menu a user sees", async () => {
+      const admin = testBot.createUser({ first_name: "Admin", language_code: "en" });
+      const member = testBot.createUser({ first_name: "Member", language_code: "en" });
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      testBot.setAdmin(group, admin, {});
+      testBot.setMember(group, member);
+
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([help], { scope: { type: "chat", chat_id: group.id } });
+      await testBot.api.setMyCommands([help, ban], {
+        scope: { type: "all_chat_administrators" },
+      });
+
+      expect(testBot.server.getCommandsForUser(member.id, group.id)).toEqual([help]);
+      // The chat scope beats all_chat_administrators
+      expect(testBot.server.getCommandsForUser(admin.id, group.id)).toEqual([help]);
+
+      await testBot.api.setMyCommands([help, ban], {
+        scope: { type: "chat_administrators", chat_id: group.id },
+      });
+      expect(testBot.server.getCommandsForUser(admin.id, group.id)).toEqual([help, ban]);
+      expect(testBot.server.getCommandsForUser(member.id, group.id)).toEqual([help]);
+    });
+
+    it("should use the user's language for the menu", async () => {
+      const user = testBot.createUser({ first_name: "Ivan", language_code: "ru" });
+      const chat = testBot.createChat({ type: "private", first_name: "Ivan" });
+      testBot.setMember(chat, user);
+      const startRu = { command: "start", description: "Запустить бота" };
+
+      await testBot.api.setMyCommands([start]);
+      await testBot.api.setMyCommands([startRu], { language_code: "ru" });
+
+      expect(testBot.server.getCommandsForUser(user.id, chat.id)).toEqual([startRu]);
+      expect(testBot.server.getCommandsForUser(user.id, chat.id, "en")).toEqual([start]);
+    });
+
+    it("should prefer a member scope over everything else", async () => {
+      const user = testBot.createUser({ first_name: "Alice" });
+      const group = testBot.createChat({ type: "group", title: "Group" });
+      testBot.setMember(group, user);
+
+      await testBot.api.setMyCommands([start], { scope: { type: "chat", chat_id: group.id } });
+      await testBot.api.setMyCommands([ban], {
+        scope: { type: "chat_member", chat_id: group.id, user_id: user.id },
+      });
+
+      expect(testBot.server.getCommandsForUser(user.id, group.id)).toEqual([ban]);
+    });
+  });
 });
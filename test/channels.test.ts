@@ -0,0 +1,284 @@
+import { GrammyError } from "grammy";
+import type { Chat, Message } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Channels", () => {
+  let testBot: TestBot;
+  let channel: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    channel = testBot.createChat({ type: "channel", title: "News" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("channel posts", () => {
+    it("should deliver channel_post updates", async () => {
+      let received: Message | undefined;
+      testBot.on("channel_post", (ctx) => {
+        received = ctx.channelPost;
+      });
+
+      const response = await testBot.sendChannelPost(channel, "Breaking news", {
+        authorSignature: "Alice",
+      });
+
+      expect(received).toMatchObject({
+        chat: { id: channel.id, type: "channel" },
+        sender_chat: { id: channel.id },
+        author_signature: "Alice",
+        text: "Breaking news",
+      });
+      expect(received?.from).toBeUndefined();
+      expect(response.sentMessage?.message_id).toBe(received?.message_id);
+    });
+
+    it("should deliver edited_channel_post updates", async () => {
+      const edits: string[] = [];
+      testBot.on("edited_channel_post:text", (ctx) => {
+        edits.push(ctx.editedChannelPost.text);
+      });
+
+      const post = await testBot.sendChannelPost(channel, "Draft");
+      await testBot.editChannelPost(channel, post.sentMessage?.message_id ?? 0, "Final");
+
+      expect(edits).toEqual(["Final"]);
+      expect(
+        testBot.server.chatState.getMessage(channel.id, post.sentMessage?.message_id ?? 0),
+      ).toMatchObject({ text: "Final", edit_date: expect.any(Number) });
+    });
+
+    it("should parse formatted posts", async () => {
+      let received: Message | undefined;
+      testBot.on("channel_post", (ctx) => {
+        received = ctx.channelPost;
+      });
+
+      await testBot.sendChannelPost(channel, "<b>Big</b> news", { parseMode: "HTML" });
+
+      expect(received?.text).toBe("Big news");
+      expect(received?.entities).toEqual([{ type: "bold", offset: 0, length: 3 }]);
+    });
+  });
+
+  describe("posting as the bot", () => {
+    it("should send posts as the channel", async () => {
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+
+      const message = await testBot.api.sendMessage(channel.id, "Hello subscribers");
+
+      expect(message.sender_chat).toMatchObject({ id: channel.id });
+      expect(message.from).toBeUndefined();
+      expect(message.author_signature).toBeUndefined();
+    });
+
+    it("should sign posts when the channel signs messages", async () => {
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+      testBot.server.chatState.setSignMessages(channel.id, true);
+
+      const message = await testBot.api.sendMessage(channel.id, "Signed");
+
+      expect(message.author_signature).toBe(testBot.botInfo.first_name);
+    });
+
+    it("should reply to channel posts in the channel", async () => {
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+      testBot.on("channel_post", (ctx) => ctx.reply("Noted"));
+
+      const response = await testBot.sendChannelPost(channel, "Post");
+
+      expect(response.text).toBe("Noted");
+      expect(response.messages[0].sender_chat?.id).toBe(channel.id);
+    });
+
+    it("should reject posts when the bot is not a member", async () => {
+      const error = await testBot.api.sendMessage(channel.id, "Hi").catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 403,
+        description: "Forbidden: bot is not a member of the channel chat",
+      });
+    });
+
+    it("should require can_post_messages", async () => {
+      testBot.setBotAdmin(channel, { can_edit_messages: true });
+
+      await expect(testBot.api.sendMessage(channel.id, "Hi")).rejects.toThrow(
+        "Bad Request: need administrator rights in the channel chat",
+      );
+      await expect(
+        testBot.api.sendPhoto(channel.id, "https://example.com/photo.jpg"),
+      ).rejects.toThrow("Bad Request: need administrator rights in the channel chat");
+    });
+
+    it("should let the channel owner post", async () => {
+      testBot.setOwner(channel, testBot.botInfo);
+
+      await expect(testBot.api.sendMessage(channel.id, "Hi")).resolves.toMatchObject({
+        sender_chat: { id: channel.id },
+      });
+    });
+  });
+
+  describe("editing as the bot", () => {
+    it("should edit its own posts with can_post_messages", async () => {
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+      const message = await testBot.api.sendMessage(channel.id, "Draft");
+
+      const edited = await testBot.api.editMessageText(channel.id, message.message_id, "Final");
+
+      expect(edited).toMatchObject({ text: "Final" });
+    });
+
+    it("should require can_edit_messages for other posts", async () => {
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+      const post = await testBot.sendChannelPost(channel, "By an admin");
+      const messageId = post.sentMessage?.message_id ?? 0;
+
+      await expect(testBot.api.editMessageText(channel.id, messageId, "Changed")).rejects.toThrow(
+        "Bad Request: message can't be edited",
+      );
+
+      testBot.setBotAdmin(channel, { can_post_messages: true, can_edit_messages: true });
+      await expect(
+        testBot.api.editMessageText(channel.id, messageId, "Changed"),
+      ).resolves.toMatchObject({ text: "Changed" });
+    });
+  });
+
+  it("should report channel rights in getChatMember", async () => {
+    testBot.setBotAdmin(channel, { can_post_messages: true, can_edit_messages: false });
+
+    const member = await testBot.api.getChatMember(channel.id, testBot.botInfo.id);
+
+    expect(member).toMatchObject({
+      status: "administrator",
+      can_post_messages: true,
+      can_edit_messages: false,
+    });
+  });
+
+  describe("discussion groups", () => {
+    let group: Chat;
+
+    beforeEach(() => {
+      group = testBot.createChat({ type: "supergroup", title: "News Chat" });
+      testBot.server.chatState.linkDiscussionGroup(channel.id, group.id);
+      testBot.setBotAdmin(channel, { can_post_messages: true });
+      testBot.setBotAdmin(group, { can_delete_messages: true });
+    });
+
+    it("should report linked_chat_id in getChat", async () => {
+      expect(await testBot.api.getChat(channel.id)).toMatchObject({ linked_chat_id: group.id });
+      expect(await testBot.api.getChat(group.id)).toMatchObject({ linked_chat_id: channel.id });
+    });
+
+    it("should only link channels to supergroups", () => {
+      const basicGroup = testBot.createChat({ type: "group", title: "Basic" });
+
+      expect(testBot.server.chatState.linkDiscussionGroup(channel.id, basicGroup.id)).toBe(false);
+    });
+
+    it("should forward bot posts to the discussion group", async () => {
+      const post = await testBot.api.sendMessage(channel.id, "Release notes");
+
+      const forwardId = testBot.server.chatState.getDiscussionMessageId(
+        channel.id,
+        post.message_id,
+      );
+      const forward = testBot.server.chatState.getMessage(group.id, forwardId ?? 0);
+
+      expect(forward).toMatchObject({
+        chat: { id: group.id },
+        from: { id: 777000, first_name: "Telegram" },
+        sender_chat: { id: channel.id },
+        is_automatic_forward: true,
+        forward_origin: { type: "channel", chat: { id: channel.id }, message_id: post.message_id },
+        text: "Release notes",
+      });
+    });
+
+    it("should deliver the automatic forward after the channel post", async () => {
+      const seen: string[] = [];
+      testBot.on("channel_post", () => {
+        seen.push("channel_post");
+      });
+      testBot.on("message", (ctx) => {
+        seen.push(ctx.message.is_automatic_forward ? "automatic_forward" : "message");
+      });
+
+      const response = await testBot.sendChannelPost(channel, "Admin post");
+
+      expect(seen).toEqual(["channel_post", "automatic_forward"]);
+      expect(response.generatedUpdates[0].message?.is_automatic_forward).toBe(true);
+    });
+
+    it("should not forward posts of unlinked channels", async () => {
+      testBot.server.chatState.unlinkDiscussionGroup(group.id);
+
+      const post = await testBot.api.sendMessage(channel.id, "No comments");
+
+      expect(testBot.server.chatState.getLinkedChatId(channel.id)).toBeUndefined();
+      expect(
+        testBot.server.chatState.getDiscussionMessageId(channel.id, post.message_id),
+      ).toBeUndefined();
+      expect(testBot.server.chatState.getAllMessages(group.id)).toEqual([]);
+    });
+
+    it("should thread comments under the automatic forward", async () => {
+      const user = testBot.createUser({ first_name: "Alice" });
+      testBot.on("message:text", async (ctx) => {
+        if (ctx.message.text.includes("spam")) {
+          await ctx.deleteMessage();
+        }
+      });
+
+      const post = await testBot.sendChannelPost(channel, "Release notes");
+      const postId = post.sentMessage?.message_id ?? 0;
+      const forwardId = testBot.server.chatState.getDiscussionMessageId(channel.id, postId);
+
+      const comment = await testBot.sendComment(user, channel, postId, "Great release");
+      const spam = await testBot.sendComment(user, channel, postId, "buy spam now");
+
+      expect(comment.sentMessage).toMatchObject({
+        chat: { id: group.id },
+        message_thread_id: forwardId,
+        reply_to_message: { message_id: forwardId, is_automatic_forward: true },
+      });
+      expect(spam.deletedMessageIds).toEqual([spam.sentMessage?.message_id]);
+    });
+
+    it("should apply privacy mode in the discussion group", async () => {
+      testBot.setBotMember(group);
+      const user = testBot.createUser({ first_name: "Alice" });
+      const messages: unknown[] = [];
+      testBot.on("message", (ctx) => {
+        messages.push(ctx.message);
+      });
+
+      const post = await testBot.sendChannelPost(channel, "Release notes");
+      const comment = await testBot.sendComment(
+        user,
+        channel,
+        post.sentMessage?.message_id ?? 0,
+        "Great",
+      );
+
+      expect(messages).toEqual([]);
+      expect(comment.suppressed).toBe(true);
+    });
+
+    it("should reject comments on posts without a thread", async () => {
+      const user = testBot.createUser({ first_name: "Alice" });
+
+      await expect(testBot.sendComment(user, channel, 999, "Hello?")).rejects.toThrow(
+        "has no comment thread",
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import type { Chat, ChatMemberUpdated, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Chat Member Updates", () => {
+  let testBot: TestBot;
+  let admin: User;
+  let user: User;
+  let group: Chat;
+  let memberUpdates: ChatMemberUpdated[];
+  let myMemberUpdates: ChatMemberUpdated[];
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    admin = testBot.createUser({ first_name: "Admin" });
+    user = testBot.createUser({ first_name: "Alice" });
+    group = testBot.createChat({ type: "supergroup", title: "Group" });
+    testBot.setOwner(group, admin);
+    testBot.setMember(group, user);
+    testBot.setBotAdmin(group, {
+      can_restrict_members: true,
+      can_promote_members: true,
+      can_invite_users: true,
+    });
+
+    // chat_member updates must be requested explicitly, like on Telegram
+    testBot.server.updateQueue.setAllowedUpdates(["message", "chat_member", "my_chat_member"]);
+
+    memberUpdates = [];
+    myMemberUpdates = [];
+    testBot.on("chat_member", (ctx) => {
+      memberUpdates.push(ctx.chatMember);
+    });
+    testBot.on("my_chat_member", (ctx) => {
+      myMemberUpdates.push(ctx.myChatMember);
+    });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  it("should emit chat_member when the bot bans a user", async () => {
+    testBot.command("ban", (ctx) => ctx.banChatMember(user.id));
+
+    const response = await testBot.sendCommand(admin, group, "/ban");
+
+    expect(memberUpdates).toHaveLength(1);
+    expect(memberUpdates[0]).toMatchObject({
+      chat: { id: group.id },
+      from: { id: testBot.botInfo.id },
+      old_chat_member: { status: "member", user: { id: user.id } },
+      new_chat_member: { status: "kicked", user: { id: user.id }, until_date: 0 },
+    });
+    expect(response.generatedUpdates).toHaveLength(1);
+  });
+
+  it("should emit chat_member for promotions and demotions", async () => {
+    testBot.command("promote", (ctx) => ctx.promoteChatMember(user.id, { can_pin_messages: true }));
+    testBot.command("demote", (ctx) => ctx.promoteChatMember(user.id, {}));
+
+    await testBot.sendCommand(admin, group, "/promote");
+    await testBot.sendCommand(admin, group, "/demote");
+
+    expect(memberUpdates.map((u) => [u.old_chat_member.status, u.new_chat_member.status])).toEqual([
+      ["member", "administrator"],
+      ["administrator", "member"],
+    ]);
+    expect(memberUpdates[0].new_chat_member).toMatchObject({ can_pin_messages: true });
+  });
+
+  it("should emit chat_member for restrictions", async () => {
+    const untilDate = Math.floor(testBot.server.memberState.getCurrentTime() / 1000) + 3600;
+    testBot.command("mute", (ctx) =>
+      ctx.restrictChatMember(user.id, { can_send_messages: false }, { until_date: untilDate }),
+    );
+
+    await testBot.sendCommand(admin, group, "/mute");
+
+    expect(memberUpdates).toHaveLength(1);
+    expect(memberUpdates[0].new_chat_member).toMatchObject({
+      status: "restricted",
+      can_send_messages: false,
+      until_date: untilDate,
+    });
+  });
+
+  it("should not emit an update when nothing changed", async () => {
+    testBot.command("mute", (ctx) => ctx.restrictChatMember(user.id, { can_send_messages: false }));
+
+    await testBot.sendCommand(admin, group, "/mute");
+    await testBot.sendCommand(admin, group, "/mute");
+
+    expect(memberUpdates).toHaveLength(1);
+  });
+
+  it("should emit chat_member when a join request is approved", async () => {
+    const newUser = testBot.createUser({ first_name: "Bob" });
+    const link = testBot.server.chatState.createInviteLink(group.id, admin, {
+      creates_join_request: true,
+    });
+    testBot.on("chat_join_request", (ctx) =>
+      ctx.approveChatJoinRequest(ctx.chatJoinRequest.from.id),
+    );
+
+    await testBot.simulateJoinRequest(newUser, group, link.invite_link);
+
+    expect(memberUpdates).toHaveLength(1);
+    expect(memberUpdates[0]).toMatchObject({
+      old_chat_member: { status: "left", user: { id: newUser.id } },
+      new_chat_member: { status: "member", user: { id: newUser.id } },
+      via_join_request: true,
+    });
+  });
+
+  it("should emit my_chat_member when the bot itself is affected", async () => {
+    testBot.command("selfpromote", (ctx) =>
+      ctx.promoteChatMember(testBot.botInfo.id, { can_pin_messages: true }),
+    );
+
+    await testBot.sendCommand(admin, group, "/selfpromote");
+
+    expect(memberUpdates).toEqual([]);
+    expect(myMemberUpdates).toHaveLength(1);
+    expect(myMemberUpdates[0].new_chat_member).toMatchObject({
+      status: "administrator",
+      user: { id: testBot.botInfo.id },
+      can_pin_messages: true,
+    });
+  });
+
+  it("should honour allowed_updates", async () => {
+    testBot.server.updateQueue.setAllowedUpdates([]);
+    testBot.command("ban", (ctx) => ctx.banChatMember(user.id));
+
+    const response = await testBot.sendCommand(admin, group, "/ban");
+
+    // chat_member is not part of Telegram's default update set
+    expect(memberUpdates).toEqual([]);
+    expect(response.generatedUpdates).toEqual([]);
+  });
+
+  it("should queue updates for API calls made outside a simulated action", async () => {
+    await testBot.api.banChatMember(group.id, user.id);
+
+    const updates = await testBot.api.getUpdates();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].chat_member?.new_chat_member.status).toBe("kicked");
+    expect(memberUpdates).toEqual([]);
+  });
+});
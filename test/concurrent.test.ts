@@ -154,6 +154,7 @@ describe("Concurrent Interactions", () => {
       );
 
       const chat = testBot.createChat({ type: "group", title: "Test" });
+      testBot.setBotAdmin(chat); // admins see every group message
       for (const u of users) {
         testBot.setMember(chat, u);
       }
@@ -517,6 +518,7 @@ describe("Concurrent Interactions", () => {
       );
 
       const chat = testBot.createChat({ type: "group", title: "Test" });
+      testBot.setBotAdmin(chat); // admins see every group message
       for (const u of users) {
         testBot.setMember(chat, u);
       }
@@ -634,6 +636,7 @@ describe("Concurrent Interactions", () => {
         testBot.createUser({ id: 1000 + i, first_name: `User${i}` }),
       );
       const chat = testBot.createChat({ type: "group", title: "Test" });
+      testBot.setBotAdmin(chat); // admins see every group message
 
       for (const user of users) {
         testBot.setMember(chat, user);
@@ -737,6 +740,7 @@ describe("Concurrent Interactions", () => {
         testBot.createUser({ id: 4000 + i, first_name: `ApiTracker${i}` }),
       );
       const chat = testBot.createChat({ type: "group", title: "API Test" });
+      testBot.setBotAdmin(chat); // admins see every group message
 
       for (const user of users) {
         testBot.setMember(chat, user);
@@ -295,6 +295,7 @@ describe("Error Handling", () => {
     it("should allow admin to send multiple messages", async () => {
       const admin = testBot.createUser({ first_name: "Admin" });
       const group = testBot.createChat({ type: "supergroup", title: "Test" });
+      testBot.setBotAdmin(group); // admins see every group message
 
       testBot.setOwner(group, admin);
       testBot.server.chatState.setSlowModeDelay(group.id, 30);
@@ -0,0 +1,255 @@
+import { Bot, BotError, GrammyError, HttpError } from "grammy";
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockFetch, TestBot } from "../src/index.js";
+
+describe("Fault Injection", () => {
+  let testBot: TestBot;
+  let chat: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("rate limits", () => {
+    it("should fail the next calls with 429 and retry_after", async () => {
+      testBot.injectFault({
+        method: "sendMessage",
+        times: 2,
+        fault: { type: "rate_limit", retryAfter: 5 },
+      });
+
+      const errors: GrammyError[] = [];
+      for (let i = 0; i < 2; i++) {
+        await testBot.api.sendMessage(chat.id, "Hi").catch((e: GrammyError) => errors.push(e));
+      }
+      const message = await testBot.api.sendMessage(chat.id, "Hi");
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatchObject({
+        error_code: 429,
+        description: "Too Many Requests: retry after 5",
+        parameters: { retry_after: 5 },
+      });
+      expect(message.text).toBe("Hi");
+      expect(testBot.server.faultInjector.getRules()).toEqual([]);
+    });
+
+    it("should let a retry loop honour retry_after", async () => {
+      testBot.injectFault({
+        method: "sendMessage",
+        times: 2,
+        fault: { type: "rate_limit", retryAfter: 5 },
+      });
+      const start = testBot.server.memberState.getCurrentTime();
+
+      let message: Awaited<ReturnType<typeof testBot.api.sendMessage>> | undefined;
+      while (!message) {
+        try {
+          message = await testBot.api.sendMessage(chat.id, "Eventually");
+        } catch (error) {
+          if (!(error instanceof GrammyError) || !error.parameters.retry_after) throw error;
+          testBot.advanceTime(error.parameters.retry_after);
+        }
+      }
+
+      expect(testBot.server.memberState.getCurrentTime() - start).toBe(10000);
+    });
+  });
+
+  describe("fault types", () => {
+    it("should return 502 Bad Gateway", async () => {
+      testBot.injectFault({ fault: { type: "error", code: 502, description: "Bad Gateway" } });
+
+      await expect(testBot.api.getMe()).rejects.toMatchObject({
+        error_code: 502,
+        description: "Bad Gateway",
+      });
+    });
+
+    it("should throw network errors as HttpError", async () => {
+      testBot.injectFault({ method: "getFile", fault: { type: "network" } });
+
+      const error = await testBot.api.getFile("file_1").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).message).toBe("Network request for 'getFile' failed!");
+    });
+
+    it("should reject the fetch for network errors over createMockFetch", async () => {
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+      testBot.injectFault({
+        method: "sendMessage",
+        fault: { type: "network", message: "ECONNRESET" },
+      });
+
+      const error = await bot.api.sendMessage(chat.id, "Hi").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).error).toMatchObject({ message: "ECONNRESET" });
+    });
+
+    it("should delay calls in simulated time", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "Draft");
+      testBot.injectFault({ method: "editMessageText", fault: { type: "delay", seconds: 3 } });
+      const start = testBot.server.memberState.getCurrentTime();
+
+      const edited = await testBot.api.editMessageText(chat.id, message.message_id, "Final");
+
+      expect(edited).toMatchObject({ text: "Final" });
+      expect(testBot.server.memberState.getCurrentTime() - start).toBe(3000);
+    });
+
+    it("should apply a delay before a failure", async () => {
+      testBot.injectFault({ method: "sendMessage", fault: { type: "delay", seconds: 2 } });
+      testBot.injectFault({ method: "sendMessage", fault: { type: "network" } });
+
+      await expect(testBot.api.sendMessage(chat.id, "Hi")).rejects.toBeInstanceOf(HttpError);
+
+      expect(testBot.server.faultInjector.getLog().map((f) => f.fault.type)).toEqual([
+        "delay",
+        "network",
+      ]);
+    });
+  });
+
+  describe("scoping", () => {
+    it("should only affect the given chat", async () => {
+      const other = testBot.createChat({ type: "private", first_name: "Bob" });
+      testBot.injectFault({
+        chatId: other.id,
+        fault: { type: "error", code: 403, description: "Forbidden: bot was blocked by the user" },
+      });
+
+      await expect(testBot.api.sendMessage(chat.id, "Hi")).resolves.toBeDefined();
+      await expect(testBot.api.sendMessage(other.id, "Hi")).rejects.toThrow("blocked");
+    });
+
+    it("should match any of several methods", async () => {
+      testBot.injectFault({
+        method: ["sendPhoto", "sendDocument"],
+        fault: { type: "error", code: 500, description: "Internal Server Error" },
+      });
+
+      await expect(testBot.api.sendMessage(chat.id, "Hi")).resolves.toBeDefined();
+      await expect(testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg")).rejects.toThrow(
+        "Internal Server Error",
+      );
+    });
+
+    it("should fire probabilistic rules by the random source", async () => {
+      const rolls = [0.9, 0.1, 0.5];
+      testBot.server.faultInjector.setRandom(() => rolls.shift() ?? 1);
+      testBot.injectFault({
+        method: "sendMessage",
+        probability: 0.5,
+        fault: { type: "error", code: 502, description: "Bad Gateway" },
+      });
+
+      const results = await Promise.allSettled([
+        testBot.api.sendMessage(chat.id, "1"),
+        testBot.api.sendMessage(chat.id, "2"),
+        testBot.api.sendMessage(chat.id, "3"),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    });
+
+    it("should remove rules after withFaults", async () => {
+      await testBot.withFaults(
+        [
+          {
+            method: "sendMessage",
+            fault: { type: "error", code: 502, description: "Bad Gateway" },
+          },
+        ],
+        async () => {
+          await expect(testBot.api.sendMessage(chat.id, "Hi")).rejects.toThrow("Bad Gateway");
+        },
+      );
+
+      await expect(testBot.api.sendMessage(chat.id, "Hi")).resolves.toBeDefined();
+    });
+
+    it("should remove rules by ID", async () => {
+      const id = testBot.injectFault({ fault: { type: "network" } });
+
+      expect(testBot.server.faultInjector.removeRule(id)).toBe(true);
+      await expect(testBot.api.getMe()).resolves.toBeDefined();
+    });
+
+    it("should reject rules that can never fire", async () => {
+      const fault = { type: "network" } as const;
+
+      expect(() => testBot.injectFault({ times: 0, fault })).toThrow(
+        'Fault rule "times" must be a positive integer, got 0',
+      );
+      expect(() => testBot.injectFault({ times: -1, fault })).toThrow("positive integer");
+      expect(() => testBot.injectFault({ times: 1.5, fault })).toThrow("positive integer");
+      expect(testBot.server.faultInjector.getRules()).toEqual([]);
+      await expect(testBot.api.getMe()).resolves.toBeDefined();
+    });
+  });
+
+  it("should log fired faults", async () => {
+    testBot.injectFault({
+      method: "sendMessage",
+      times: 1,
+      fault: { type: "rate_limit", retryAfter: 1 },
+    });
+
+    await testBot.api.sendMessage(chat.id, "Hi").catch(() => {});
+    await testBot.api.sendMessage(chat.id, "Hi");
+
+    expect(testBot.server.faultInjector.getLog()).toEqual([
+      {
+        ruleId: 1,
+        method: "sendMessage",
+        chatId: chat.id,
+        fault: { type: "rate_limit", retryAfter: 1 },
+      },
+    ]);
+  });
+
+  it("should surface failures from handlers as BotError", async () => {
+    testBot.command("start", (ctx) => ctx.reply("Welcome"));
+    testBot.injectFault({
+      method: "sendMessage",
+      fault: { type: "error", code: 502, description: "Bad Gateway" },
+    });
+
+    const error = await testBot
+      .sendCommand(testBot.createUser({ first_name: "Alice" }), chat, "/start")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BotError);
+    expect((error as BotError).error).toBeInstanceOf(GrammyError);
+  });
+
+  it("should let handlers fall back when a call fails", async () => {
+    testBot.command("start", async (ctx) => {
+      try {
+        await ctx.replyWithPhoto("https://example.com/banner.jpg");
+      } catch {
+        await ctx.reply("Welcome");
+      }
+    });
+    testBot.injectFault({ method: "sendPhoto", fault: { type: "network" } });
+
+    const response = await testBot.sendCommand(
+      testBot.createUser({ first_name: "Alice" }),
+      chat,
+      "/start",
+    );
+
+    expect(response.text).toBe("Welcome");
+  });
+});
@@ -1,5 +1,21 @@
+import { Bot, InputFile } from "grammy";
+import type { Message } from "grammy/types";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { TestBot } from "../src/index.js";
+import { createMockFetch, TestBot, UploadedFile } from "../src/index.js";
+
+/**
+ * Build the start of a PNG file (signature + IHDR) with the given dimensions.
+ */
+function createPng(width: number, height: number): Buffer {
+  const png = Buffer.alloc(33);
+  png.writeUInt32BE(0x89504e47, 0);
+  png.writeUInt32BE(0x0d0a1a0a, 4);
+  png.writeUInt32BE(13, 8);
+  png.write("IHDR", 12, "ascii");
+  png.writeUInt32BE(width, 16);
+  png.writeUInt32BE(height, 20);
+  return png;
+}
 
 describe("File Handling", () => {
   let testBot: TestBot;
@@ -278,6 +294,207 @@ describe("File Handling", () => {
     });
   });
 
+  describe("Uploading Files", () => {
+    it("should store photo uploads with their bytes and dimensions", async () => {
+      const png = createPng(640, 480);
+      testBot.command("chart", (ctx) => ctx.replyWithPhoto(new InputFile(png, "chart.png")));
+
+      const user = testBot.createUser({ first_name: "Nora" });
+      const chat = testBot.createChat({ type: "private" });
+
+      const response = await testBot.sendCommand(user, chat, "/chart");
+      const photo = (response.messages[0] as Message.PhotoMessage).photo[0];
+
+      expect(photo).toMatchObject({ width: 640, height: 480, file_size: png.length });
+      expect(testBot.server.fileState.getFileContent(photo.file_id)).toEqual(png);
+      expect(testBot.server.fileState.getFile(photo.file_id)).toMatchObject({
+        fileName: "chart.png",
+        mimeType: "image/png",
+      });
+    });
+
+    it("should report file name, MIME type and size for document uploads", async () => {
+      const csv = Buffer.from("name,score\nAlice,10\n");
+      testBot.command("report", (ctx) =>
+        ctx.replyWithDocument(new InputFile(csv, "report.csv"), { caption: "Weekly report" }),
+      );
+
+      const user = testBot.createUser({ first_name: "Omar" });
+      const chat = testBot.createChat({ type: "private" });
+
+      const response = await testBot.sendCommand(user, chat, "/report");
+      const document = (response.messages[0] as Message.DocumentMessage).document;
+
+      expect(document).toMatchObject({
+        file_name: "report.csv",
+        mime_type: "text/csv",
+        file_size: csv.length,
+      });
+      expect(testBot.server.fileState.getFileContent(document.file_id)).toEqual(csv);
+    });
+
+    it("should record uploads in the API call log", async () => {
+      testBot.command("doc", (ctx) =>
+        ctx.replyWithDocument(new InputFile(Buffer.from("x"), "x.txt")),
+      );
+
+      const user = testBot.createUser({ first_name: "Pia" });
+      const chat = testBot.createChat({ type: "private" });
+      const response = await testBot.sendCommand(user, chat, "/doc");
+
+      const call = response.getApiCallsByMethod("sendDocument")[0];
+      expect(call.payload.document).toBeInstanceOf(UploadedFile);
+      expect((call.payload.document as UploadedFile).fileName).toBe("x.txt");
+    });
+
+    it("should parse multipart uploads sent over fetch", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const png = createPng(32, 16);
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+
+      const message = await bot.api.sendPhoto(chat.id, new InputFile(png, "icon.png"), {
+        caption: "Icon",
+      });
+
+      expect(message.caption).toBe("Icon");
+      expect(message.photo[0]).toMatchObject({ width: 32, height: 16, file_size: png.length });
+      expect(testBot.server.fileState.getFileContent(message.photo[0].file_id)).toEqual(png);
+    });
+
+    it("should keep numeric-looking captions of multipart uploads as text", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+
+      const message = await bot.api.sendDocument(
+        chat.id,
+        new InputFile(Buffer.from("totals"), "report.txt"),
+        { caption: "2024", disable_notification: true },
+      );
+
+      expect(message.caption).toBe("2024");
+      expect(message.document.file_name).toBe("report.txt");
+    });
+
+    it("should store every file of a media group", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const first = createPng(100, 50);
+      const second = createPng(50, 100);
+
+      const messages = await testBot.api.sendMediaGroup(chat.id, [
+        { type: "photo", media: new InputFile(first, "a.png") },
+        { type: "photo", media: new InputFile(second, "b.png") },
+      ]);
+
+      const photos = messages.map((m) => (m as Message.PhotoMessage).photo[0]);
+      expect(photos.map((p) => [p.width, p.height])).toEqual([
+        [100, 50],
+        [50, 100],
+      ]);
+      expect(testBot.server.fileState.getFileContent(photos[1].file_id)).toEqual(second);
+    });
+
+    it("should reuse a known file_id", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const sent = await testBot.api.sendDocument(
+        chat.id,
+        new InputFile(Buffer.from("data"), "data.bin"),
+      );
+
+      const resent = await testBot.api.sendDocument(chat.id, sent.document.file_id);
+
+      expect(resent.document).toEqual(sent.document);
+    });
+
+    it("should serve uploaded files through getFile", async () => {
+      const chat = testBot.createChat({ type: "private" });
+      const sent = await testBot.api.sendDocument(
+        chat.id,
+        new InputFile(Buffer.from("hello"), "hello.txt"),
+      );
+
+      const file = await testBot.api.getFile(sent.document.file_id);
+
+      expect(file.file_size).toBe(5);
+      expect(file.file_path).toBeDefined();
+    });
+  });
+
+  describe("File Downloads", () => {
+    it("should serve stored bytes at the getFile URL", async () => {
+      const stored = testBot.server.fileState.storeFile("document", {
+        fileName: "notes.txt",
+        mimeType: "text/plain",
+        content: Buffer.from("remember the milk"),
+      });
+      const url = testBot.server.fileState.getFileUrl(stored.fileId, "TEST:TOKEN") ?? "";
+
+      const res = await fetch(url);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/plain");
+      expect(res.headers.get("content-length")).toBe("17");
+      expect(await res.text()).toBe("remember the milk");
+    });
+
+    it("should download a file the user sent via ctx.getFile()", async () => {
+      let downloaded: string | undefined;
+      testBot.on("message:document", async (ctx) => {
+        const file = await ctx.getFile();
+        const res = await fetch(
+          `https://api.telegram.org/file/bot${ctx.api.token}/${file.file_path}`,
+        );
+        downloaded = await res.text();
+      });
+
+      const user = testBot.createUser({ first_name: "Rita" });
+      const chat = testBot.createChat({ type: "private" });
+      await testBot.sendDocument(user, chat, {
+        fileName: "todo.txt",
+        content: Buffer.from("1. write tests"),
+      });
+
+      expect(downloaded).toBe("1. write tests");
+    });
+
+    it("should serve downloads through createMockFetch", async () => {
+      const stored = testBot.server.fileState.storeFile("photo", {
+        content: Buffer.from([1, 2, 3, 4]),
+      });
+      const mockFetch = createMockFetch(testBot.server, []);
+
+      const res = await mockFetch(`https://api.telegram.org/file/botTEST:TOKEN/${stored.filePath}`);
+
+      expect(res.headers.get("content-length")).toBe("4");
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(Buffer.from([1, 2, 3, 4]));
+    });
+
+    it("should return 404 for unknown file paths", async () => {
+      const res = await fetch("https://api.telegram.org/file/botTEST:TOKEN/documents/nope");
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should refuse files larger than 20 MB", async () => {
+      const stored = testBot.server.fileState.storeFile("video", {
+        fileSize: 21 * 1024 * 1024,
+      });
+
+      await expect(testBot.api.getFile(stored.fileId)).rejects.toThrow(
+        "Bad Request: file is too big",
+      );
+
+      const res = await fetch(`https://api.telegram.org/file/botTEST:TOKEN/${stored.filePath}`);
+      expect(res.status).toBe(400);
+      expect((await res.json()).description).toBe("Bad Request: file is too big");
+    });
+  });
+
   describe("getFile API", () => {
     it("should retrieve file info", async () => {
       let storedFileId: string | undefined;
@@ -192,6 +192,7 @@ describe("Forum Topics", () => {
         title: "Test Forum",
         is_forum: true,
       });
+      testBot.setBotAdmin(forum); // admins see every group message
 
       const topic = testBot.server.chatState.createForumTopic(forum.id, {
         name: "General",
@@ -250,6 +251,7 @@ describe("Forum Topics", () => {
         title: "Test Forum",
         is_forum: true,
       });
+      testBot.setBotAdmin(forum); // admins see every group message
 
       testBot.on("message:text", async (ctx) => {
         if (ctx.message.is_topic_message) {
@@ -684,6 +684,7 @@ describe("Full-Featured Bot", () => {
     it("handles giveaway completion", async () => {
       const user = testBot.createUser({ first_name: "User" });
       const channel = testBot.createChat({ type: "channel", title: "Channel" });
+      testBot.setBotAdmin(channel, { can_post_messages: true });
 
       const update = testBot.server.simulateGiveawayCompleted(channel, 1, [user]);
 
@@ -816,6 +817,7 @@ describe("Full-Featured Bot", () => {
     it("handles chat boost", async () => {
       const user = testBot.createUser({ first_name: "Booster" });
       const channel = testBot.createChat({ type: "channel", title: "Test Channel" });
+      testBot.setBotAdmin(channel, { can_post_messages: true });
 
       // Set up premium user for boost source
       testBot.setMember(channel, user);
@@ -833,6 +835,7 @@ describe("Full-Featured Bot", () => {
     it("handles removed chat boost", async () => {
       const user = testBot.createUser({ first_name: "Booster" });
       const channel = testBot.createChat({ type: "channel", title: "Test Channel" });
+      testBot.setBotAdmin(channel, { can_post_messages: true });
 
       // First add a boost via simulation (which adds to chatState)
       const boostUpdate = testBot.server.simulateChatBoost(channel, user, "premium");
@@ -952,6 +955,7 @@ describe("Full-Featured Bot", () => {
         testBot.createUser({ id: 9000 + i, first_name: `Texter${i}` }),
       );
       const chat = testBot.createChat({ type: "group", title: "Text Group" });
+      testBot.setBotAdmin(chat); // admins see every group message
 
       for (const user of users) {
         testBot.setMember(chat, user);
@@ -1075,6 +1079,7 @@ describe("Full-Featured Bot", () => {
         testBot.createUser({ id: 13000 + i, first_name: `Mixed${i}` }),
       );
       const chat = testBot.createChat({ type: "group", title: "Mixed Group" });
+      testBot.setBotAdmin(chat); // admins see every group message
 
       for (const user of users) {
         testBot.setMember(chat, user);
@@ -0,0 +1,171 @@
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { formatText, parseFormattedText, TestBot } from "../src/index.js";
+
+describe("HTML Formatting", () => {
+  describe("parseFormattedText", () => {
+    it("should parse expandable blockquotes", () => {
+      expect(
+        parseFormattedText("<blockquote expandable>Long\nreport</blockquote>", "HTML"),
+      ).toEqual({
+        text: "Long\nreport",
+        entities: [{ type: "expandable_blockquote", offset: 0, length: 11 }],
+      });
+      expect(parseFormattedText("<blockquote>Quote</blockquote>", "HTML").entities).toEqual([
+        { type: "blockquote", offset: 0, length: 5 },
+      ]);
+    });
+
+    it("should parse custom emoji and validate their identifier", () => {
+      expect(
+        parseFormattedText('<tg-emoji emoji-id="5368324170671202286">👍</tg-emoji>', "HTML"),
+      ).toEqual({
+        text: "👍",
+        entities: [
+          { type: "custom_emoji", offset: 0, length: 2, custom_emoji_id: "5368324170671202286" },
+        ],
+      });
+      expect(() => parseFormattedText("<tg-emoji>👍</tg-emoji>", "HTML")).toThrow(
+        "Invalid custom emoji identifier specified",
+      );
+      expect(() => parseFormattedText('<tg-emoji emoji-id="abc">👍</tg-emoji>', "HTML")).toThrow(
+        "Invalid custom emoji identifier specified",
+      );
+    });
+
+    it("should parse spoilers, code blocks and text mentions", () => {
+      expect(
+        parseFormattedText(
+          '<span class="tg-spoiler">x</span> <pre><code class="language-ts">y</code></pre> <a href="tg://user?id=42">Al</a>',
+          "HTML",
+        ).entities,
+      ).toEqual([
+        { type: "spoiler", offset: 0, length: 1 },
+        { type: "pre", offset: 2, length: 1, language: "ts" },
+        {
+          type: "text_mention",
+          offset: 4,
+          length: 2,
+          user: { id: 42, is_bot: false, first_name: "Al" },
+        },
+      ]);
+    });
+
+    it("should decode named and numeric character references", () => {
+      expect(
+        parseFormattedText("&lt;b&gt; &amp; &quot;x&quot; &#65;&#x1F600; &amp &nbsp; &#0;", "HTML")
+          .text,
+      ).toBe('<b> & "x" A😀 & &nbsp; &#0;');
+      expect(
+        parseFormattedText('<a href="https://e.com/?a=1&amp;b=2">x</a>', "HTML").entities,
+      ).toEqual([{ type: "text_link", offset: 0, length: 1, url: "https://e.com/?a=1&b=2" }]);
+    });
+
+    it("should order entities of the same range like Telegram", () => {
+      expect(
+        parseFormattedText("<i><s><b><a href='https://e.com'>x</a></b></s></i>", "HTML").entities,
+      ).toEqual([
+        { type: "text_link", offset: 0, length: 1, url: "https://e.com" },
+        { type: "bold", offset: 0, length: 1 },
+        { type: "italic", offset: 0, length: 1 },
+        { type: "strikethrough", offset: 0, length: 1 },
+      ]);
+    });
+
+    it("should drop entities inside code and nested blockquotes", () => {
+      expect(parseFormattedText("<code>a <b>b</b></code>", "HTML").entities).toEqual([
+        { type: "code", offset: 0, length: 3 },
+      ]);
+      expect(
+        parseFormattedText("<blockquote>a <blockquote>b</blockquote></blockquote>", "HTML")
+          .entities,
+      ).toEqual([{ type: "blockquote", offset: 0, length: 3 }]);
+    });
+  });
+
+  describe("formatText", () => {
+    it("should escape special characters", () => {
+      expect(
+        formatText(
+          '1 < 2 & 3 > "x"',
+          [{ type: "text_link", offset: 0, length: 1, url: 'https://e.com/?a="1"&b' }],
+          "HTML",
+        ),
+      ).toBe(
+        '<a href="https://e.com/?a=&quot;1&quot;&amp;b">1</a> &lt; 2 &amp; 3 &gt; &quot;x&quot;',
+      );
+    });
+
+    it("should write nested entities nested", () => {
+      expect(
+        formatText(
+          "bold both",
+          [
+            { type: "italic", offset: 5, length: 4 },
+            { type: "bold", offset: 0, length: 9 },
+          ],
+          "HTML",
+        ),
+      ).toBe("<b>bold <i>both</i></b>");
+    });
+
+    it("should split overlapping entities", () => {
+      const entities = [
+        { type: "bold", offset: 0, length: 5 },
+        { type: "italic", offset: 3, length: 5 },
+      ] as const;
+      const html = formatText("abcdefgh", [...entities], "HTML");
+
+      expect(html).toBe("<b>abc<i>de</i></b><i>fgh</i>");
+      expect(parseFormattedText(html, "HTML")).toEqual({
+        text: "abcdefgh",
+        entities: [
+          { type: "bold", offset: 0, length: 5 },
+          { type: "italic", offset: 3, length: 2 },
+          { type: "italic", offset: 5, length: 3 },
+        ],
+      });
+    });
+
+    it("should round-trip rich HTML", () => {
+      const html =
+        '<b>Report</b> for <a href="tg://user?id=7">Ann</a>\n' +
+        '<blockquote expandable>Up <tg-emoji emoji-id="5368324170671202286">👍</tg-emoji> ' +
+        '<tg-spoiler>3 &lt; 4</tg-spoiler></blockquote>\n<pre><code class="language-ts">a &amp;&amp; b</code></pre>';
+      const parsed = parseFormattedText(html, "HTML");
+
+      expect(parseFormattedText(formatText(parsed.text, parsed.entities, "HTML"), "HTML")).toEqual(
+        parsed,
+      );
+    });
+  });
+
+  describe("sent messages", () => {
+    let testBot: TestBot;
+    let chat: Chat;
+
+    beforeEach(() => {
+      testBot = new TestBot();
+      chat = testBot.createChat({ type: "private", first_name: "Alice" });
+    });
+
+    afterEach(() => {
+      testBot.dispose();
+    });
+
+    it("should return the entities Telegram would", async () => {
+      const message = await testBot.api.sendMessage(
+        chat.id,
+        "<b>Total:</b> <code>&#8364;5</code>\n<blockquote expandable>details</blockquote>",
+        { parse_mode: "HTML" },
+      );
+
+      expect(message.text).toBe("Total: €5\ndetails");
+      expect(message.entities).toEqual([
+        { type: "bold", offset: 0, length: 6 },
+        { type: "code", offset: 7, length: 2 },
+        { type: "expandable_blockquote", offset: 10, length: 7 },
+      ]);
+    });
+  });
+});
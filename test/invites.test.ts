@@ -1,3 +1,4 @@
+import type { Chat, User } from "grammy/types";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { TestBot } from "../src/index.js";
 
@@ -296,6 +297,34 @@ describe("Invite Links", () => {
       expect(result.error).toBeDefined();
       expect(result.error?.description).toContain("expired");
     });
+
+    it("should send a clean ChatInviteLink in chat_member updates", async () => {
+      const admin = testBot.createUser({ first_name: "Admin" });
+      const newUser = testBot.createUser({ first_name: "NewUser" });
+      const group = testBot.createChat({ type: "supergroup", title: "Test Group" });
+      testBot.setOwner(group, admin);
+      const link = testBot.server.chatState.createInviteLink(group.id, admin, {
+        name: "Ads",
+        member_limit: 5,
+      });
+      let received: unknown;
+      testBot.server.updateQueue.setAllowedUpdates(["chat_member"]);
+      testBot.on("chat_member", (ctx) => {
+        received = ctx.chatMember.invite_link;
+      });
+
+      await testBot.simulateJoinViaLink(newUser, group, link.invite_link);
+
+      expect(received).toEqual({
+        invite_link: link.invite_link,
+        creator: admin,
+        creates_join_request: false,
+        is_primary: false,
+        is_revoked: false,
+        name: "Ads",
+        member_limit: 5,
+      });
+    });
   });
 
   describe("Join Requests", () => {
@@ -402,6 +431,76 @@ describe("Invite Links", () => {
     });
   });
 
+  describe("Join Request Tracking", () => {
+    let admin: User;
+    let group: Chat;
+    let inviteLink: string;
+
+    beforeEach(() => {
+      admin = testBot.createUser({ first_name: "Admin" });
+      group = testBot.createChat({ type: "supergroup", title: "Test Group" });
+      testBot.setOwner(group, admin);
+      testBot.setBotAdmin(group, { can_invite_users: true });
+      inviteLink = testBot.server.chatState.createInviteLink(group.id, testBot.botInfo, {
+        creates_join_request: true,
+      }).invite_link;
+    });
+
+    it("should track pending_join_request_count", async () => {
+      const alice = testBot.createUser({ first_name: "Alice" });
+      const bob = testBot.createUser({ first_name: "Bob" });
+      const counts: (number | undefined)[] = [];
+      testBot.on("chat_join_request", (ctx) => {
+        counts.push(ctx.chatJoinRequest.invite_link?.pending_join_request_count);
+      });
+
+      await testBot.simulateJoinRequest(alice, group, inviteLink);
+      await testBot.simulateJoinViaLink(bob, group, inviteLink);
+      await testBot.api.approveChatJoinRequest(group.id, alice.id);
+
+      expect(counts).toEqual([1, 2]);
+      const link = await testBot.api.editChatInviteLink(group.id, inviteLink, { name: "Apply" });
+      expect(link.pending_join_request_count).toBe(1);
+    });
+
+    it("should count approved requests as link usage", async () => {
+      const alice = testBot.createUser({ first_name: "Alice" });
+
+      await testBot.simulateJoinRequest(alice, group, inviteLink);
+      await testBot.api.approveChatJoinRequest(group.id, alice.id);
+
+      expect(testBot.server.chatState.getInviteLink(group.id, inviteLink)?.usage_count).toBe(1);
+    });
+
+    it("should reject requests via revoked or expired links", async () => {
+      const alice = testBot.createUser({ first_name: "Alice" });
+      const expiring = testBot.server.chatState.createInviteLink(group.id, testBot.botInfo, {
+        creates_join_request: true,
+        expire_date: Math.floor(testBot.server.memberState.getCurrentTime() / 1000) + 60,
+      });
+      await testBot.api.revokeChatInviteLink(group.id, inviteLink);
+      testBot.advanceTime(60);
+
+      const revoked = await testBot.simulateJoinRequest(alice, group, inviteLink);
+      const expired = await testBot.simulateJoinRequest(alice, group, expiring.invite_link);
+
+      expect(revoked.error?.description).toBe("Bad Request: invite link revoked");
+      expect(expired.error?.description).toBe("Bad Request: invite link expired");
+      expect(testBot.server.chatState.getJoinRequests(group.id)).toEqual([]);
+    });
+
+    it("should reject requests via links that don't need approval", async () => {
+      const alice = testBot.createUser({ first_name: "Alice" });
+      const direct = testBot.server.chatState.createInviteLink(group.id, testBot.botInfo);
+
+      const response = await testBot.simulateJoinRequest(alice, group, direct.invite_link);
+
+      expect(response.error?.description).toBe(
+        "Bad Request: invite link doesn't create join requests",
+      );
+    });
+  });
+
   describe("Chat Member Updates via Join", () => {
     it("should trigger chat_member update when user joins", async () => {
       const admin = testBot.createUser({ first_name: "Admin" });
@@ -414,6 +513,8 @@ describe("Invite Links", () => {
 
       let memberUpdateReceived = false;
 
+      // chat_member updates must be requested explicitly, like on Telegram
+      testBot.server.updateQueue.setAllowedUpdates(["chat_member"]);
       testBot.on("chat_member", (ctx) => {
         if (ctx.chatMember.new_chat_member.status === "member") {
           memberUpdateReceived = true;
@@ -424,6 +525,24 @@ describe("Invite Links", () => {
 
       expect(memberUpdateReceived).toBe(true);
     });
+
+    it("should not send chat_member updates the bot didn't ask for", async () => {
+      const admin = testBot.createUser({ first_name: "Admin" });
+      const newUser = testBot.createUser({ first_name: "NewUser" });
+      const group = testBot.createChat({ type: "supergroup", title: "Test Group" });
+      testBot.setOwner(group, admin);
+      const link = testBot.server.chatState.createInviteLink(group.id, admin, {});
+      let memberUpdateReceived = false;
+      testBot.on("chat_member", () => {
+        memberUpdateReceived = true;
+      });
+
+      const response = await testBot.simulateJoinViaLink(newUser, group, link.invite_link);
+
+      expect(memberUpdateReceived).toBe(false);
+      expect(response.generatedUpdates).toEqual([]);
+      expect(testBot.server.memberState.getMember(group.id, newUser.id)?.status).toBe("member");
+    });
   });
 
   describe("Subscription Links", () => {
@@ -432,7 +551,7 @@ describe("Invite Links", () => {
       const channel = testBot.createChat({ type: "channel", title: "Premium Channel" });
 
       testBot.setOwner(channel, admin);
-      testBot.setBotAdmin(channel, { can_invite_users: true });
+      testBot.setBotAdmin(channel, { can_invite_users: true, can_post_messages: true });
 
       testBot.command("sublink", async (ctx) => {
         // grammY API: createChatSubscriptionInviteLink(subscription_period, subscription_price, other?)
@@ -458,7 +577,7 @@ describe("Invite Links", () => {
       const channel = testBot.createChat({ type: "channel", title: "Premium Channel" });
 
       testBot.setOwner(channel, admin);
-      testBot.setBotAdmin(channel, { can_invite_users: true });
+      testBot.setBotAdmin(channel, { can_invite_users: true, can_post_messages: true });
 
       const link = testBot.server.chatState.createInviteLink(channel.id, admin, {
         name: "Old Sub",
@@ -477,6 +596,27 @@ describe("Invite Links", () => {
 
       expect(response.text).toBe("Updated: New Sub Name");
     });
+
+    it("should charge Stars when joining via a subscription link", async () => {
+      const subscriber = testBot.createUser({ first_name: "Subscriber" });
+      const channel = testBot.createChat({ type: "channel", title: "Premium Channel" });
+      testBot.setBotAdmin(channel, { can_invite_users: true });
+      const link = await testBot.api.createChatSubscriptionInviteLink(channel.id, 2592000, 100);
+      const joinedAt = Math.floor(testBot.server.memberState.getCurrentTime() / 1000);
+
+      await testBot.simulateJoinViaLink(subscriber, channel, link.invite_link);
+
+      const { transactions } = await testBot.api.getStarTransactions();
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        amount: 100,
+        source: { type: "user", user: { id: subscriber.id }, subscription_period: 2592000 },
+      });
+      expect(await testBot.api.getChatMember(channel.id, subscriber.id)).toMatchObject({
+        status: "member",
+        until_date: joinedAt + 2592000,
+      });
+    });
   });
 
   describe("Get Chat Administrators", () => {
@@ -0,0 +1,192 @@
+import { type GrammyError, InlineKeyboard } from "grammy";
+import type { Chat, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type GrammyMatchers, grammyMatchers, TestBot } from "../src/index.js";
+
+declare module "vitest" {
+  // biome-ignore lint/suspicious/noExplicitAny: must match Vitest's declaration
+  interface Assertion<T = any> extends GrammyMatchers<T> {}
+}
+
+expect.extend(grammyMatchers);
+
+describe("Custom Matchers", () => {
+  let testBot: TestBot;
+  let user: User;
+  let chat: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    user = testBot.createUser({ first_name: "Alice" });
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+
+    testBot.command("start", (ctx) =>
+      ctx.reply("Welcome, <b>Alice</b>!", {
+        parse_mode: "HTML",
+        reply_markup: new InlineKeyboard().text("Help", "help").url("Docs", "https://example.com"),
+      }),
+    );
+    testBot.callbackQuery("help", async (ctx) => {
+      await ctx.answerCallbackQuery({ text: "Opening help", show_alert: true });
+      await ctx.editMessageText("Help: use /start");
+    });
+    testBot.command("clean", async (ctx) => {
+      await ctx.deleteMessage();
+      await ctx.banChatMember(Number(ctx.match));
+    });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  it("should match replies by text or pattern", async () => {
+    const response = await testBot.sendCommand(user, chat, "/start");
+
+    expect(response).toHaveReplied();
+    expect(response).toHaveReplied("Welcome, Alice!");
+    expect(response).toHaveReplied(/welcome/i);
+    expect(response).not.toHaveReplied("Welcome");
+  });
+
+  it("should match inline buttons and entities", async () => {
+    const response = await testBot.sendCommand(user, chat, "/start");
+
+    expect(response).toHaveInlineButton({ text: "Help", callback_data: "help" });
+    expect(response).toHaveInlineButton({ url: "https://example.com" });
+    expect(response).not.toHaveInlineButton({ text: "Help", callback_data: "about" });
+    expect(response).toHaveEntity("bold");
+    expect(response).toHaveEntity("bold", "Alice");
+    expect(response).not.toHaveEntity("bold", "Welcome");
+  });
+
+  it("should match callback answers and edits", async () => {
+    const sent = await testBot.sendCommand(user, chat, "/start");
+    const response = await testBot.clickButton(user, chat, "help", sent.messages[0]);
+
+    expect(response).toHaveAnsweredCallback();
+    expect(response).toHaveAnsweredCallback({ showAlert: true });
+    expect(response).toHaveAnsweredCallback({ text: "Opening help" });
+    expect(response).toHaveEdited(/^Help:/);
+    expect(response).not.toHaveEdited("Welcome, Alice!");
+    expect(sent).not.toHaveAnsweredCallback();
+  });
+
+  it("should match API calls with a partial payload", async () => {
+    const group = testBot.createChat({ type: "supergroup", title: "Group" });
+    const spammer = testBot.createUser({ first_name: "Spammer" });
+    testBot.setOwner(group, user);
+    testBot.setMember(group, spammer);
+    testBot.setBotAdmin(group, { can_restrict_members: true, can_delete_messages: true });
+
+    const response = await testBot.sendCommand(user, group, `/clean ${spammer.id}`);
+
+    expect(response).toHaveDeleted();
+    expect(response).toHaveDeleted(response.sentMessage?.message_id);
+    expect(response).toHaveCalledApi("banChatMember");
+    expect(response).toHaveCalledApi("banChatMember", { user_id: spammer.id });
+    expect(response).toHaveCalledApi("banChatMember", { chat_id: expect.any(Number) });
+    expect(response).not.toHaveCalledApi("banChatMember", { user_id: user.id });
+    expect(response).not.toHaveReplied();
+  });
+
+  it("should detect rate limits", async () => {
+    testBot.dispose();
+    testBot = new TestBot({ rateLimits: { perChat: 1 } });
+    testBot.command("spam", async (ctx) => {
+      await ctx.reply("1");
+      await ctx.reply("2").catch(() => undefined);
+    });
+
+    const response = await testBot.sendCommand(user, chat, "/spam");
+    const error = await testBot.api.sendMessage(chat.id, "3").catch((e: GrammyError) => e);
+
+    expect(response).toBeRateLimited();
+    expect(error).toBeRateLimited();
+    expect(await testBot.sendCommand(user, chat, "/start")).not.toBeRateLimited();
+  });
+
+  it("should render the chat transcript on failure", async () => {
+    const response = await testBot.sendCommand(user, chat, "/start");
+
+    expect(() => expect(response).toHaveReplied("Goodbye")).toThrow(
+      [
+        'Expected bot to reply "Goodbye"',
+        "",
+        'Expected: "Goodbye"',
+        "Received: Array [",
+        '  "Welcome, Alice!",',
+        "]",
+        "",
+        "Chat transcript:",
+        '  Alice: "/start"',
+        '  bot sendMessage: "Welcome, <b>Alice</b>!"',
+        "    [Help → help] [Docs → https://example.com]",
+      ].join("\n"),
+    );
+    expect(() => expect(response).not.toHaveReplied(/Welcome/)).toThrow(
+      "Expected bot not to reply /Welcome/",
+    );
+  });
+
+  it("should show the calls made when the expected call is missing", async () => {
+    const group = testBot.createChat({ type: "supergroup", title: "Group" });
+    const spammer = testBot.createUser({ first_name: "Spammer" });
+    testBot.setOwner(group, user);
+    testBot.setMember(group, spammer);
+    testBot.setBotAdmin(group, { can_restrict_members: true, can_delete_messages: true });
+
+    const response = await testBot.sendCommand(user, group, `/clean ${spammer.id}`);
+
+    expect(() => expect(response).toHaveCalledApi("banChatMember", { user_id: 1 })).toThrow(
+      `Expected: Object {\n  "user_id": 1,\n}\nReceived: Array [\n  Object {\n    "chat_id": ${group.id},\n    "user_id": ${spammer.id},\n  },\n]`,
+    );
+    expect(() => expect(response).toHaveCalledApi("sendMessage")).toThrow(
+      'Expected: "sendMessage"\nReceived: Array [\n  "deleteMessage",\n  "banChatMember",\n]',
+    );
+  });
+
+  it("should check everything the bot did in a test", async () => {
+    const sent = await testBot.sendCommand(user, chat, "/start");
+    await testBot.clickButton(user, chat, "help", sent.messages[0]);
+    await testBot.api.deleteMessage(chat.id, sent.messages[0].message_id);
+
+    expect(testBot).toHaveCalledApi("sendMessage", { text: "Welcome, <b>Alice</b>!" });
+    expect(testBot).toHaveCalledApi("editMessageText");
+    expect(testBot).toHaveAnsweredCallback({ text: "Opening help", showAlert: true });
+    expect(testBot).toHaveDeleted(sent.messages[0].message_id);
+    expect(testBot).not.toBeRateLimited();
+  });
+
+  it("should check the messages stored on the server", async () => {
+    const sent = await testBot.sendCommand(user, chat, "/start");
+    await testBot.clickButton(user, chat, "help", sent.messages[0]);
+
+    expect(testBot.server).toHaveReplied("Help: use /start");
+    expect(testBot.server).toHaveEdited(/^Help:/);
+    expect(testBot.server).not.toHaveDeleted();
+    expect(testBot.server).toHaveInlineButton({ text: "Help" });
+
+    await testBot.api.deleteMessage(chat.id, sent.messages[0].message_id);
+
+    expect(testBot.server).toHaveDeleted(sent.messages[0].message_id);
+    expect(testBot.server).not.toHaveReplied();
+    expect(() => expect(testBot.server).toHaveReplied()).toThrow(
+      [
+        "Chat transcript:",
+        "  Alice:",
+        '    Alice: "/start"',
+        `    deleted: #${sent.messages[0].message_id}`,
+      ].join("\n"),
+    );
+  });
+
+  it("should reject values they can't check", () => {
+    expect(() => expect("Welcome").toHaveReplied()).toThrow(
+      'toHaveReplied() expects a BotResponse, TestBot or TelegramServer, received "Welcome"',
+    );
+    expect(() => expect(testBot.server).toHaveCalledApi("sendMessage")).toThrow(
+      "toHaveCalledApi() expects a BotResponse or TestBot, received a TelegramServer, which doesn't record API calls",
+    );
+  });
+});
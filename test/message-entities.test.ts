@@ -0,0 +1,226 @@
+import type { Chat, MessageEntity, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot, validateMessageEntities } from "../src/index.js";
+
+describe("Explicit Entities", () => {
+  let testBot: TestBot;
+  let chat: Chat;
+  let user: User;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+    user = testBot.createUser({ first_name: "Alice" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("sending", () => {
+    it("should store entities sorted like Telegram", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "Hello 👍 world", {
+        entities: [
+          { type: "italic", offset: 6, length: 2 },
+          { type: "bold", offset: 0, length: 14 },
+        ],
+      });
+
+      expect(message.entities).toEqual([
+        { type: "bold", offset: 0, length: 14 },
+        { type: "italic", offset: 6, length: 2 },
+      ]);
+    });
+
+    it("should accept caption entities on media and media groups", async () => {
+      const photo = await testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", {
+        caption: "Nice pic",
+        caption_entities: [{ type: "underline", offset: 5, length: 3 }],
+      });
+      const [first] = await testBot.api.sendMediaGroup(chat.id, [
+        {
+          type: "photo",
+          media: "https://example.com/b.jpg",
+          caption: "First",
+          caption_entities: [{ type: "spoiler", offset: 0, length: 5 }],
+        },
+        { type: "photo", media: "https://example.com/c.jpg" },
+      ]);
+
+      expect(photo.caption_entities).toEqual([{ type: "underline", offset: 5, length: 3 }]);
+      expect(first.caption_entities).toEqual([{ type: "spoiler", offset: 0, length: 5 }]);
+    });
+
+    it("should prefer parse_mode when both are given", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "<b>x</b>", {
+        parse_mode: "HTML",
+        entities: [{ type: "italic", offset: 0, length: 1 }],
+      });
+
+      expect(message.entities).toEqual([{ type: "bold", offset: 0, length: 1 }]);
+    });
+
+    it("should copy a message with its formatting", async () => {
+      const original = await testBot.api.sendMessage(chat.id, "*Weekly* report", {
+        parse_mode: "MarkdownV2",
+      });
+      const target = testBot.createChat({ type: "group", title: "Team" });
+
+      const copy = await testBot.api.sendMessage(target.id, original.text, {
+        entities: original.entities,
+      });
+
+      expect(copy.entities).toEqual([{ type: "bold", offset: 0, length: 6 }]);
+    });
+  });
+
+  describe("editing", () => {
+    it("should replace the entities of edited text and captions", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "*Draft*", {
+        parse_mode: "MarkdownV2",
+      });
+
+      const edited = await testBot.api.editMessageText(chat.id, message.message_id, "Final", {
+        entities: [{ type: "code", offset: 0, length: 5 }],
+      });
+      expect(edited).toMatchObject({ entities: [{ type: "code", offset: 0, length: 5 }] });
+
+      const plain = await testBot.api.editMessageText(chat.id, message.message_id, "Plain");
+      expect(plain).not.toHaveProperty("entities");
+
+      const photo = await testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", {
+        caption: "Old",
+      });
+      await expect(
+        testBot.api.editMessageCaption(chat.id, photo.message_id, {
+          caption: "New",
+          caption_entities: [{ type: "italic", offset: 0, length: 3 }],
+        }),
+      ).resolves.toMatchObject({ caption_entities: [{ type: "italic", offset: 0, length: 3 }] });
+    });
+
+    it("should replace the caption of copied messages", async () => {
+      const photo = await testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", {
+        caption: "Original",
+      });
+
+      await testBot.api.copyMessage(chat.id, chat.id, photo.message_id, {
+        caption: "Copied",
+        caption_entities: [{ type: "bold", offset: 0, length: 6 }],
+      });
+
+      const copies = testBot.server.chatState.getAllMessages(chat.id);
+      expect(copies[copies.length - 1]).toMatchObject({
+        caption: "Copied",
+        caption_entities: [{ type: "bold", offset: 0, length: 6 }],
+      });
+    });
+  });
+
+  describe("validation", () => {
+    it("should reject entities outside the text", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi 👍", {
+          entities: [{ type: "bold", offset: 3, length: 3 }],
+        }),
+      ).rejects.toThrow(
+        "Bad Request: can't parse entities: Entity at offset 3 with length 3 ends after the end of the text",
+      );
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          entities: [{ type: "bold", offset: -1, length: 1 }],
+        }),
+      ).rejects.toThrow("Receive an entity with incorrect offset -1");
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          entities: [{ type: "bold", offset: 0, length: 0 }],
+        }),
+      ).rejects.toThrow("Receive an entity with incorrect length 0");
+    });
+
+    it("should reject intersecting code and pre entities", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "let x = 1", {
+          entities: [
+            { type: "pre", offset: 0, length: 9, language: "ts" },
+            { type: "code", offset: 4, length: 1 },
+          ],
+        }),
+      ).rejects.toThrow("code entity at offset 4 intersects another code or pre entity");
+    });
+
+    it("should reject invalid custom emoji and unknown types", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "👍", {
+          entities: [{ type: "custom_emoji", offset: 0, length: 2, custom_emoji_id: "abc" }],
+        }),
+      ).rejects.toThrow("Invalid custom emoji identifier specified");
+      await expect(
+        testBot.api.sendMessage(chat.id, "x", {
+          entities: [{ type: "sparkle", offset: 0, length: 1 } as unknown as MessageEntity],
+        }),
+      ).rejects.toThrow('Unsupported entity type "sparkle"');
+      await expect(
+        testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", {
+          caption: "x",
+          caption_entities: [{ type: "text_link", offset: 0, length: 1 } as MessageEntity],
+        }),
+      ).rejects.toThrow('Field "url" must be a non-empty String');
+    });
+
+    it("should be usable without sending", () => {
+      expect(validateMessageEntities("abc", [{ type: "bold", offset: 0, length: 3 }])).toBe(
+        undefined,
+      );
+      expect(validateMessageEntities("abc", "bold", "caption_entities")).toBe(
+        'Bad Request: field "caption_entities" must be of type Array',
+      );
+    });
+  });
+
+  describe("user messages", () => {
+    it("should deliver entities of simulated user messages", async () => {
+      let received: MessageEntity[] | undefined;
+      testBot.on("message:text", (ctx) => {
+        received = ctx.message.entities;
+      });
+
+      const response = await testBot.sendMessage(user, chat, "Meet @alice at 5", {
+        entities: [
+          { type: "mention", offset: 5, length: 6 },
+          { type: "bold", offset: 15, length: 1 },
+        ],
+      });
+
+      expect(received).toEqual([
+        { type: "mention", offset: 5, length: 6 },
+        { type: "bold", offset: 15, length: 1 },
+      ]);
+      expect(response.sentMessage?.entities).toEqual(received);
+    });
+
+    it("should deliver caption entities of simulated media", async () => {
+      let received: MessageEntity[] | undefined;
+      testBot.on("message:photo", (ctx) => {
+        received = ctx.message.caption_entities;
+      });
+
+      await testBot.sendPhoto(
+        user,
+        chat,
+        { width: 100, height: 100 },
+        { caption: "Look", captionEntities: [{ type: "italic", offset: 0, length: 4 }] },
+      );
+
+      expect(received).toEqual([{ type: "italic", offset: 0, length: 4 }]);
+    });
+
+    it("should reject invalid entities in user messages", async () => {
+      await expect(
+        testBot.sendMessage(user, chat, "Hi", {
+          entities: [{ type: "bold", offset: 0, length: 5 }],
+        }),
+      ).rejects.toThrow("ends after the end of the text");
+    });
+  });
+});
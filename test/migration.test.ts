@@ -0,0 +1,107 @@
+import { GrammyError } from "grammy";
+import type { Chat, Message, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Group Migration", () => {
+  let testBot: TestBot;
+  let owner: User;
+  let user: User;
+  let group: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    owner = testBot.createUser({ first_name: "Owner" });
+    user = testBot.createUser({ first_name: "Alice" });
+    group = testBot.createChat({ type: "group", title: "Friends" });
+    testBot.setOwner(group, owner);
+    testBot.setMember(group, user);
+    testBot.setBotAdmin(group); // admins see every group message
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  it("should create a supergroup with the group's title", () => {
+    const supergroup = testBot.server.migrateGroupToSupergroup(group.id);
+
+    expect(supergroup).toMatchObject({ type: "supergroup", title: "Friends" });
+    expect(supergroup.id).toBeLessThan(-1000000000000);
+    expect(testBot.server.chatState.getMigratedToChatId(group.id)).toBe(supergroup.id);
+  });
+
+  it("should move members and messages", async () => {
+    const sent = await testBot.sendMessage(user, group, "Hello");
+    const messageId = sent.sentMessage?.message_id ?? 0;
+
+    const supergroup = testBot.server.migrateGroupToSupergroup(group.id);
+
+    expect(testBot.server.memberState.getMember(supergroup.id, user.id)?.status).toBe("member");
+    expect(testBot.server.memberState.getMember(supergroup.id, owner.id)?.status).toBe("creator");
+    expect(testBot.server.memberState.getMember(group.id, user.id)).toBeUndefined();
+    expect(testBot.server.chatState.getMessage(supergroup.id, messageId)).toMatchObject({
+      text: "Hello",
+      chat: { id: supergroup.id },
+    });
+    expect(testBot.server.chatState.getMessage(group.id, messageId)).toBeUndefined();
+  });
+
+  it("should deliver the migration service messages", async () => {
+    const messages: Message[] = [];
+    testBot.on("message", (ctx) => {
+      messages.push(ctx.message);
+    });
+
+    const response = await testBot.migrateGroup(group);
+    const supergroupId = testBot.server.chatState.getMigratedToChatId(group.id);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({
+      chat: { id: group.id },
+      from: { id: owner.id },
+      migrate_to_chat_id: supergroupId,
+    });
+    expect(messages[1]).toMatchObject({
+      chat: { id: supergroupId, type: "supergroup" },
+      migrate_from_chat_id: group.id,
+    });
+    expect(response.generatedUpdates).toHaveLength(2);
+  });
+
+  it("should reject API calls to the old chat id", async () => {
+    const supergroup = testBot.server.migrateGroupToSupergroup(group.id);
+
+    const error = await testBot.api.sendMessage(group.id, "Hi").catch((e: GrammyError) => e);
+
+    expect(error).toBeInstanceOf(GrammyError);
+    expect(error).toMatchObject({
+      error_code: 400,
+      description: "Bad Request: group chat was upgraded to a supergroup chat",
+      parameters: { migrate_to_chat_id: supergroup.id },
+    });
+  });
+
+  it("should let the bot follow migrate_to_chat_id", async () => {
+    const supergroup = testBot.server.migrateGroupToSupergroup(group.id);
+
+    const message = await testBot.api.sendMessage(group.id, "Hi").catch((e: GrammyError) => {
+      const newChatId = e.parameters.migrate_to_chat_id;
+      if (newChatId === undefined) throw e;
+      return testBot.api.sendMessage(newChatId, "Hi");
+    });
+
+    expect(message.chat.id).toBe(supergroup.id);
+  });
+
+  it("should only migrate basic groups", () => {
+    const supergroup = testBot.createChat({ type: "supergroup", title: "Already" });
+
+    expect(() => testBot.server.migrateGroupToSupergroup(supergroup.id)).toThrow(
+      "is not a basic group",
+    );
+
+    testBot.server.migrateGroupToSupergroup(group.id);
+    expect(() => testBot.server.migrateGroupToSupergroup(group.id)).toThrow("already migrated");
+  });
+});
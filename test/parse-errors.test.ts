@@ -0,0 +1,206 @@
+import { GrammyError } from "grammy";
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ParseEntitiesError, parseFormattedText, TestBot } from "../src/index.js";
+
+describe("Parse Errors", () => {
+  let testBot: TestBot;
+  let chat: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("MarkdownV2", () => {
+    it("should reject unescaped reserved characters", async () => {
+      const error = await testBot.api
+        .sendMessage(chat.id, "Hello world.", { parse_mode: "MarkdownV2" })
+        .catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 400,
+        description:
+          "Bad Request: can't parse entities: Character '.' is reserved and must be escaped with the preceding '\\'",
+      });
+      await expect(
+        testBot.api.sendMessage(chat.id, "Price: 5-10", { parse_mode: "MarkdownV2" }),
+      ).rejects.toThrow("Character '-' is reserved");
+      await expect(
+        testBot.api.sendMessage(chat.id, "Done!", { parse_mode: "MarkdownV2" }),
+      ).rejects.toThrow("Character '!' is reserved");
+    });
+
+    it("should accept escaped reserved characters", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "Hello world\\. Price: 5\\-10\\!", {
+        parse_mode: "MarkdownV2",
+      });
+
+      expect(message.text).toBe("Hello world. Price: 5-10!");
+    });
+
+    it("should report unclosed entities with their byte offset", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "*bold", { parse_mode: "MarkdownV2" }),
+      ).rejects.toThrow("Can't find end of Bold entity at byte offset 0");
+      // Cyrillic letters take two bytes each
+      await expect(
+        testBot.api.sendMessage(chat.id, "Привет _мир", { parse_mode: "MarkdownV2" }),
+      ).rejects.toThrow("Can't find end of Italic entity at byte offset 13");
+      await expect(
+        testBot.api.sendMessage(chat.id, "[link](https://example.com", {
+          parse_mode: "MarkdownV2",
+        }),
+      ).rejects.toThrow("Can't find end of a URL at byte offset 7");
+    });
+
+    it("should parse nested entities", () => {
+      expect(parseFormattedText("*bold _italic_ bold*", "MarkdownV2")).toEqual({
+        text: "bold italic bold",
+        entities: [
+          { type: "bold", offset: 0, length: 16 },
+          { type: "italic", offset: 5, length: 6 },
+        ],
+      });
+    });
+
+    it("should only reserve backticks inside code", () => {
+      expect(parseFormattedText("Run `npm i -g x.y`", "MarkdownV2")).toEqual({
+        text: "Run npm i -g x.y",
+        entities: [{ type: "code", offset: 4, length: 12 }],
+      });
+    });
+
+    it("should parse blockquotes", () => {
+      expect(parseFormattedText(">first\n>second\nafter", "MarkdownV2")).toEqual({
+        text: "first\nsecond\nafter",
+        entities: [{ type: "blockquote", offset: 0, length: 12 }],
+      });
+      expect(parseFormattedText("**>hidden\n>details||", "MarkdownV2").entities).toEqual([
+        { type: "expandable_blockquote", offset: 0, length: 14 },
+      ]);
+      expect(() => parseFormattedText("a > b", "MarkdownV2")).toThrow("Character '>' is reserved");
+    });
+
+    it("should validate custom emoji URLs", () => {
+      expect(() => parseFormattedText("![👍](https://example.com)", "MarkdownV2")).toThrow(
+        "Custom emoji URL must have scheme tg",
+      );
+      expect(() => parseFormattedText("![👍](tg://emoji?id=abc)", "MarkdownV2")).toThrow(
+        "Invalid custom emoji identifier specified",
+      );
+    });
+  });
+
+  describe("Markdown", () => {
+    it("should report entities without an end", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Use snake_case names", { parse_mode: "Markdown" }),
+      ).rejects.toThrow(
+        "Bad Request: can't parse entities: Can't find end of the entity starting at byte offset 9",
+      );
+    });
+
+    it("should not treat reserved MarkdownV2 characters specially", () => {
+      expect(parseFormattedText("*Done!* 5-10.", "Markdown")).toEqual({
+        text: "Done! 5-10.",
+        entities: [{ type: "bold", offset: 0, length: 5 }],
+      });
+    });
+  });
+
+  describe("HTML", () => {
+    it("should report unclosed tags", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "<b>bold", { parse_mode: "HTML" }),
+      ).rejects.toThrow(
+        "Bad Request: can't parse entities: Can't find end tag corresponding to start tag \"b\"",
+      );
+    });
+
+    it("should report bad nesting", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "<b><i>x</b></i>", { parse_mode: "HTML" }),
+      ).rejects.toThrow('Unmatched end tag at byte offset 7, expected "</i>", found "</b>"');
+      await expect(
+        testBot.api.sendMessage(chat.id, "x</b>", { parse_mode: "HTML" }),
+      ).rejects.toThrow("Unexpected end tag at byte offset 1");
+    });
+
+    it("should reject unsupported tags and unescaped angle brackets", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "<div>x</div>", { parse_mode: "HTML" }),
+      ).rejects.toThrow('Unsupported start tag "div" at byte offset 0');
+      await expect(
+        testBot.api.sendMessage(chat.id, "1 < 2", { parse_mode: "HTML" }),
+      ).rejects.toThrow('Unsupported start tag "" at byte offset 2');
+      await expect(
+        testBot.api.sendMessage(chat.id, "1 &lt; 2", { parse_mode: "HTML" }),
+      ).resolves.toMatchObject({ text: "1 < 2" });
+    });
+
+    it("should require the tg-spoiler class on span", () => {
+      expect(() => parseFormattedText('<span class="red">x</span>', "HTML")).toThrow(
+        'Tag "span" must have class "tg-spoiler" at byte offset 0',
+      );
+    });
+
+    it("should parse nested tags", () => {
+      expect(parseFormattedText("<b>bold <i>both</i></b>", "HTML")).toEqual({
+        text: "bold both",
+        entities: [
+          { type: "bold", offset: 0, length: 9 },
+          { type: "italic", offset: 5, length: 4 },
+        ],
+      });
+    });
+  });
+
+  describe("methods", () => {
+    it("should reject captions and edits", async () => {
+      await expect(
+        testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", {
+          caption: "Nice pic.",
+          parse_mode: "MarkdownV2",
+        }),
+      ).rejects.toThrow("can't parse entities");
+
+      const message = await testBot.api.sendMessage(chat.id, "Draft");
+      await expect(
+        testBot.api.editMessageText(chat.id, message.message_id, "<b>Final", {
+          parse_mode: "HTML",
+        }),
+      ).rejects.toThrow("can't parse entities");
+      expect(testBot.server.chatState.getMessage(chat.id, message.message_id)).toMatchObject({
+        text: "Draft",
+      });
+    });
+
+    it("should surface the error to handlers", async () => {
+      testBot.command("start", (ctx) => ctx.reply("Welcome!", { parse_mode: "MarkdownV2" }));
+      const user = testBot.createUser({ first_name: "Alice" });
+
+      await expect(testBot.sendCommand(user, chat, "/start")).rejects.toThrow(
+        "Character '!' is reserved",
+      );
+    });
+  });
+
+  it("should expose the byte offset", () => {
+    const error = (() => {
+      try {
+        parseFormattedText("ünclosed *bold", "MarkdownV2");
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ParseEntitiesError);
+    expect(error).toMatchObject({ byteOffset: 10 });
+  });
+});
@@ -0,0 +1,233 @@
+import { Bot, GrammyError } from "grammy";
+import type { Chat, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockFetch, TestBot } from "../src/index.js";
+
+describe("Long Polling", () => {
+  let testBot: TestBot;
+  let user: User;
+  let chat: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    user = testBot.createUser({ first_name: "Alice" });
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+  });
+
+  afterEach(() => {
+    testBot.server.updateQueue.reset();
+    testBot.dispose();
+  });
+
+  async function waitForPoller(): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (testBot.server.updateQueue.waiterCount === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  function queueText(text: string) {
+    const update = testBot.server.updateFactory.createTextMessage(user, chat, text);
+    testBot.queueUpdate(update);
+    return update;
+  }
+
+  describe("getUpdates", () => {
+    it("should return queued updates", async () => {
+      const first = queueText("one");
+      const second = queueText("two");
+
+      const updates = await testBot.api.getUpdates();
+
+      expect(updates.map((u) => u.update_id)).toEqual([first.update_id, second.update_id]);
+    });
+
+    it("should keep updates until they are confirmed with a higher offset", async () => {
+      const first = queueText("one");
+      const second = queueText("two");
+
+      expect(await testBot.api.getUpdates()).toHaveLength(2);
+      expect(await testBot.api.getUpdates()).toHaveLength(2);
+
+      const updates = await testBot.api.getUpdates({ offset: first.update_id + 1 });
+      expect(updates.map((u) => u.update_id)).toEqual([second.update_id]);
+
+      // Confirmed updates are gone for good
+      expect(await testBot.api.getUpdates({ offset: first.update_id })).toHaveLength(1);
+      expect(await testBot.api.getUpdates({ offset: second.update_id + 1 })).toEqual([]);
+    });
+
+    it("should respect limit", async () => {
+      queueText("one");
+      queueText("two");
+      queueText("three");
+
+      const updates = await testBot.api.getUpdates({ limit: 2 });
+      expect(updates).toHaveLength(2);
+    });
+
+    it("should keep only the last updates for a negative offset", async () => {
+      queueText("one");
+      queueText("two");
+      const third = queueText("three");
+
+      const updates = await testBot.api.getUpdates({ offset: -1 });
+      expect(updates.map((u) => u.update_id)).toEqual([third.update_id]);
+
+      // Earlier updates were forgotten
+      expect(testBot.server.updateQueue.pendingCount).toBe(1);
+    });
+
+    it("should hold the request open until an update arrives", async () => {
+      const pending = testBot.api.getUpdates({ timeout: 30 });
+      await waitForPoller();
+      expect(testBot.server.updateQueue.waiterCount).toBe(1);
+
+      const update = queueText("late");
+
+      const updates = await pending;
+      expect(updates.map((u) => u.update_id)).toEqual([update.update_id]);
+    });
+
+    it("should terminate an open request when another poller connects", async () => {
+      const first = testBot.api.getUpdates({ timeout: 30 });
+      await waitForPoller();
+
+      const second = testBot.api.getUpdates({ timeout: 0 });
+
+      await expect(first).rejects.toThrow(GrammyError);
+      await expect(first).rejects.toMatchObject({
+        error_code: 409,
+        description:
+          "Conflict: terminated by other getUpdates request; make sure that only one bot instance is running",
+      });
+      await expect(second).resolves.toEqual([]);
+    });
+  });
+
+  describe("allowed_updates", () => {
+    it("should exclude chat_member updates by default", async () => {
+      const member = { status: "member" as const, user };
+      testBot.queueUpdate(
+        testBot.server.updateFactory.createChatMemberUpdate(chat, user, member, member),
+      );
+      queueText("hello");
+
+      const updates = await testBot.api.getUpdates();
+      expect(updates).toHaveLength(1);
+      expect(updates[0].message?.text).toBe("hello");
+    });
+
+    it("should only queue the allowed update types", async () => {
+      await testBot.api.getUpdates({ allowed_updates: ["callback_query"] });
+
+      queueText("ignored");
+      testBot.queueUpdate(testBot.server.updateFactory.createCallbackQuery(user, chat, "data"));
+
+      const updates = await testBot.api.getUpdates();
+      expect(updates).toHaveLength(1);
+      expect(updates[0].callback_query?.data).toBe("data");
+    });
+
+    it("should deliver chat_member updates when requested explicitly", async () => {
+      await testBot.api.getUpdates({ allowed_updates: ["chat_member"] });
+
+      const member = { status: "member" as const, user };
+      testBot.queueUpdate(
+        testBot.server.updateFactory.createChatMemberUpdate(chat, user, member, member),
+      );
+
+      const updates = await testBot.api.getUpdates();
+      expect(updates[0].chat_member).toBeDefined();
+    });
+
+    it("should restore the default for an empty list", async () => {
+      await testBot.api.getUpdates({ allowed_updates: ["callback_query"] });
+      await testBot.api.getUpdates({ allowed_updates: [] });
+
+      queueText("hello");
+
+      expect(await testBot.api.getUpdates()).toHaveLength(1);
+    });
+  });
+
+  describe("Real bot.start()", () => {
+    it("should run an unmodified Bot against the simulated server", async () => {
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+      const received: string[] = [];
+      bot.on("message:text", async (ctx) => {
+        received.push(ctx.message.text);
+        await ctx.reply(`Echo: ${ctx.message.text}`);
+        if (received.length === 2) {
+          await bot.stop();
+        }
+      });
+
+      queueText("one");
+      queueText("two");
+      await bot.start();
+
+      expect(received).toEqual(["one", "two"]);
+      expect(testBot.server.getBotMessages(chat.id)).toHaveLength(2);
+      // bot.stop() confirmed the handled updates
+      expect(testBot.server.updateQueue.pendingCount).toBe(0);
+    });
+
+    it("should pick up updates queued while polling", async () => {
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+      bot.on("message:text", async (ctx) => {
+        await bot.stop();
+        await ctx.reply("bye");
+      });
+
+      const running = bot.start();
+      await waitForPoller();
+      queueText("hello");
+      await running;
+
+      expect(testBot.server.getLastBotMessage(chat.id)).toMatchObject({ text: "bye" });
+    });
+
+    it("should stop while a long poll is open", async () => {
+      const bot = new Bot("TEST:TOKEN", {
+        botInfo: testBot.botInfo,
+        client: { fetch: createMockFetch(testBot.server, []) },
+      });
+      bot.on("message", () => {});
+
+      const running = bot.start();
+      await waitForPoller();
+      expect(testBot.server.updateQueue.waiterCount).toBe(1);
+
+      await bot.stop();
+      await running;
+
+      expect(bot.isRunning()).toBe(false);
+    });
+  });
+
+  describe("TestBot.start()", () => {
+    it("should process queued updates and confirm them on stop", async () => {
+      const received: string[] = [];
+      testBot.on("message:text", async (ctx) => {
+        received.push(ctx.message.text);
+        if (received.length === 2) {
+          await testBot.stop();
+        }
+      });
+
+      queueText("one");
+      queueText("two");
+      await testBot.start();
+
+      expect(received).toEqual(["one", "two"]);
+      expect(testBot.server.updateQueue.pendingCount).toBe(0);
+    });
+  });
+});
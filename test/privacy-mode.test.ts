@@ -0,0 +1,162 @@
+import type { Chat, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Privacy Mode", () => {
+  let testBot: TestBot;
+  let user: User;
+  let group: Chat;
+  let received: string[];
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    user = testBot.createUser({ first_name: "Alice" });
+    group = testBot.createChat({ type: "supergroup", title: "Group" });
+    testBot.setMember(group, user);
+    testBot.setBotMember(group);
+
+    received = [];
+    testBot.on("message", (ctx) => {
+      received.push(ctx.message.text ?? ctx.message.caption ?? "<service>");
+    });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("privacy mode on", () => {
+    it("should suppress plain group messages", async () => {
+      const response = await testBot.sendMessage(user, group, "just chatting");
+
+      expect(received).toEqual([]);
+      expect(response.suppressed).toBe(true);
+      expect(response.suppressedReason).toBe("privacy_mode");
+      expect(response.sentMessage?.text).toBe("just chatting");
+    });
+
+    it("should suppress media without a mention", async () => {
+      const response = await testBot.sendPhoto(
+        user,
+        group,
+        { width: 100, height: 100 },
+        { caption: "look" },
+      );
+
+      expect(response.suppressed).toBe(true);
+    });
+
+    it("should deliver commands", async () => {
+      const response = await testBot.sendCommand(user, group, "/start");
+
+      expect(received).toEqual(["/start"]);
+      expect(response.suppressed).toBe(false);
+    });
+
+    it("should deliver commands addressed to the bot", async () => {
+      await testBot.sendMessage(user, group, "/help@test_bot");
+
+      expect(received).toEqual(["/help@test_bot"]);
+    });
+
+    it("should suppress commands addressed to another bot", async () => {
+      const response = await testBot.sendMessage(user, group, "/help@other_bot");
+
+      expect(response.suppressed).toBe(true);
+    });
+
+    it("should deliver messages mentioning the bot", async () => {
+      await testBot.sendMessage(user, group, "hey @test_bot, what's up?");
+      await testBot.sendPhoto(user, group, { width: 10, height: 10 }, { caption: "@TEST_BOT" });
+
+      expect(received).toEqual(["hey @test_bot, what's up?", "@TEST_BOT"]);
+    });
+
+    it("should not treat longer usernames as mentions", async () => {
+      const response = await testBot.sendMessage(user, group, "ask @test_bot_helper");
+
+      expect(response.suppressed).toBe(true);
+    });
+
+    it("should deliver replies to the bot's messages", async () => {
+      const botMessage = await testBot.api.sendMessage(group.id, "Anyone?");
+
+      const response = await testBot.sendMessage(user, group, "me", {
+        replyToMessageId: botMessage.message_id,
+      });
+
+      expect(response.suppressed).toBe(false);
+      expect(received).toEqual(["me"]);
+    });
+
+    it("should suppress replies to other users", async () => {
+      const first = await testBot.sendMessage(user, group, "first");
+
+      const response = await testBot.sendMessage(user, group, "second", {
+        replyToMessageId: first.sentMessage?.message_id,
+      });
+
+      expect(response.suppressed).toBe(true);
+    });
+
+    it("should apply to edited messages", async () => {
+      const sent = await testBot.sendMessage(user, group, "typo");
+      const response = await testBot.editUserMessage(
+        user,
+        group,
+        sent.sentMessage?.message_id ?? 0,
+        "fixed",
+      );
+
+      expect(response.suppressed).toBe(true);
+    });
+
+    it("should let service messages through", () => {
+      const update = testBot.server.updateFactory.createForumTopicCreated(
+        user,
+        group,
+        { name: "Topic", icon_color: 0x6fb9f0 },
+        5,
+      );
+
+      expect(testBot.server.isHiddenByPrivacyMode(update)).toBe(false);
+    });
+
+    it("should not affect private chats", async () => {
+      const chat = testBot.createChat({ type: "private", first_name: "Alice" });
+
+      const response = await testBot.sendMessage(user, chat, "hello");
+
+      expect(response.suppressed).toBe(false);
+      expect(received).toEqual(["hello"]);
+    });
+  });
+
+  describe("privacy mode off", () => {
+    it("should deliver everything when the bot is an administrator", async () => {
+      testBot.setBotAdmin(group);
+
+      const response = await testBot.sendMessage(user, group, "just chatting");
+
+      expect(response.suppressed).toBe(false);
+      expect(received).toEqual(["just chatting"]);
+    });
+
+    it("should deliver everything with can_read_all_group_messages", async () => {
+      const reader = new TestBot({
+        botInfo: { ...testBot.botInfo, can_read_all_group_messages: true },
+      });
+      const messages: string[] = [];
+      reader.on("message:text", (ctx) => {
+        messages.push(ctx.message.text);
+      });
+      const chat = reader.createChat({ type: "group", title: "Group" });
+
+      const response = await reader.sendMessage(user, chat, "just chatting");
+
+      expect(response.suppressed).toBe(false);
+      expect(messages).toEqual(["just chatting"]);
+      reader.dispose();
+    });
+  });
+});
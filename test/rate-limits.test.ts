@@ -0,0 +1,250 @@
+import { GrammyError } from "grammy";
+import type { Chat, User } from "grammy/types";
+import { afterEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Rate Limits", () => {
+  let testBot: TestBot;
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  const createPrivateChats = (count: number): Chat[] =>
+    Array.from({ length: count }, (_, i) =>
+      testBot.createChat({ type: "private", first_name: `User ${i}` }),
+    );
+
+  describe("defaults", () => {
+    it("should allow 30 messages per second to a chat", async () => {
+      testBot = new TestBot();
+      const [chat] = createPrivateChats(1);
+
+      for (let i = 0; i < 30; i++) {
+        await testBot.api.sendMessage(chat.id, `Message ${i}`);
+      }
+      const error = await testBot.api.sendMessage(chat.id, "One more").catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 429,
+        description: "Too Many Requests: retry after 1",
+        parameters: { retry_after: 1 },
+      });
+
+      testBot.advanceTime(1);
+      await expect(testBot.api.sendMessage(chat.id, "Later")).resolves.toBeDefined();
+    });
+
+    it("should allow 20 messages per minute to a group", async () => {
+      testBot = new TestBot();
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+
+      for (let i = 0; i < 20; i++) {
+        await testBot.api.sendMessage(group.id, `Message ${i}`);
+      }
+      const error = await testBot.api
+        .sendMessage(group.id, "One more")
+        .catch((e: GrammyError) => e);
+
+      expect(error).toMatchObject({ error_code: 429 });
+      expect((error as GrammyError).parameters.retry_after).toBeGreaterThan(0);
+      expect((error as GrammyError).parameters.retry_after).toBeLessThanOrEqual(60);
+    });
+
+    it("should not limit messages across all chats", async () => {
+      testBot = new TestBot();
+      const chats = createPrivateChats(40);
+
+      for (const chat of chats) {
+        await expect(testBot.api.sendMessage(chat.id, "Broadcast")).resolves.toBeDefined();
+      }
+    });
+  });
+
+  describe("configuration", () => {
+    it("should limit messages across all chats to global per second", async () => {
+      testBot = new TestBot({ rateLimits: { global: 30 } });
+      const chats = createPrivateChats(31);
+
+      for (const chat of chats.slice(0, 30)) {
+        await testBot.api.sendMessage(chat.id, "Broadcast");
+      }
+
+      await expect(testBot.api.sendMessage(chats[30].id, "Broadcast")).rejects.toMatchObject({
+        error_code: 429,
+      });
+    });
+
+    it("should let paid broadcasts exceed the global limit", async () => {
+      testBot = new TestBot({ rateLimits: { global: 30 } });
+      const chats = createPrivateChats(40);
+
+      for (const chat of chats.slice(0, 30)) {
+        await testBot.api.sendMessage(chat.id, "Free");
+      }
+      for (const chat of chats.slice(30)) {
+        await testBot.api.sendMessage(chat.id, "Paid", { allow_paid_broadcast: true });
+      }
+
+      await expect(testBot.api.sendMessage(chats[0].id, "Free")).rejects.toMatchObject({
+        error_code: 429,
+      });
+    });
+    it("should use limits from the config", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 1 } });
+      const [chat] = createPrivateChats(1);
+
+      await testBot.api.sendMessage(chat.id, "First");
+
+      await expect(testBot.api.sendMessage(chat.id, "Second")).rejects.toMatchObject({
+        error_code: 429,
+      });
+      expect(testBot.server.memberState.getRateLimitConfig()).toEqual({
+        perChat: 1,
+        perGroupPerMinute: 20,
+        global: Number.POSITIVE_INFINITY,
+        paidBroadcast: 1000,
+      });
+    });
+
+    it("should limit paid broadcasts to paidBroadcast per second", async () => {
+      testBot = new TestBot({ rateLimits: { paidBroadcast: 2 } });
+      const chats = createPrivateChats(3);
+
+      await testBot.api.sendMessage(chats[0].id, "Paid", { allow_paid_broadcast: true });
+      await testBot.api.sendMessage(chats[1].id, "Paid", { allow_paid_broadcast: true });
+
+      await expect(
+        testBot.api.sendMessage(chats[2].id, "Paid", { allow_paid_broadcast: true }),
+      ).rejects.toMatchObject({ error_code: 429 });
+    });
+
+    it("should disable limits with false", async () => {
+      testBot = new TestBot({ rateLimits: false });
+      const [chat] = createPrivateChats(1);
+
+      for (let i = 0; i < 100; i++) {
+        await testBot.api.sendMessage(chat.id, `Message ${i}`);
+      }
+
+      expect(testBot.server.memberState.getRateLimitConfig()).toBeNull();
+    });
+
+    it("should keep the config across resets", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 1 } });
+
+      testBot.server.reset();
+
+      expect(testBot.server.memberState.getRateLimitConfig()?.perChat).toBe(1);
+    });
+  });
+
+  describe("methods", () => {
+    it("should count edits", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 2 } });
+      const [chat] = createPrivateChats(1);
+
+      const message = await testBot.api.sendMessage(chat.id, "Loading");
+      await testBot.api.editMessageText(chat.id, message.message_id, "Loading.");
+
+      await expect(
+        testBot.api.editMessageText(chat.id, message.message_id, "Loading.."),
+      ).rejects.toMatchObject({ error_code: 429 });
+    });
+
+    it("should count other send methods", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 2 } });
+      const [chat] = createPrivateChats(1);
+
+      await testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg");
+      await testBot.api.sendDice(chat.id);
+
+      await expect(testBot.api.sendLocation(chat.id, 51.5, -0.1)).rejects.toMatchObject({
+        error_code: 429,
+      });
+    });
+
+    it("should count callback answers against the global limit", async () => {
+      testBot = new TestBot({ rateLimits: { global: 1 } });
+      const user: User = testBot.createUser({ first_name: "Alice" });
+      const [chat] = createPrivateChats(1);
+      const errors: unknown[] = [];
+      testBot.on("callback_query:data", async (ctx) => {
+        await ctx.answerCallbackQuery().catch((e) => errors.push(e));
+      });
+
+      await testBot.api.sendMessage(chat.id, "Menu");
+      await testBot.clickButton(user, chat, "open");
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ error_code: 429 });
+    });
+
+    it("should exempt the bot from per-chat limits where it is an admin", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 1, perGroupPerMinute: 1 } });
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      testBot.setBotAdmin(group);
+
+      await testBot.api.sendMessage(group.id, "First");
+
+      await expect(testBot.api.sendMessage(group.id, "Second")).resolves.toBeDefined();
+    });
+
+    it("should not count calls that fail", async () => {
+      testBot = new TestBot({ rateLimits: { perChat: 1, global: 2 } });
+      const [chat, other] = createPrivateChats(2);
+
+      await expect(testBot.api.sendMessage(chat.id, "x".repeat(4097))).rejects.toMatchObject({
+        error_code: 400,
+      });
+      await expect(testBot.api.sendMessage(chat.id, "First")).resolves.toBeDefined();
+      await expect(testBot.api.sendMessage(other.id, "Second")).resolves.toBeDefined();
+    });
+
+    it("should not count failed sends against slow mode", async () => {
+      testBot = new TestBot();
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      testBot.setMember(group, testBot.botInfo);
+      testBot.server.chatState.setSlowModeDelay(group.id, 30);
+
+      await expect(testBot.api.sendMessage(group.id, "x".repeat(4097))).rejects.toMatchObject({
+        error_code: 400,
+      });
+      await expect(testBot.api.sendMessage(group.id, "Hello")).resolves.toBeDefined();
+    });
+
+    it("should not apply slow mode to edits", async () => {
+      testBot = new TestBot();
+      const group = testBot.createChat({ type: "supergroup", title: "Group" });
+      testBot.setMember(group, testBot.botInfo);
+      testBot.server.chatState.setSlowModeDelay(group.id, 30);
+
+      const message = await testBot.api.sendMessage(group.id, "Draft");
+      await expect(
+        testBot.api.editMessageText(group.id, message.message_id, "Final"),
+      ).resolves.toBeDefined();
+      await expect(testBot.api.sendMessage(group.id, "Again")).rejects.toMatchObject({
+        error_code: 429,
+        parameters: { retry_after: 30 },
+      });
+    });
+  });
+
+  it("should report the budget used per method", async () => {
+    testBot = new TestBot({ rateLimits: { perChat: 3 } });
+    const [chat] = createPrivateChats(1);
+
+    const message = await testBot.api.sendMessage(chat.id, "One");
+    await testBot.api.sendMessage(chat.id, "Two");
+    await testBot.api.editMessageText(chat.id, message.message_id, "One!");
+    await testBot.api.sendMessage(chat.id, "Three").catch(() => {});
+    testBot.advanceTime(1);
+    await testBot.api.sendMessage(chat.id, "Three");
+
+    expect(testBot.server.memberState.getRateLimitReport()).toEqual({
+      sendMessage: { calls: 4, limited: 1, peakPerSecond: 3, maxRetryAfter: 1 },
+      editMessageText: { calls: 1, limited: 0, peakPerSecond: 1, maxRetryAfter: 0 },
+    });
+  });
+});
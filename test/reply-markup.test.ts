@@ -0,0 +1,232 @@
+import { GrammyError, InlineKeyboard, Keyboard } from "grammy";
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot, validateReplyMarkup } from "../src/index.js";
+
+describe("Reply Markup Validation", () => {
+  let testBot: TestBot;
+  let chat: Chat;
+  let group: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+    group = testBot.createChat({ type: "supergroup", title: "Group" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("callback_data", () => {
+    it("should accept 64 bytes", async () => {
+      const keyboard = new InlineKeyboard().text("OK", "x".repeat(64));
+
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: keyboard }),
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject more than 64 bytes", async () => {
+      const keyboard = new InlineKeyboard().text("OK", "x".repeat(65));
+
+      const error = await testBot.api
+        .sendMessage(chat.id, "Hi", { reply_markup: keyboard })
+        .catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 400,
+        description: "Bad Request: BUTTON_DATA_INVALID",
+      });
+    });
+
+    it("should count bytes, not characters", async () => {
+      // 22 Cyrillic characters take 44 bytes, the suffix another 22
+      const data = `${"я".repeat(22)}:${"1".repeat(21)}`;
+      const keyboard = new InlineKeyboard().text("Выбрать", data);
+
+      expect(data.length).toBeLessThan(64);
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: keyboard }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+    });
+
+    it("should reject empty data", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: { inline_keyboard: [[{ text: "OK", callback_data: "" }]] },
+        }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+    });
+  });
+
+  describe("inline buttons", () => {
+    it("should reject buttons without an action", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: { inline_keyboard: [[{ text: "Nothing" } as never]] },
+        }),
+      ).rejects.toThrow(
+        "Bad Request: can't parse inline keyboard button: Text buttons are unallowed in the inline keyboard",
+      );
+    });
+
+    it("should reject buttons with several actions", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "Both", url: "https://example.com", callback_data: "both" } as never],
+            ],
+          },
+        }),
+      ).rejects.toThrow("exactly one of the optional fields must be used");
+    });
+
+    it("should reject more than 100 buttons", async () => {
+      const keyboard = new InlineKeyboard();
+      for (let i = 0; i < 101; i++) {
+        keyboard.text(`${i}`, `button_${i}`);
+        if (i % 5 === 4) keyboard.row();
+      }
+
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: keyboard }),
+      ).rejects.toThrow("Bad Request: REPLY_MARKUP_TOO_LONG");
+    });
+
+    it("should validate URLs", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: new InlineKeyboard().url("Open", "not a url"),
+        }),
+      ).rejects.toThrow(
+        "Bad Request: inline keyboard button URL 'not a url' is invalid: Wrong HTTP URL",
+      );
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: new InlineKeyboard().url("Run", "javascript:alert(1)"),
+        }),
+      ).rejects.toThrow("is invalid: Unsupported URL protocol");
+    });
+
+    it("should accept URLs without a protocol and tg:// links", async () => {
+      const keyboard = new InlineKeyboard()
+        .url("Site", "example.com/page")
+        .url("Profile", "tg://user?id=1");
+
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: keyboard }),
+      ).resolves.toBeDefined();
+    });
+
+    it("should only allow web_app buttons in private chats", async () => {
+      const keyboard = new InlineKeyboard().webApp("Open", "https://example.com/app");
+
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: keyboard }),
+      ).resolves.toBeDefined();
+      await expect(
+        testBot.api.sendMessage(group.id, "Hi", { reply_markup: keyboard }),
+      ).rejects.toThrow("Bad Request: BUTTON_TYPE_INVALID");
+    });
+
+    it("should accept an empty inline keyboard", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: { inline_keyboard: [] } }),
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe("reply keyboards", () => {
+    it("should reject empty keyboards", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", { reply_markup: { keyboard: [[]] } }),
+      ).rejects.toThrow("Bad Request: REPLY_MARKUP_INVALID");
+    });
+
+    it("should reject buttons with several requests", async () => {
+      await expect(
+        testBot.api.sendMessage(chat.id, "Hi", {
+          reply_markup: {
+            keyboard: [[{ text: "Share", request_contact: true, request_location: true }]],
+          },
+        }),
+      ).rejects.toThrow("at most one of the optional fields must be used");
+    });
+
+    it("should only allow web_app buttons in private chats", async () => {
+      const keyboard = new Keyboard().webApp("Open", "https://example.com/app");
+
+      await expect(
+        testBot.api.sendMessage(group.id, "Hi", { reply_markup: keyboard }),
+      ).rejects.toThrow("BUTTON_TYPE_INVALID");
+    });
+  });
+
+  describe("methods", () => {
+    const tooLong = new InlineKeyboard().text("OK", "x".repeat(65));
+
+    it("should validate edits", async () => {
+      const message = await testBot.api.sendMessage(chat.id, "Hi");
+
+      await expect(
+        testBot.api.editMessageReplyMarkup(chat.id, message.message_id, { reply_markup: tooLong }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+      await expect(
+        testBot.api.editMessageText(chat.id, message.message_id, "Edited", {
+          reply_markup: tooLong,
+        }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+    });
+
+    it("should validate other send methods", async () => {
+      await expect(
+        testBot.api.sendPhoto(chat.id, "https://example.com/a.jpg", { reply_markup: tooLong }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+      await expect(
+        testBot.api.sendPoll(chat.id, "Lunch?", ["Pizza", "Sushi"], { reply_markup: tooLong }),
+      ).rejects.toThrow("BUTTON_DATA_INVALID");
+    });
+
+    it("should validate inline query results", async () => {
+      const errors: unknown[] = [];
+      testBot.on("inline_query", async (ctx) => {
+        await ctx
+          .answerInlineQuery([
+            {
+              type: "article",
+              id: "1",
+              title: "Result",
+              input_message_content: { message_text: "Result" },
+              reply_markup: new InlineKeyboard().webApp("Open", "https://example.com/app"),
+            },
+          ])
+          .catch((e) => errors.push(e));
+      });
+
+      const user = testBot.createUser({ first_name: "Alice" });
+      await testBot.sendInlineQuery(user, "search");
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ description: "Bad Request: BUTTON_TYPE_INVALID" });
+    });
+
+    it("should surface the error to handlers building keyboards", async () => {
+      testBot.command("menu", (ctx) =>
+        ctx.reply("Choose", {
+          reply_markup: new InlineKeyboard().text("Settings", `settings:${"a".repeat(60)}`),
+        }),
+      );
+      const user = testBot.createUser({ first_name: "Alice" });
+
+      await expect(testBot.sendCommand(user, chat, "/menu")).rejects.toThrow("BUTTON_DATA_INVALID");
+    });
+  });
+
+  it("should ignore markup without keyboards", () => {
+    expect(validateReplyMarkup({ remove_keyboard: true })).toBeUndefined();
+    expect(validateReplyMarkup({ force_reply: true })).toBeUndefined();
+  });
+});
@@ -244,6 +244,7 @@ describe("Restrictions & Slow Mode", () => {
       const admin = testBot.createUser({ first_name: "Admin" });
       const member = testBot.createUser({ first_name: "Member" });
       const group = testBot.createChat({ type: "supergroup", title: "Test Group" });
+      testBot.setBotAdmin(group); // admins see every group message
 
       testBot.setOwner(group, admin);
       testBot.setMember(group, member);
@@ -269,6 +270,7 @@ describe("Restrictions & Slow Mode", () => {
     it("should not apply slow mode to admins", async () => {
       const admin = testBot.createUser({ first_name: "Admin" });
       const group = testBot.createChat({ type: "supergroup", title: "Test Group" });
+      testBot.setBotAdmin(group); // admins see every group message
 
       testBot.setOwner(group, admin);
       testBot.server.chatState.setSlowModeDelay(group.id, 30);
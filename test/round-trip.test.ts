@@ -0,0 +1,359 @@
+import type { MessageEntity } from "grammy/types";
+import { describe, expect, it } from "vitest";
+import { formatText, type ParseMode, parseFormattedText } from "../src/index.js";
+
+/**
+ * Small seeded PRNG (mulberry32), so failures can be reproduced from the seed.
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  return { next, int, pick };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Characters that are special in at least one parse mode, plus astral and combined emoji */
+const RICH_ALPHABET = [
+  ..."abc xyz",
+  ..."_*[]()~`>#+-=|{}.!\\",
+  ..."&<>\"';",
+  "\r",
+  "é",
+  "👍",
+  "👨‍👩‍👧",
+];
+
+const URLS = [
+  'https://example.com/a_(b)?q=1&r="2"',
+  "https://e.com/\\path",
+  "tg://resolve?domain=x",
+];
+
+function generateText(random: Random, alphabet: readonly string[]): string {
+  const lines = Array.from({ length: random.int(1, 4) }, () =>
+    Array.from({ length: random.int(1, 12) }, () => random.pick(alphabet)).join(""),
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Offsets that don't split a surrogate pair.
+ */
+function codePointBoundaries(text: string): number[] {
+  const boundaries = [0];
+  for (const char of text) {
+    boundaries.push(boundaries[boundaries.length - 1] + char.length);
+  }
+  return boundaries;
+}
+
+function intersects(a: MessageEntity, b: MessageEntity): boolean {
+  return a.offset < b.offset + b.length && b.offset < a.offset + a.length;
+}
+
+function contains(outer: MessageEntity, inner: MessageEntity): boolean {
+  return outer.offset <= inner.offset && inner.offset + inner.length <= outer.offset + outer.length;
+}
+
+const STYLES = ["bold", "italic", "underline", "strikethrough", "spoiler"] as const;
+const CODE = ["code", "pre"] as const;
+const LINKS = ["text_link", "text_mention", "custom_emoji"] as const;
+
+const isCode = (entity: MessageEntity) => entity.type === "code" || entity.type === "pre";
+const isLink = (entity: MessageEntity) => (LINKS as readonly string[]).includes(entity.type);
+const isStyle = (entity: MessageEntity) => (STYLES as readonly string[]).includes(entity.type);
+const isBlockquote = (entity: MessageEntity) =>
+  entity.type === "blockquote" || entity.type === "expandable_blockquote";
+
+function createEntity(
+  random: Random,
+  type: MessageEntity["type"],
+  offset: number,
+  length: number,
+): MessageEntity {
+  switch (type) {
+    case "pre":
+      return random.next() < 0.5
+        ? { type, offset, length }
+        : { type, offset, length, language: random.pick(["ts", "python", "c++"]) };
+    case "text_link":
+      return { type, offset, length, url: random.pick(URLS) };
+    case "text_mention":
+      return {
+        type,
+        offset,
+        length,
+        user: { id: random.int(1, 999), is_bot: false, first_name: "" },
+      };
+    case "custom_emoji":
+      return { type, offset, length, custom_emoji_id: String(random.int(1, 10 ** 9)) };
+    default:
+      return { type, offset, length } as MessageEntity;
+  }
+}
+
+/**
+ * Generate entities that follow Telegram's nesting rules: code and pre only nest inside
+ * styles, links don't contain each other, and blockquotes span whole lines and don't
+ * touch. Layouts a parse mode can't express are skipped.
+ */
+function generateEntities(random: Random, text: string, format: ParseMode): MessageEntity[] {
+  const boundaries = codePointBoundaries(text);
+  const entities: MessageEntity[] = [];
+
+  if (format !== "Markdown") {
+    const lineStarts = [0, ...[...text.matchAll(/\n/g)].map((match) => (match.index ?? 0) + 1)];
+    const lineEnds = [...lineStarts.slice(1).map((start) => start - 1), text.length];
+    let line = random.int(0, lineStarts.length);
+    while (line < lineStarts.length) {
+      const last = random.int(line, lineStarts.length - 1);
+      const length = lineEnds[last] - lineStarts[line];
+      if (length > 0) {
+        const type = random.next() < 0.5 ? "blockquote" : "expandable_blockquote";
+        entities.push({ type, offset: lineStarts[line], length });
+      }
+      line = last + 2 + random.int(0, 2);
+    }
+  }
+
+  const types =
+    format === "Markdown"
+      ? (["bold", "italic", "code", "pre", "text_link", "text_mention"] as const)
+      : ([...STYLES, ...STYLES, ...CODE, ...LINKS] as const);
+
+  const holdsCode = (entity: MessageEntity) =>
+    !isBlockquote(entity) &&
+    entities.some((other) => isCode(other) && other !== entity && contains(entity, other));
+  const crossesAny = (entity: MessageEntity) =>
+    entities.some(
+      (other) => intersects(entity, other) && !contains(entity, other) && !contains(other, entity),
+    );
+
+  for (let attempt = random.int(0, 8); attempt > 0; attempt--) {
+    const start = random.int(0, boundaries.length - 2);
+    const end = random.int(start + 1, Math.min(boundaries.length - 1, start + 8));
+    const entity = createEntity(
+      random,
+      random.pick(types),
+      boundaries[start],
+      boundaries[end] - boundaries[start],
+    );
+
+    const allowed = entities.every((other) => {
+      // The code closer can't go before the ">" that starts a MarkdownV2 blockquote line,
+      // and isn't recognized after it
+      if (
+        format === "MarkdownV2" &&
+        isCode(entity) &&
+        isBlockquote(other) &&
+        other.offset === entity.offset + entity.length
+      ) {
+        return false;
+      }
+      // MarkdownV2 can't open an entity on the line break that ends a blockquote
+      if (format === "MarkdownV2" && isBlockquote(other)) {
+        const lineBreak = other.offset + other.length;
+        if (entity.offset <= lineBreak && lineBreak < entity.offset + entity.length) {
+          return false;
+        }
+      }
+      if (!intersects(entity, other)) return true;
+      if (format === "Markdown") return false;
+      // Code and pre may only sit inside blockquotes and styles
+      if (isCode(entity)) {
+        return (
+          (isBlockquote(other) ||
+            (isStyle(other) && other.length > entity.length && !crossesAny(other))) &&
+          contains(other, entity)
+        );
+      }
+      // A style with the same range as code counts as inside it, and Telegram drops it
+      if (isCode(other))
+        return isStyle(entity) && contains(entity, other) && entity.length > other.length;
+      if (isLink(entity) && isLink(other)) return false;
+      // Splitting an entity that holds code could leave a piece with the same range as
+      // the code, which Telegram drops. MarkdownV2 splits everything at blockquote edges.
+      const crosses =
+        !contains(other, entity) &&
+        (!contains(entity, other) || (format === "MarkdownV2" && isBlockquote(other)));
+      if (crosses && (holdsCode(entity) || holdsCode(other))) return false;
+      return true;
+    });
+    if (!allowed) continue;
+    entities.push(entity);
+  }
+  return entities;
+}
+
+const MARKDOWN_END_CHARACTERS: Record<string, string> = {
+  bold: "*",
+  italic: "_",
+  code: "`",
+  pre: "`",
+  text_link: "]",
+  text_mention: "]",
+};
+
+/**
+ * The formatting legacy Markdown can keep. It has no escapes inside entities, so the
+ * characters that would end an entity lose its formatting, as does a "\r" starting a
+ * pre block. An entity right after an unformatted "\" would have its start marker
+ * escaped, so it is lost, and ")" in link URLs is percent-encoded.
+ */
+function expressibleInMarkdown(text: string, entities: MessageEntity[]): MessageEntity[] {
+  const pieces: MessageEntity[] = [];
+  for (const entity of [...entities].sort((a, b) => a.offset - b.offset)) {
+    let piece: MessageEntity | undefined;
+    for (let i = entity.offset; i < entity.offset + entity.length; i++) {
+      const leftOut =
+        text[i] === MARKDOWN_END_CHARACTERS[entity.type] ||
+        (entity.type === "pre" && !piece && text[i] === "\r");
+      if (leftOut) {
+        piece = undefined;
+      } else if (piece) {
+        piece.length++;
+      } else {
+        piece = { ...entity, offset: i, length: 1 };
+        if (piece.type === "text_link") piece.url = piece.url.replaceAll(")", "%29");
+        pieces.push(piece);
+      }
+    }
+  }
+
+  const formatted = new Set<number>();
+  return pieces.filter((piece) => {
+    const before = piece.offset - 1;
+    if (text[before] === "\\" && !formatted.has(before)) return false;
+    for (let i = piece.offset; i < piece.offset + piece.length; i++) formatted.add(i);
+    return true;
+  });
+}
+
+/**
+ * Describe the formatting of every UTF-16 code unit, so entities that were split or
+ * written differently still compare equal when they format the same characters.
+ */
+function formattingByPosition(text: string, entities: MessageEntity[]): string[] {
+  return Array.from({ length: text.length }, (_, position) =>
+    [
+      ...new Set(
+        entities
+          .filter((entity) => entity.offset <= position && position < entity.offset + entity.length)
+          .map((entity) => {
+            switch (entity.type) {
+              case "pre":
+                return `pre:${entity.language ?? ""}`;
+              case "text_link":
+                return `text_link:${entity.url}`;
+              case "text_mention":
+                return `text_mention:${entity.user.id}`;
+              case "custom_emoji":
+                return `custom_emoji:${entity.custom_emoji_id}`;
+              default:
+                return entity.type;
+            }
+          }),
+      ),
+    ]
+      .sort()
+      .join(","),
+  );
+}
+
+const MODES: ParseMode[] = ["HTML", "MarkdownV2", "Markdown"];
+
+describe("Round-trip Formatting", () => {
+  describe("legacy Markdown", () => {
+    it("should leave the characters that end an entity out of it", () => {
+      expect(formatText("a*b", [{ type: "bold", offset: 0, length: 3 }], "Markdown")).toBe(
+        "*a*\\**b*",
+      );
+      expect(formatText("x_y", [{ type: "italic", offset: 0, length: 3 }], "Markdown")).toBe(
+        "_x_\\__y_",
+      );
+      expect(
+        parseFormattedText(
+          formatText("code`x", [{ type: "code", offset: 0, length: 6 }], "Markdown"),
+          "Markdown",
+        ),
+      ).toEqual({
+        text: "code`x",
+        entities: [
+          { type: "code", offset: 0, length: 4 },
+          { type: "code", offset: 5, length: 1 },
+        ],
+      });
+    });
+
+    it("should percent-encode parentheses in link URLs", () => {
+      const markdown = formatText(
+        "link",
+        [{ type: "text_link", offset: 0, length: 4, url: "https://e.com/a_(b)" }],
+        "Markdown",
+      );
+
+      expect(markdown).toBe("[link](https://e.com/a_(b%29)");
+      expect(parseFormattedText(markdown, "Markdown")).toEqual({
+        text: "link",
+        entities: [{ type: "text_link", offset: 0, length: 4, url: "https://e.com/a_(b%29" }],
+      });
+    });
+
+    it("should leave out entities a backslash would escape", () => {
+      expect(formatText("\\x", [{ type: "bold", offset: 1, length: 1 }], "Markdown")).toBe("\\x");
+    });
+  });
+
+  describe.each(MODES)("%s", (format) => {
+    it("should parse formatted text back to the same text and formatting", () => {
+      for (let seed = 1; seed <= 500; seed++) {
+        const random = createRandom(seed);
+        const text = generateText(random, RICH_ALPHABET);
+        const entities = generateEntities(random, text, format);
+        const formatted = formatText(text, entities, format);
+        const context = `seed ${seed}: ${JSON.stringify({ text, entities, formatted })}`;
+
+        const parsed = (() => {
+          try {
+            return parseFormattedText(formatted, format);
+          } catch (error) {
+            throw new Error(`${context}: ${error}`);
+          }
+        })();
+
+        expect(parsed.text, context).toBe(text);
+        expect(formattingByPosition(parsed.text, parsed.entities), context).toEqual(
+          formattingByPosition(
+            text,
+            format === "Markdown" ? expressibleInMarkdown(text, entities) : entities,
+          ),
+        );
+      }
+    });
+
+    it("should be stable for parsed text", () => {
+      for (let seed = 1; seed <= 200; seed++) {
+        const random = createRandom(seed);
+        const text = generateText(random, RICH_ALPHABET);
+        const parsed = parseFormattedText(
+          formatText(text, generateEntities(random, text, format), format),
+          format,
+        );
+
+        expect(
+          parseFormattedText(formatText(parsed.text, parsed.entities, format), format),
+          `seed ${seed}`,
+        ).toEqual(parsed);
+      }
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { GrammyError, InputFile } from "grammy";
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot, validateApiPayload } from "../src/index.js";
+
+describe("Strict Mode", () => {
+  let testBot: TestBot;
+  let chat: Chat;
+
+  beforeEach(() => {
+    testBot = new TestBot({ strict: true });
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  it("should accept valid payloads", async () => {
+    const message = await testBot.api.sendMessage(chat.id, "Hi", {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: [[{ text: "OK", callback_data: "ok" }]] },
+      link_preview_options: { is_disabled: true },
+    });
+    await testBot.api.editMessageText(chat.id, message.message_id, "Edited");
+    await testBot.api.sendPhoto(chat.id, new InputFile(Buffer.from("photo"), "photo.jpg"));
+
+    expect(testBot.server.isStrictMode()).toBe(true);
+  });
+
+  it("should reject unknown parameters", async () => {
+    const error = await testBot.api.raw
+      .sendMessage({ chat_id: chat.id, text: "Hi", parse_mdoe: "HTML" } as never)
+      .catch((e: GrammyError) => e);
+
+    expect(error).toBeInstanceOf(GrammyError);
+    expect(error).toMatchObject({
+      error_code: 400,
+      description: 'Bad Request: unknown parameter "parse_mdoe"',
+    });
+  });
+
+  it("should reject wrong types", async () => {
+    await expect(
+      testBot.api.raw.sendMessage({ chat_id: chat.id, text: 42 } as never),
+    ).rejects.toThrow('Bad Request: field "text" must be of type String');
+    await expect(
+      testBot.api.raw.sendMessage({ chat_id: chat.id, text: "Hi", reply_markup: "[]" } as never),
+    ).rejects.toThrow('Bad Request: field "reply_markup" must be of type Object');
+    await expect(
+      testBot.api.raw.sendLocation({ chat_id: chat.id, latitude: "north", longitude: 0 } as never),
+    ).rejects.toThrow('Bad Request: field "latitude" must be of type Float');
+  });
+
+  it("should accept numbers sent as strings", async () => {
+    await expect(
+      testBot.api.raw.sendMessage({
+        chat_id: String(chat.id),
+        text: "Hi",
+        message_thread_id: "0",
+      } as never),
+    ).resolves.toBeDefined();
+  });
+
+  it("should reject missing required parameters", async () => {
+    await expect(testBot.api.raw.sendMessage({ chat_id: chat.id } as never)).rejects.toThrow(
+      "Bad Request: message text is empty",
+    );
+    await expect(testBot.api.raw.sendMessage({ text: "Hi" } as never)).rejects.toThrow(
+      "Bad Request: chat_id is empty",
+    );
+    await expect(testBot.api.raw.getChatMember({ chat_id: chat.id } as never)).rejects.toThrow(
+      'Bad Request: parameter "user_id" is required',
+    );
+  });
+
+  it("should require a message to edit", async () => {
+    await expect(
+      testBot.api.raw.editMessageText({ chat_id: chat.id, text: "Edited" }),
+    ).rejects.toThrow("Bad Request: message identifier is not specified");
+    await expect(testBot.api.raw.editMessageText({ text: "Edited" })).rejects.toThrow(
+      "Bad Request: chat_id is empty",
+    );
+  });
+
+  it("should reject mutually exclusive parameters", async () => {
+    await expect(
+      testBot.api.sendPoll(chat.id, "Lunch?", ["Pizza", "Sushi"], {
+        open_period: 60,
+        close_date: 1_900_000_000,
+      }),
+    ).rejects.toThrow("Bad Request: can't use open_period and close_date together");
+  });
+
+  it("should reject methods that don't exist", async () => {
+    const error = await testBot.api.raw
+      .setChatSlowModeDelay({ chat_id: chat.id, slow_mode_delay: 10 } as never)
+      .catch((e: GrammyError) => e);
+
+    expect(error).toMatchObject({ error_code: 404, description: "Not Found" });
+  });
+
+  it("should reject methods the server doesn't simulate", async () => {
+    await expect(testBot.api.raw.logOut()).rejects.toThrow(
+      "logOut is not implemented by the test server",
+    );
+  });
+
+  it("should be off by default", async () => {
+    const lenient = new TestBot();
+
+    await expect(lenient.api.raw.logOut()).resolves.toBe(true);
+    expect(lenient.server.isStrictMode()).toBe(false);
+
+    lenient.dispose();
+  });
+
+  describe("validateApiPayload", () => {
+    it("should ignore parameters set to undefined", () => {
+      expect(
+        validateApiPayload("sendMessage", { chat_id: 1, text: "Hi", reply_markup: undefined }),
+      ).toBeUndefined();
+    });
+
+    it("should allow a member_limit with creates_join_request set to false", () => {
+      expect(
+        validateApiPayload("createChatInviteLink", {
+          chat_id: -100,
+          member_limit: 5,
+          creates_join_request: false,
+        }),
+      ).toBeUndefined();
+      expect(
+        validateApiPayload("createChatInviteLink", {
+          chat_id: -100,
+          member_limit: 5,
+          creates_join_request: true,
+        }),
+      ).toBe("Bad Request: member_limit can't be specified for links requiring approval");
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import type { Chat, Poll, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Time Simulation", () => {
+  let testBot: TestBot;
+  let admin: User;
+  let user: User;
+  let group: Chat;
+
+  const now = () => Math.floor(testBot.server.memberState.getCurrentTime() / 1000);
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    admin = testBot.createUser({ first_name: "Admin" });
+    user = testBot.createUser({ first_name: "Alice" });
+    group = testBot.createChat({ type: "supergroup", title: "Group" });
+    testBot.setOwner(group, admin);
+    testBot.setMember(group, user);
+    testBot.setBotAdmin(group, { can_restrict_members: true, can_invite_users: true });
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  describe("polls", () => {
+    it("should close polls when open_period ends", async () => {
+      const closed: Poll[] = [];
+      testBot.on("poll", (ctx) => {
+        closed.push(ctx.poll);
+      });
+      const message = await testBot.api.sendPoll(group.id, "Lunch?", ["Pizza", "Sushi"], {
+        open_period: 60,
+      });
+
+      expect(message.poll.close_date).toBe(message.date + 60);
+
+      await testBot.passTime(59);
+      expect(closed).toEqual([]);
+
+      const response = await testBot.passTime(1);
+
+      expect(closed).toHaveLength(1);
+      expect(closed[0]).toMatchObject({ id: message.poll.id, is_closed: true });
+      expect(response.generatedUpdates).toHaveLength(1);
+      expect(testBot.server.pollState.getPoll(message.poll.id)?.is_closed).toBe(true);
+    });
+
+    it("should close polls at close_date", async () => {
+      const message = await testBot.api.sendPoll(group.id, "Vote", ["Yes", "No"], {
+        close_date: now() + 3600,
+      });
+
+      const response = await testBot.passTime(2 * 3600);
+
+      expect(response.generatedUpdates.map((u) => u.poll?.id)).toEqual([message.poll.id]);
+    });
+
+    it("should not emit for polls stopped earlier", async () => {
+      const message = await testBot.api.sendPoll(group.id, "Vote", ["Yes", "No"], {
+        open_period: 60,
+      });
+      await testBot.api.stopPoll(group.id, message.message_id);
+
+      const response = await testBot.passTime(120);
+
+      expect(response.generatedUpdates).toEqual([]);
+    });
+
+    it("should queue poll updates when time passes outside a test action", async () => {
+      await testBot.api.sendPoll(group.id, "Vote", ["Yes", "No"], { open_period: 5 });
+
+      testBot.server.advanceTime(5);
+
+      const updates = await testBot.api.getUpdates();
+      expect(updates.map((u) => u.poll?.is_closed)).toEqual([true]);
+    });
+  });
+
+  describe("restrictions and bans", () => {
+    it("should lift restrictions at until_date", async () => {
+      await testBot.api.restrictChatMember(
+        group.id,
+        user.id,
+        { can_send_messages: false },
+        { until_date: now() + 600 },
+      );
+
+      await testBot.passTime(300);
+      expect(testBot.server.memberState.getMember(group.id, user.id)?.status).toBe("restricted");
+
+      await testBot.passTime(300);
+      expect(testBot.server.memberState.getMember(group.id, user.id)).toMatchObject({
+        status: "member",
+        until_date: 0,
+      });
+    });
+
+    it("should expire temporary bans", async () => {
+      await testBot.api.banChatMember(group.id, user.id, { until_date: now() + 86400 });
+
+      await testBot.passTime(86400);
+
+      expect(testBot.server.memberState.getMember(group.id, user.id)?.status).toBe("left");
+      const link = testBot.server.chatState.createInviteLink(group.id, admin);
+      const response = await testBot.simulateJoinViaLink(user, group, link?.invite_link ?? "");
+      expect(response.error).toBeUndefined();
+    });
+
+    it("should send chat_member updates when restrictions and bans expire", async () => {
+      testBot.server.updateQueue.setAllowedUpdates(["message", "chat_member"]);
+      const banned = testBot.createUser({ first_name: "Bob" });
+      testBot.setMember(group, banned);
+      await testBot.api.restrictChatMember(
+        group.id,
+        user.id,
+        { can_send_messages: false },
+        { until_date: now() + 60 },
+      );
+      await testBot.api.banChatMember(group.id, banned.id, { until_date: now() + 120 });
+
+      const response = await testBot.passTime(120);
+
+      expect(
+        response.generatedUpdates.map((u) => [
+          u.chat_member?.new_chat_member.user.id,
+          u.chat_member?.old_chat_member.status,
+          u.chat_member?.new_chat_member.status,
+        ]),
+      ).toEqual([
+        [user.id, "restricted", "member"],
+        [banned.id, "kicked", "left"],
+      ]);
+    });
+
+    it("should keep timed updates queued when time advances synchronously", async () => {
+      testBot.server.updateQueue.setAllowedUpdates(["chat_member"]);
+      await testBot.api.restrictChatMember(
+        group.id,
+        user.id,
+        { can_send_messages: false },
+        { until_date: now() + 60 },
+      );
+
+      testBot.advanceTime(60);
+
+      const updates = await testBot.api.getUpdates();
+      // The restriction itself, then its expiry
+      expect(updates.map((u) => u.chat_member?.new_chat_member.status)).toEqual([
+        "restricted",
+        "member",
+      ]);
+    });
+
+    it("should treat until_date less than 30 seconds away as forever", async () => {
+      await testBot.api.restrictChatMember(
+        group.id,
+        user.id,
+        { can_send_messages: false },
+        { until_date: now() + 29 },
+      );
+      const banned = testBot.createUser({ first_name: "Bob" });
+      testBot.setMember(group, banned);
+      await testBot.api.banChatMember(group.id, banned.id, { until_date: now() - 60 });
+
+      await testBot.passTime(60);
+
+      expect(testBot.server.memberState.getMember(group.id, user.id)).toMatchObject({
+        status: "restricted",
+        until_date: 0,
+      });
+      expect(testBot.server.memberState.getMember(group.id, banned.id)).toMatchObject({
+        status: "kicked",
+        until_date: 0,
+      });
+    });
+
+    it("should treat until_date more than 366 days away as forever", async () => {
+      await testBot.api.banChatMember(group.id, user.id, { until_date: now() + 366 * 86400 + 1 });
+
+      await testBot.passTime(367 * 86400);
+
+      expect(testBot.server.memberState.getMember(group.id, user.id)).toMatchObject({
+        status: "kicked",
+        until_date: 0,
+      });
+    });
+
+    it("should keep until_date at both ends of the allowed range", async () => {
+      const banned = testBot.createUser({ first_name: "Bob" });
+      testBot.setMember(group, banned);
+      await testBot.api.restrictChatMember(
+        group.id,
+        user.id,
+        { can_send_messages: false },
+        { until_date: now() + 30 },
+      );
+      await testBot.api.banChatMember(group.id, banned.id, { until_date: now() + 366 * 86400 });
+
+      await testBot.passTime(30);
+      expect(testBot.server.memberState.getMember(group.id, user.id)?.status).toBe("member");
+
+      await testBot.passTime(366 * 86400);
+      expect(testBot.server.memberState.getMember(group.id, banned.id)?.status).toBe("left");
+    });
+
+    it("should keep permanent bans", async () => {
+      await testBot.api.banChatMember(group.id, user.id);
+
+      await testBot.passTime(366 * 86400);
+
+      expect(testBot.server.memberState.getMember(group.id, user.id)?.status).toBe("kicked");
+    });
+  });
+
+  it("should fire transitions in chronological order", async () => {
+    const later = await testBot.api.sendPoll(group.id, "Later", ["Yes", "No"], {
+      open_period: 300,
+    });
+    const sooner = await testBot.api.sendPoll(group.id, "Sooner", ["Yes", "No"], {
+      open_period: 60,
+    });
+
+    const response = await testBot.passTime(600);
+
+    expect(response.generatedUpdates.map((u) => u.poll?.id)).toEqual([
+      sooner.poll.id,
+      later.poll.id,
+    ]);
+  });
+
+  it("should expire invite links with the simulated clock", async () => {
+    const link = testBot.server.chatState.createInviteLink(group.id, admin, {
+      expire_date: now() + 3600,
+    });
+    const inviteLink = link?.invite_link ?? "";
+
+    expect(testBot.server.chatState.isInviteLinkValid(group.id, inviteLink)).toBe(true);
+
+    await testBot.passTime(3600);
+
+    expect(testBot.server.chatState.isInviteLinkValid(group.id, inviteLink)).toBe(false);
+    const newUser = testBot.createUser({ first_name: "Late" });
+    const response = await testBot.simulateJoinViaLink(newUser, group, inviteLink);
+    expect(response.error?.description).toBe("Bad Request: invite link expired");
+  });
+
+  it("should fire due transitions when the clock is set forward", async () => {
+    await testBot.api.sendPoll(group.id, "Vote", ["Yes", "No"], { open_period: 600 });
+
+    testBot.server.setCurrentTime(testBot.server.memberState.getCurrentTime() + 3600 * 1000);
+
+    expect(testBot.server.pollState.getAllPolls()[0].poll.is_closed).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import type { Chat } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseFormattedText, TestBot } from "../src/index.js";
+
+// 👨‍👩‍👧 is three surrogate pairs joined by two zero-width joiners: 8 UTF-16 code units
+const FAMILY = "👨‍👩‍👧";
+
+describe("UTF-16 Offsets", () => {
+  describe("parseFormattedText", () => {
+    it("should count surrogate pairs as two code units", () => {
+      const expected = {
+        text: "🎉 Привет 👍 мир",
+        entities: [
+          { type: "bold", offset: 3, length: 6 },
+          { type: "italic", offset: 10, length: 2 },
+        ],
+      };
+
+      expect(parseFormattedText("🎉 *Привет* _👍_ мир", "Markdown")).toEqual(expected);
+      expect(parseFormattedText("🎉 *Привет* _👍_ мир", "MarkdownV2")).toEqual(expected);
+      expect(parseFormattedText("🎉 <b>Привет</b> <i>👍</i> мир", "HTML")).toEqual(expected);
+    });
+
+    it("should count ZWJ sequences as the sum of their parts", () => {
+      expect(FAMILY).toHaveLength(8);
+      expect(parseFormattedText(`${FAMILY} ||${FAMILY}|| \`x\``, "MarkdownV2").entities).toEqual([
+        { type: "spoiler", offset: 9, length: 8 },
+        { type: "code", offset: 18, length: 1 },
+      ]);
+      expect(parseFormattedText(`<a href="https://e.com">${FAMILY}🇺🇦</a>!`, "HTML")).toEqual({
+        text: `${FAMILY}🇺🇦!`,
+        entities: [{ type: "text_link", offset: 0, length: 12, url: "https://e.com" }],
+      });
+    });
+
+    it("should measure entities around astral characters in numeric references", () => {
+      expect(parseFormattedText("&#128512;<b>&#x1F600;x</b>", "HTML").entities).toEqual([
+        { type: "bold", offset: 2, length: 3 },
+      ]);
+    });
+  });
+
+  describe("length limits", () => {
+    let testBot: TestBot;
+    let chat: Chat;
+
+    beforeEach(() => {
+      testBot = new TestBot();
+      chat = testBot.createChat({ type: "private", first_name: "Alice" });
+    });
+
+    afterEach(() => {
+      testBot.dispose();
+    });
+
+    it("should count messages in UTF-16 code units", async () => {
+      await expect(testBot.api.sendMessage(chat.id, "😀".repeat(2048))).resolves.toBeDefined();
+      await expect(testBot.api.sendMessage(chat.id, `${"😀".repeat(2048)}a`)).rejects.toThrow(
+        "Bad Request: message is too long",
+      );
+      await expect(testBot.api.sendMessage(chat.id, FAMILY.repeat(513))).rejects.toThrow(
+        "Bad Request: message is too long",
+      );
+    });
+
+    it("should measure the text after entity parsing", async () => {
+      const markup = `<b>${"a".repeat(4096)}</b>`;
+      expect(markup.length).toBeGreaterThan(4096);
+
+      const message = await testBot.api.sendMessage(chat.id, markup, { parse_mode: "HTML" });
+
+      expect(message.text).toHaveLength(4096);
+      expect(message.entities).toEqual([{ type: "bold", offset: 0, length: 4096 }]);
+      await expect(
+        testBot.api.sendMessage(chat.id, `*${"я".repeat(4097)}*`, { parse_mode: "MarkdownV2" }),
+      ).rejects.toThrow("Bad Request: message is too long");
+    });
+
+    it("should check captions and edits", async () => {
+      const photo = "https://example.com/photo.jpg";
+      await expect(
+        testBot.api.sendPhoto(chat.id, photo, {
+          caption: `__${"👍".repeat(512)}__`,
+          parse_mode: "MarkdownV2",
+        }),
+      ).resolves.toBeDefined();
+      await expect(
+        testBot.api.sendPhoto(chat.id, photo, { caption: `${"👍".repeat(512)}!` }),
+      ).rejects.toThrow("Bad Request: message caption is too long");
+
+      const message = await testBot.api.sendMessage(chat.id, "Draft");
+      await expect(
+        testBot.api.editMessageText(chat.id, message.message_id, "😀".repeat(2049)),
+      ).rejects.toThrow("Bad Request: message is too long");
+      await expect(
+        testBot.api.editMessageText(chat.id, message.message_id, `<i>${"😀".repeat(2048)}</i>`, {
+          parse_mode: "HTML",
+        }),
+      ).resolves.toMatchObject({ entities: [{ type: "italic", offset: 0, length: 4096 }] });
+    });
+
+    it("should measure media group and edited media captions after entity parsing", async () => {
+      const photo = "https://example.com/photo.jpg";
+      const caption = `<b>${"a".repeat(1024)}</b>`;
+      expect(caption.length).toBeGreaterThan(1024);
+
+      const [sent] = await testBot.api.sendMediaGroup(chat.id, [
+        { type: "photo", media: photo, caption, parse_mode: "HTML" },
+        { type: "photo", media: photo },
+      ]);
+      expect(sent.caption).toHaveLength(1024);
+      await expect(
+        testBot.api.sendMediaGroup(chat.id, [
+          {
+            type: "photo",
+            media: photo,
+            caption: `<b>${"a".repeat(1025)}</b>`,
+            parse_mode: "HTML",
+          },
+          { type: "photo", media: photo },
+        ]),
+      ).rejects.toThrow("Bad Request: message caption is too long");
+
+      await expect(
+        testBot.api.editMessageMedia(chat.id, sent.message_id, {
+          type: "photo",
+          media: photo,
+          caption: `_${"a".repeat(1024)}_`,
+          parse_mode: "MarkdownV2",
+        }),
+      ).resolves.toMatchObject({ caption_entities: [{ type: "italic", offset: 0, length: 1024 }] });
+      await expect(
+        testBot.api.editMessageMedia(chat.id, sent.message_id, {
+          type: "photo",
+          media: photo,
+          caption: `_${"a".repeat(1025)}_`,
+          parse_mode: "MarkdownV2",
+        }),
+      ).rejects.toThrow("Bad Request: message caption is too long");
+    });
+  });
+});
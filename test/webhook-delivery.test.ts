@@ -0,0 +1,284 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Bot, webhookCallback } from "grammy";
+import type { Chat, User } from "grammy/types";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockFetch, TestBot, type WebhookDelivery } from "../src/index.js";
+
+type Handler = (req: IncomingMessage, res: ServerResponse, body: string) => void;
+
+describe("Webhook Delivery", () => {
+  let testBot: TestBot;
+  let user: User;
+  let chat: Chat;
+  let httpServer: Server | null;
+  let delivery: WebhookDelivery | null;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+    user = testBot.createUser({ first_name: "Alice" });
+    chat = testBot.createChat({ type: "private", first_name: "Alice" });
+    httpServer = null;
+    delivery = null;
+  });
+
+  afterEach(async () => {
+    delivery?.stop();
+    const server = httpServer;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+    testBot.dispose();
+  });
+
+  async function serve(
+    listener: (req: IncomingMessage, res: ServerResponse) => void,
+  ): Promise<string> {
+    const server = createServer(listener);
+    httpServer = server;
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/telegram`;
+  }
+
+  function listen(handler: Handler): Promise<string> {
+    return serve((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => handler(req, res, Buffer.concat(chunks).toString("utf8")));
+    });
+  }
+
+  async function waitFor(predicate: () => boolean): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (!predicate() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  function queueText(text: string) {
+    const update = testBot.server.updateFactory.createTextMessage(user, chat, text);
+    testBot.queueUpdate(update);
+    return update;
+  }
+
+  it("should deliver updates to a real grammY webhook handler", async () => {
+    const bot = new Bot("TEST:TOKEN", {
+      botInfo: testBot.botInfo,
+      client: { fetch: createMockFetch(testBot.server, []) },
+    });
+    bot.on("message:text", (ctx) => ctx.reply(`Echo: ${ctx.message.text}`));
+    const handle = webhookCallback(bot, "http", { secretToken: "s3cr3t" });
+    const url = await serve((req, res) => {
+      void handle(req, res);
+    });
+
+    await testBot.api.setWebhook(url, { secret_token: "s3cr3t" });
+    delivery = testBot.createWebhookDelivery();
+    delivery.start();
+
+    queueText("hello");
+    await delivery.flush();
+
+    expect(testBot.server.getLastBotMessage(chat.id)).toMatchObject({ text: "Echo: hello" });
+    expect((await testBot.api.getWebhookInfo()).pending_update_count).toBe(0);
+  });
+
+  it("should send the update as JSON with the secret token header", async () => {
+    const received: Array<{ headers: IncomingMessage["headers"]; body: string }> = [];
+    const url = await listen((req, res, body) => {
+      received.push({ headers: req.headers, body });
+      res.end();
+    });
+
+    await testBot.api.setWebhook(url, { secret_token: "s3cr3t" });
+    delivery = testBot.createWebhookDelivery();
+    delivery.start();
+
+    const update = queueText("hello");
+    await delivery.flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers["content-type"]).toBe("application/json");
+    expect(received[0].headers["x-telegram-bot-api-secret-token"]).toBe("s3cr3t");
+    expect(JSON.parse(received[0].body)).toEqual(update);
+  });
+
+  it("should retry failed deliveries and record the error", async () => {
+    let calls = 0;
+    const url = await listen((_req, res) => {
+      calls++;
+      res.statusCode = calls === 1 ? 500 : 200;
+      res.end();
+    });
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery({ retryDelay: 10 });
+    delivery.start();
+
+    const update = queueText("hello");
+    await delivery.flush();
+
+    expect(delivery.getAttempts()).toMatchObject([
+      {
+        updateId: update.update_id,
+        attempt: 1,
+        status: 500,
+        error: "Wrong response from the webhook: 500 Internal Server Error",
+      },
+      { updateId: update.update_id, attempt: 2, status: 200, error: undefined },
+    ]);
+
+    const info = await testBot.api.getWebhookInfo();
+    expect(info.pending_update_count).toBe(0);
+    expect(info.last_error_message).toBe(
+      "Wrong response from the webhook: 500 Internal Server Error",
+    );
+    expect(info.last_error_date).toBeTypeOf("number");
+  });
+
+  it("should keep updates queued while the endpoint keeps failing", async () => {
+    const url = await listen((_req, res) => {
+      res.statusCode = 503;
+      res.end();
+    });
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery({ retryDelay: 10 });
+    delivery.start();
+
+    queueText("hello");
+    const active = delivery;
+    await waitFor(() => active.getAttempts().length > 1);
+    delivery.stop();
+
+    expect(delivery.getAttempts().length).toBeGreaterThan(1);
+    expect((await testBot.api.getWebhookInfo()).pending_update_count).toBe(1);
+  });
+
+  it("should give up on an update after maxAttempts so flush resolves", async () => {
+    const url = await listen((_req, res) => {
+      res.statusCode = 503;
+      res.end();
+    });
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery({ retryDelay: 5, maxAttempts: 3 });
+    delivery.start();
+
+    const update = queueText("hello");
+    await delivery.flush();
+
+    expect(delivery.getAttempts().map((attempt) => attempt.attempt)).toEqual([1, 2, 3]);
+    expect(delivery.getAttempts().every((a) => a.updateId === update.update_id)).toBe(true);
+    const info = await testBot.api.getWebhookInfo();
+    expect(info.pending_update_count).toBe(1);
+    expect(info.last_error_message).toBe(
+      "Wrong response from the webhook: 503 Service Unavailable",
+    );
+  });
+
+  it("should report timeouts", async () => {
+    const url = await listen(() => {
+      // Never respond
+    });
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery({ timeout: 50, retryDelay: 1000 });
+    delivery.start();
+
+    queueText("hello");
+    const active = delivery;
+    await waitFor(() => active.getAttempts().length > 0);
+
+    expect(delivery.getAttempts()[0].error).toBe("Read timeout expired");
+    expect((await testBot.api.getWebhookInfo()).last_error_message).toBe("Read timeout expired");
+  });
+
+  it("should report refused connections", async () => {
+    const url = await listen(() => {});
+    const server = httpServer as Server;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    httpServer = null;
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery({ retryDelay: 1000 });
+    delivery.start();
+
+    queueText("hello");
+    const active = delivery;
+    await waitFor(() => active.getAttempts().length > 0);
+
+    expect((await testBot.api.getWebhookInfo()).last_error_message).toBe("Connection refused");
+  });
+
+  it("should respect max_connections", async () => {
+    let active = 0;
+    let maxActive = 0;
+    let received = 0;
+    const held: ServerResponse[] = [];
+    const url = await listen((_req, res) => {
+      received++;
+      active++;
+      maxActive = Math.max(maxActive, active);
+      held.push(res);
+      if (held.length === 2 || received === 5) {
+        // Give a third connection the chance to show up before releasing
+        setTimeout(() => {
+          for (const r of held.splice(0)) {
+            active--;
+            r.end();
+          }
+        }, 30);
+      }
+    });
+
+    await testBot.api.setWebhook(url, { max_connections: 2 });
+    delivery = testBot.createWebhookDelivery();
+    delivery.start();
+
+    for (let i = 0; i < 5; i++) {
+      queueText(`message ${i}`);
+    }
+    await delivery.flush();
+
+    expect(maxActive).toBe(2);
+    expect(delivery.getAttempts()).toHaveLength(5);
+  });
+
+  it("should execute a method call returned in the response body", async () => {
+    const url = await listen((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ method: "sendMessage", chat_id: chat.id, text: "Webhook reply" }));
+    });
+
+    await testBot.api.setWebhook(url);
+    delivery = testBot.createWebhookDelivery();
+    delivery.start();
+
+    queueText("hello");
+    await delivery.flush();
+
+    expect(testBot.server.getLastBotMessage(chat.id)).toMatchObject({ text: "Webhook reply" });
+    expect(testBot.getApiCalls().some((c) => c.method === "sendMessage")).toBe(true);
+  });
+
+  it("should not deliver without a webhook", async () => {
+    let calls = 0;
+    await listen((_req, res) => {
+      calls++;
+      res.end();
+    });
+
+    delivery = testBot.createWebhookDelivery();
+    delivery.start();
+
+    queueText("hello");
+    await delivery.flush();
+
+    expect(calls).toBe(0);
+    expect(testBot.server.updateQueue.pendingCount).toBe(1);
+  });
+});
@@ -0,0 +1,181 @@
+import { GrammyError } from "grammy";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestBot } from "../src/index.js";
+
+describe("Webhook Registry", () => {
+  let testBot: TestBot;
+
+  beforeEach(() => {
+    testBot = new TestBot();
+  });
+
+  afterEach(() => {
+    testBot.dispose();
+  });
+
+  function queueMessage(text: string) {
+    const user = testBot.createUser({ first_name: "Alice" });
+    const chat = testBot.createChat({ type: "private" });
+    testBot.queueUpdate(testBot.server.updateFactory.createTextMessage(user, chat, text));
+  }
+
+  describe("setWebhook", () => {
+    it("should store the webhook configuration", async () => {
+      await testBot.api.setWebhook("https://example.com/hook", {
+        secret_token: "s3cr3t",
+        max_connections: 10,
+        allowed_updates: ["message", "callback_query"],
+        drop_pending_updates: true,
+      });
+
+      expect(testBot.server.webhookState.getWebhook()).toMatchObject({
+        url: "https://example.com/hook",
+        secretToken: "s3cr3t",
+        maxConnections: 10,
+        allowedUpdates: ["message", "callback_query"],
+        dropPendingUpdates: true,
+      });
+    });
+
+    it("should report the configuration in getWebhookInfo", async () => {
+      await testBot.api.setWebhook("https://example.com/hook", {
+        secret_token: "s3cr3t",
+        allowed_updates: ["message"],
+      });
+
+      const info = await testBot.api.getWebhookInfo();
+
+      expect(info).toEqual({
+        url: "https://example.com/hook",
+        has_custom_certificate: false,
+        pending_update_count: 0,
+        max_connections: 40,
+        allowed_updates: ["message"],
+      });
+    });
+
+    it("should count pending updates", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+      queueMessage("one");
+      queueMessage("two");
+
+      const info = await testBot.api.getWebhookInfo();
+      expect(info.pending_update_count).toBe(2);
+    });
+
+    it("should drop pending updates when requested", async () => {
+      queueMessage("stale");
+
+      await testBot.api.setWebhook("https://example.com/hook", { drop_pending_updates: true });
+
+      const info = await testBot.api.getWebhookInfo();
+      expect(info.pending_update_count).toBe(0);
+    });
+
+    it("should apply allowed_updates to queued updates", async () => {
+      await testBot.api.setWebhook("https://example.com/hook", {
+        allowed_updates: ["callback_query"],
+      });
+      queueMessage("filtered");
+
+      const info = await testBot.api.getWebhookInfo();
+      expect(info.pending_update_count).toBe(0);
+    });
+
+    it("should reject invalid URLs", async () => {
+      await expect(testBot.api.setWebhook("not a url")).rejects.toThrow(
+        "Bad Request: invalid webhook URL specified",
+      );
+      await expect(testBot.api.setWebhook("ftp://example.com/hook")).rejects.toThrow(
+        "An HTTPS URL must be provided for webhook",
+      );
+    });
+
+    it("should reject invalid secret tokens", async () => {
+      await expect(
+        testBot.api.setWebhook("https://example.com/hook", { secret_token: "has spaces" }),
+      ).rejects.toThrow("Bad Request: secret token contains unallowed characters");
+    });
+
+    it("should reject out-of-range max_connections", async () => {
+      await expect(
+        testBot.api.setWebhook("https://example.com/hook", { max_connections: 101 }),
+      ).rejects.toThrow("Bad Request: invalid max_connections specified");
+    });
+
+    it("should remove the webhook for an empty URL", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+      await testBot.api.setWebhook("");
+
+      expect(testBot.server.webhookState.isActive()).toBe(false);
+    });
+  });
+
+  describe("getWebhookInfo", () => {
+    it("should report an empty URL without a webhook", async () => {
+      const info = await testBot.api.getWebhookInfo();
+
+      expect(info).toEqual({
+        url: "",
+        has_custom_certificate: false,
+        pending_update_count: 0,
+      });
+    });
+
+    it("should report recorded delivery errors", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+      testBot.server.webhookState.recordError(1700000000, "Wrong response from the webhook: 500");
+
+      const info = await testBot.api.getWebhookInfo();
+
+      expect(info.last_error_date).toBe(1700000000);
+      expect(info.last_error_message).toBe("Wrong response from the webhook: 500");
+    });
+  });
+
+  describe("deleteWebhook", () => {
+    it("should remove the webhook", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+      await testBot.api.deleteWebhook();
+
+      const info = await testBot.api.getWebhookInfo();
+      expect(info.url).toBe("");
+    });
+
+    it("should keep pending updates by default", async () => {
+      queueMessage("kept");
+      await testBot.api.deleteWebhook();
+
+      expect(await testBot.api.getUpdates()).toHaveLength(1);
+    });
+
+    it("should drop pending updates when requested", async () => {
+      queueMessage("dropped");
+      await testBot.api.deleteWebhook({ drop_pending_updates: true });
+
+      expect(await testBot.api.getUpdates()).toEqual([]);
+    });
+  });
+
+  describe("getUpdates", () => {
+    it("should return 409 while a webhook is active", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+
+      const error = await testBot.api.getUpdates().catch((e: GrammyError) => e);
+
+      expect(error).toBeInstanceOf(GrammyError);
+      expect(error).toMatchObject({
+        error_code: 409,
+        description:
+          "Conflict: can't use getUpdates method while webhook is active; use deleteWebhook to delete the webhook first",
+      });
+    });
+
+    it("should work again after deleteWebhook", async () => {
+      await testBot.api.setWebhook("https://example.com/hook");
+      await testBot.api.deleteWebhook();
+
+      await expect(testBot.api.getUpdates()).resolves.toEqual([]);
+    });
+  });
+});